@@ -0,0 +1,54 @@
+// prisma/backfill.ts
+//
+// Fills in columns that rows written before they existed are missing. Safe to
+// run more than once: only rows still holding the column default are touched.
+//
+//   npm run db:push && npm run db:backfill
+
+import { PrismaClient } from '@prisma/client';
+
+const prisma = new PrismaClient();
+
+// Owner of orders placed before orders belonged to accounts
+const SYSTEM_ACCOUNT_ID = 'system';
+
+/**
+ * remainingAmount defaults to 0: open orders still have everything not yet
+ * filled to go, terminal ones keep 0
+ */
+async function backfillRemainingAmount(): Promise<number> {
+  return prisma.$executeRaw`
+    UPDATE "Order"
+    SET "remainingAmount" = "amountIn" - "filledAmount"
+    WHERE "status" NOT IN ('confirmed', 'failed', 'expired', 'cancelled')
+      AND "remainingAmount" = 0`;
+}
+
+/**
+ * Orders from before accounts have none: assign them to the system account,
+ * created without balances, so every order has an owner
+ */
+async function backfillAccountId(): Promise<number> {
+  await prisma.account.upsert({
+    where: { id: SYSTEM_ACCOUNT_ID },
+    create: { id: SYSTEM_ACCOUNT_ID, name: 'system' },
+    update: {},
+  });
+  const { count } = await prisma.order.updateMany({
+    where: { accountId: null },
+    data: { accountId: SYSTEM_ACCOUNT_ID },
+  });
+  return count;
+}
+
+async function main(): Promise<void> {
+  console.log(`[BACKFILL] ${await backfillAccountId()} orders assigned to the ${SYSTEM_ACCOUNT_ID} account`);
+  console.log(`[BACKFILL] remainingAmount set on ${await backfillRemainingAmount()} open orders`);
+}
+
+main()
+  .catch((error) => {
+    console.error('[BACKFILL] Failed:', error);
+    process.exitCode = 1;
+  })
+  .finally(() => prisma.$disconnect());
@@ -6,7 +6,10 @@ const WS_URL = 'ws://localhost:3000/api/orders/ws';
 let ws = null;
 let orders = new Map();
 let reconnectAttempts = 0;
+// System statistics are admin-only; cleared when the API key changes
+let statsForbidden = false;
 const MAX_RECONNECT_ATTEMPTS = 5;
+const TERMINAL_STATUSES = ['confirmed', 'failed', 'expired', 'cancelled'];
 
 // DOM Elements
 const orderForm = document.getElementById('orderForm');
@@ -18,9 +21,32 @@ const orderList = document.getElementById('orderList');
 const alertContainer = document.getElementById('alertContainer');
 const wsStatus = document.getElementById('wsStatus');
 const logContainer = document.getElementById('logContainer');
+const apiKeyInput = document.getElementById('apiKey');
+
+// Authentication: every API call and the WebSocket carry the API key
+function getApiKey() {
+    return apiKeyInput.value.trim();
+}
+
+function apiHeaders(headers = {}) {
+    return { ...headers, 'x-api-key': getApiKey() };
+}
 
 // Initialize
 document.addEventListener('DOMContentLoaded', () => {
+    apiKeyInput.value = localStorage.getItem('apiKey') || '';
+    apiKeyInput.addEventListener('change', () => {
+        localStorage.setItem('apiKey', getApiKey());
+        reconnectAttempts = 0;
+        statsForbidden = false;
+        loadStats();
+        if (ws) {
+            ws.close();
+        } else {
+            connectWebSocket();
+        }
+    });
+
     connectWebSocket();
     loadStats();
     
@@ -38,12 +64,22 @@ document.addEventListener('DOMContentLoaded', () => {
 function connectWebSocket() {
     try {
         addLog('[WS] Connecting to WebSocket...');
-        ws = new WebSocket(WS_URL);
+        ws = new WebSocket(`${WS_URL}?apiKey=${encodeURIComponent(getApiKey())}`);
         
         ws.onopen = () => {
             addLog('[WS] Connected to WebSocket');
             updateWSStatus(true);
             reconnectAttempts = 0;
+
+            // Follow every order of the key's account, including ones placed elsewhere
+            ws.send(JSON.stringify({ v: 2, action: 'subscribe', channel: 'account' }));
+
+            // Resume open orders after the last event seen, so nothing is missed across reconnects
+            orders.forEach((order) => {
+                if (!TERMINAL_STATUSES.includes(order.status)) {
+                    subscribeToOrder(order.id, (order.lastSeq || 0) + 1);
+                }
+            });
         };
         
         ws.onmessage = (event) => {
@@ -78,6 +114,13 @@ function connectWebSocket() {
     }
 }
 
+// Subscribe to one order, replaying its events from fromSeq on (all of them by default)
+function subscribeToOrder(orderId, fromSeq = 1) {
+    if (ws && ws.readyState === WebSocket.OPEN) {
+        ws.send(JSON.stringify({ v: 2, action: 'subscribe', channel: 'order', orderId, fromSeq }));
+    }
+}
+
 function updateWSStatus(connected) {
     if (connected) {
         wsStatus.className = 'ws-status ws-connected';
@@ -92,8 +135,10 @@ function handleWSMessage(message) {
     addLog(`[WS] Received: ${message.type || message.status}`);
     
     if (message.type === 'subscribed') {
-        addLog(`[WS] Subscribed to order ${message.orderId}`);
-    } else if (message.orderId) {
+        addLog(`[WS] Subscribed to ${message.channel} channel${message.orderId ? ` for order ${message.orderId}` : ''}`);
+    } else if (message.type === 'error') {
+        addLog(`[WS] ${message.message}`, 'error');
+    } else if (message.type === 'order') {
         // Order status update
         updateOrderStatus(message);
     }
@@ -104,9 +149,9 @@ async function submitOrder(orderData) {
     try {
         const response = await fetch(`${API_BASE_URL}/api/orders/execute`, {
             method: 'POST',
-            headers: {
+            headers: apiHeaders({
                 'Content-Type': 'application/json',
-            },
+            }),
             body: JSON.stringify(orderData),
         });
         
@@ -125,8 +170,19 @@ async function submitOrder(orderData) {
 }
 
 async function loadStats() {
+    // Only an admin key can read them, so stop asking once refused
+    if (statsForbidden) {
+        return;
+    }
+
     try {
-        const response = await fetch(`${API_BASE_URL}/api/stats`);
+        const response = await fetch(`${API_BASE_URL}/api/stats`, { headers: apiHeaders() });
+        if (response.status === 403) {
+            statsForbidden = true;
+            document.getElementById('statsGrid').innerHTML =
+                '<div class="stat-box"><div class="label">Statistics require an admin API key</div></div>';
+            return;
+        }
         const data = await response.json();
         
         if (data.success) {
@@ -190,12 +246,7 @@ async function handleSubmitOrder(e) {
         addOrder(result.orderId, orderData);
         
         // Subscribe to order updates via WebSocket
-        if (ws && ws.readyState === WebSocket.OPEN) {
-            ws.send(JSON.stringify({
-                action: 'subscribe',
-                orderId: result.orderId,
-            }));
-        }
+        subscribeToOrder(result.orderId);
         
         showAlert('Order submitted successfully! Order ID: ' + result.orderId, 'success');
         loadStats();
@@ -243,12 +294,7 @@ async function handleSubmit5Orders() {
             };
             addOrder(result.orderId, orderData);
             
-            if (ws && ws.readyState === WebSocket.OPEN) {
-                ws.send(JSON.stringify({
-                    action: 'subscribe',
-                    orderId: result.orderId,
-                }));
-            }
+            subscribeToOrder(result.orderId);
         });
         
         showAlert('5 orders submitted successfully!', 'success');
@@ -289,12 +335,16 @@ function updateOrderStatus(message) {
         // Order not in our local state, add it
         orders.set(message.orderId, {
             id: message.orderId,
+            tokenIn: message.tokenIn,
+            tokenOut: message.tokenOut,
             status: message.status,
             updates: [message],
+            lastSeq: message.seq,
             createdAt: new Date(),
         });
     } else {
         order.status = message.status;
+        if (message.seq) order.lastSeq = message.seq;
         order.updates.push(message);
         
         // Store execution details
@@ -302,7 +352,8 @@ function updateOrderStatus(message) {
             if (message.data.dex) order.dex = message.data.dex;
             if (message.data.price) order.executedPrice = message.data.price;
             if (message.data.txHash) order.txHash = message.data.txHash;
-            if (message.data.error) order.error = message.data.error;
+            // Retries report a transient error the order may still recover from
+            if (message.data.error && message.event !== 'retry') order.error = message.data.error;
         }
     }
     
@@ -310,7 +361,11 @@ function updateOrderStatus(message) {
     loadStats();
     
     // Log the update
-    addLog(`[ORDER ${message.orderId.substring(0, 8)}] Status: ${message.status}`);
+    if (message.event === 'retry') {
+        addLog(`[ORDER ${message.orderId.substring(0, 8)}] ${message.data.code}, retrying (${message.data.retriesLeft} left)`);
+    } else {
+        addLog(`[ORDER ${message.orderId.substring(0, 8)}] Status: ${message.status}`);
+    }
 }
 
 function renderOrders() {
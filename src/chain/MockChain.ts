@@ -0,0 +1,281 @@
+// src/chain/MockChain.ts
+
+import { MarketSimulator, marketSimulator } from '../dex/MarketSimulator';
+import { TransactionExpiredError, TransactionFailedError } from '../errors';
+import {
+  ChainConfig,
+  ChainFailure,
+  ChainInstruction,
+  ChainTransaction,
+  Commitment,
+  ConfirmedTransaction,
+  SignatureStatus,
+} from '../types';
+
+/**
+ * On-chain program an instruction invokes; its return value is the
+ * instruction's return data and a throw fails the transaction
+ */
+export type ChainProgram = (instruction: ChainInstruction) => unknown;
+
+export const COMMITMENTS: Commitment[] = ['processed', 'confirmed', 'finalized'];
+
+const CHAIN_FAILURES: ChainFailure[] = ['expired', 'dropped', 'insufficient_funds', 'program_error'];
+
+interface TransactionRecord {
+  transaction: ChainTransaction;
+  program: ChainProgram;
+  lastValidSlot: number;
+  // Slot the transaction will land in; null once dropped
+  landingSlot: number | null;
+  slot: number | null;
+  injectedError: boolean;
+  error?: Error;
+  returnData: unknown[];
+}
+
+/**
+ * Local stand-in for the Solana cluster the venues settle on. Slots advance
+ * with wall-clock time; a submitted transaction lands in the next slot, where
+ * its instructions run, then deepens from processed to confirmed to finalized.
+ * Failures are injected from the market simulator's deterministic streams.
+ */
+export class MockChain {
+  private config: ChainConfig;
+  private simulator: MarketSimulator;
+  private genesis: number = Date.now();
+  // Last slot each issued blockhash is valid for
+  private blockhashes: Map<string, number> = new Map();
+  private transactions: Map<string, TransactionRecord> = new Map();
+
+  constructor(config: ChainConfig, simulator: MarketSimulator = marketSimulator) {
+    this.config = config;
+    this.simulator = simulator;
+  }
+
+  getSlot(): number {
+    return Math.floor((Date.now() - this.genesis) / this.config.slotMs);
+  }
+
+  /**
+   * Blockhash of the current slot and the last slot a transaction using it may land in
+   */
+  getLatestBlockhash(): { blockhash: string; lastValidSlot: number } {
+    const slot = this.getSlot();
+    const blockhash = `BH${slot.toString().padStart(12, '0')}`;
+    const lastValidSlot = slot + this.config.blockhashValiditySlots;
+    this.blockhashes.set(blockhash, lastValidSlot);
+    return { blockhash, lastValidSlot };
+  }
+
+  /**
+   * Accept a signed transaction for the next slot. Stale blockhashes and
+   * underfunded fee payers are rejected up front, like a preflight check.
+   */
+  sendTransaction(transaction: ChainTransaction, program: ChainProgram): string {
+    this.sync();
+    const { signature, recentBlockhash } = transaction;
+    if (this.transactions.has(signature)) {
+      throw new Error(`Transaction ${signature.slice(0, 8)}... has already been processed`);
+    }
+
+    const slot = this.getSlot();
+    const lastValidSlot = this.blockhashes.get(recentBlockhash);
+    const failure = this.drawFailure();
+    if (lastValidSlot === undefined || slot > lastValidSlot || failure === 'expired') {
+      throw new TransactionExpiredError(signature, 'blockhash not found');
+    }
+    if (failure === 'insufficient_funds') {
+      throw new TransactionFailedError(
+        signature,
+        'INSUFFICIENT_FUNDS',
+        `fee payer ${transaction.feePayer} has insufficient funds`
+      );
+    }
+
+    this.transactions.set(signature, {
+      transaction,
+      program,
+      lastValidSlot,
+      landingSlot: failure === 'dropped' ? null : slot + 1,
+      slot: null,
+      injectedError: failure === 'program_error',
+      returnData: [],
+    });
+    return signature;
+  }
+
+  /**
+   * Status of a transaction, or null when the chain has no record of it
+   */
+  getSignatureStatus(signature: string): SignatureStatus | null {
+    this.sync();
+    const record = this.transactions.get(signature);
+    if (!record) {
+      return null;
+    }
+
+    return {
+      signature,
+      slot: record.slot,
+      commitment: record.slot === null ? null : this.getCommitment(record.slot),
+      err: record.error?.message ?? null,
+    };
+  }
+
+  /**
+   * Wait until the transaction reaches the commitment, reporting every level
+   * it passes. Rejects with the program's error when it landed but failed, and
+   * with TransactionExpiredError when its blockhash expired before it landed.
+   */
+  async confirmTransaction(
+    signature: string,
+    commitment: Commitment = 'confirmed',
+    onCommitment?: (status: SignatureStatus) => void
+  ): Promise<ConfirmedTransaction> {
+    const target = COMMITMENTS.indexOf(commitment);
+    if (target < 0) {
+      throw new Error(`Unknown commitment: ${commitment}`);
+    }
+
+    let reported = -1;
+    for (;;) {
+      const status = this.getSignatureStatus(signature);
+      const record = this.transactions.get(signature);
+      if (!status || !record) {
+        throw new TransactionExpiredError(signature, 'signature not found');
+      }
+      if (record.error) {
+        throw record.error;
+      }
+
+      if (status.slot !== null && status.commitment) {
+        const level = Math.min(COMMITMENTS.indexOf(status.commitment), target);
+        for (let i = reported + 1; i <= level; i++) {
+          onCommitment?.({ ...status, commitment: COMMITMENTS[i] });
+        }
+        reported = level;
+
+        if (level === target) {
+          return { signature, slot: status.slot, commitment, returnData: record.returnData };
+        }
+      } else if (this.getSlot() > record.lastValidSlot) {
+        this.transactions.delete(signature);
+        throw new TransactionExpiredError(signature, 'block height exceeded');
+      }
+
+      await this.sleep(this.config.slotMs);
+    }
+  }
+
+  /**
+   * Change injected failure probabilities at runtime
+   */
+  setFailureRates(failureRates: Partial<Record<ChainFailure, number>>): void {
+    this.config = { ...this.config, failureRates };
+  }
+
+  getStats() {
+    this.sync();
+    const records = Array.from(this.transactions.values());
+    return {
+      slot: this.getSlot(),
+      pending: records.filter((record) => record.slot === null).length,
+      landed: records.filter((record) => record.slot !== null).length,
+      config: this.config,
+    };
+  }
+
+  /**
+   * Land every transaction due by the current slot, in slot then submission
+   * order, and forget transactions and blockhashes too old to be queried
+   */
+  private sync(): void {
+    const slot = this.getSlot();
+
+    Array.from(this.transactions.values())
+      .filter((record) => record.slot === null && record.landingSlot !== null && record.landingSlot <= slot)
+      .sort((a, b) => a.landingSlot! - b.landingSlot!)
+      .forEach((record) => this.land(record));
+
+    const retention = this.config.finalizationDepth + this.config.blockhashValiditySlots;
+    this.transactions.forEach((record, signature) => {
+      const settled = record.slot !== null ? record.slot : record.lastValidSlot;
+      if (slot - settled > retention) {
+        this.transactions.delete(signature);
+      }
+    });
+    this.blockhashes.forEach((lastValidSlot, blockhash) => {
+      if (slot > lastValidSlot) {
+        this.blockhashes.delete(blockhash);
+      }
+    });
+  }
+
+  private land(record: TransactionRecord): void {
+    const { signature, instructions } = record.transaction;
+    record.slot = record.landingSlot;
+
+    if (record.injectedError) {
+      record.error = new TransactionFailedError(signature, 'PROGRAM_ERROR', 'custom program error: 0x1');
+      return;
+    }
+
+    try {
+      record.returnData = instructions.map((instruction) => record.program(instruction));
+    } catch (error) {
+      record.error =
+        error instanceof Error ? error : new TransactionFailedError(signature, 'PROGRAM_ERROR', String(error));
+    }
+  }
+
+  private getCommitment(slot: number): Commitment {
+    const depth = this.getSlot() - slot;
+    if (depth >= this.config.finalizationDepth) {
+      return 'finalized';
+    }
+    return depth >= this.config.confirmationDepth ? 'confirmed' : 'processed';
+  }
+
+  /**
+   * Pick at most one injected failure for a submitted transaction
+   */
+  private drawFailure(): ChainFailure | undefined {
+    const draw = this.simulator.random('chain:failure');
+    let threshold = 0;
+    return CHAIN_FAILURES.find((failure) => {
+      threshold += this.config.failureRates[failure] ?? 0;
+      return draw < threshold;
+    });
+  }
+
+  private sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
+
+/**
+ * Build chain config from the environment:
+ * CHAIN_SLOT_MS, CHAIN_CONFIRMATION_DEPTH, CHAIN_FINALIZATION_DEPTH,
+ * CHAIN_BLOCKHASH_VALIDITY_SLOTS and CHAIN_FAILURE_RATES (JSON object of
+ * probabilities for expired, dropped, insufficient_funds and program_error)
+ */
+export function loadChainConfig(env: NodeJS.ProcessEnv = process.env): ChainConfig {
+  const failureRates = env.CHAIN_FAILURE_RATES ? JSON.parse(env.CHAIN_FAILURE_RATES) : {};
+  const unknown = Object.keys(failureRates).find(
+    (failure) => !CHAIN_FAILURES.includes(failure as ChainFailure)
+  );
+  if (unknown) {
+    throw new Error(`Unknown CHAIN_FAILURE_RATES entry: ${unknown}`);
+  }
+
+  return {
+    slotMs: parseInt(env.CHAIN_SLOT_MS || '400'),
+    confirmationDepth: parseInt(env.CHAIN_CONFIRMATION_DEPTH || '1'),
+    finalizationDepth: parseInt(env.CHAIN_FINALIZATION_DEPTH || '32'),
+    blockhashValiditySlots: parseInt(env.CHAIN_BLOCKHASH_VALIDITY_SLOTS || '150'),
+    failureRates,
+  };
+}
+
+export const mockChain = new MockChain(loadChainConfig());
@@ -0,0 +1,45 @@
+// src/dex/DexAdapter.ts
+
+import { DexQuote, DexType, OrderSide, SwapOptions, SwapParams, SwapResult, VenueHealth } from '../types';
+
+/**
+ * Contract every DEX venue implements so the router can iterate them generically
+ */
+export interface DexAdapter {
+  readonly name: DexType;
+
+  /**
+   * Quote buying (BUY) or selling (SELL) amount of tokenIn against tokenOut
+   */
+  getQuote(tokenIn: string, tokenOut: string, amount: number, side?: OrderSide): Promise<DexQuote>;
+
+  /**
+   * Quote several sizes against the same pool state in one round trip
+   */
+  getQuoteLadder(
+    tokenIn: string,
+    tokenOut: string,
+    amounts: number[],
+    side?: OrderSide
+  ): Promise<DexQuote[]>;
+
+  /**
+   * Execute a swap for an order, resolving once it reaches the requested commitment
+   */
+  executeSwap(orderId: string, params: SwapParams, options?: SwapOptions): Promise<SwapResult>;
+
+  /**
+   * Report current venue health
+   */
+  health(): Promise<VenueHealth>;
+
+  /**
+   * Check whether the venue trades the pair
+   */
+  supportsPair(tokenIn: string, tokenOut: string): boolean;
+
+  /**
+   * Pairs the venue trades, or '*' for all
+   */
+  getSupportedPairs(): string[] | '*';
+}
@@ -0,0 +1,113 @@
+// src/dex/DexRegistry.ts
+
+import { DexAdapter } from './DexAdapter';
+import { MockDexAdapter } from './MockDexAdapter';
+import { loadVenueConfig } from './venues';
+import { DexType, VenueHealth } from '../types';
+
+export interface VenueSettings {
+  enabled: boolean;
+  timeoutMs: number;
+}
+
+interface RegisteredVenue {
+  adapter: DexAdapter;
+  settings: VenueSettings;
+}
+
+/**
+ * Registry of DEX venues the router can quote and execute on
+ */
+export class DexRegistry {
+  private venues: Map<DexType, RegisteredVenue> = new Map();
+
+  /**
+   * Register (or replace) a venue adapter
+   */
+  register(adapter: DexAdapter, settings: Partial<VenueSettings> = {}): void {
+    this.venues.set(adapter.name, {
+      adapter,
+      settings: { enabled: true, timeoutMs: 2000, ...settings },
+    });
+  }
+
+  /**
+   * Get a registered adapter by venue name
+   */
+  get(name: DexType): DexAdapter {
+    const venue = this.venues.get(name);
+    if (!venue) {
+      throw new Error(`Unknown DEX venue: ${name}`);
+    }
+    return venue.adapter;
+  }
+
+  has(name: DexType): boolean {
+    return this.venues.has(name);
+  }
+
+  getSettings(name: DexType): VenueSettings {
+    const venue = this.venues.get(name);
+    if (!venue) {
+      throw new Error(`Unknown DEX venue: ${name}`);
+    }
+    return venue.settings;
+  }
+
+  /**
+   * Enable or disable routing to a venue
+   */
+  setEnabled(name: DexType, enabled: boolean): void {
+    this.getSettings(name).enabled = enabled;
+  }
+
+  /**
+   * Names of enabled venues
+   */
+  getEnabledVenues(): DexType[] {
+    return Array.from(this.venues.values())
+      .filter(({ settings }) => settings.enabled)
+      .map(({ adapter }) => adapter.name);
+  }
+
+  /**
+   * Names of enabled venues that trade the pair
+   */
+  getVenuesForPair(tokenIn: string, tokenOut: string): DexType[] {
+    return Array.from(this.venues.values())
+      .filter(({ adapter, settings }) => settings.enabled && adapter.supportsPair(tokenIn, tokenOut))
+      .map(({ adapter }) => adapter.name);
+  }
+
+  /**
+   * Describe every registered venue with its settings and health
+   */
+  async list(): Promise<
+    Array<VenueSettings & { name: DexType; pairs: string[] | '*'; health: VenueHealth }>
+  > {
+    return Promise.all(
+      Array.from(this.venues.values()).map(async ({ adapter, settings }) => ({
+        name: adapter.name,
+        ...settings,
+        pairs: adapter.getSupportedPairs(),
+        health: await adapter.health(),
+      }))
+    );
+  }
+}
+
+/**
+ * Build a registry of mock venues from configuration
+ */
+export function createDefaultRegistry(): DexRegistry {
+  const registry = new DexRegistry();
+  loadVenueConfig().forEach((config) =>
+    registry.register(new MockDexAdapter(config), {
+      enabled: config.enabled,
+      timeoutMs: config.timeoutMs,
+    })
+  );
+  return registry;
+}
+
+export const dexRegistry = createDefaultRegistry();
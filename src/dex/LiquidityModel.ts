@@ -0,0 +1,118 @@
+// src/dex/LiquidityModel.ts
+
+import { LiquidityConfig, OrderSide } from '../types';
+
+export interface PoolFill {
+  // Amount of tokenIn the pool can absorb, up to the requested amount
+  filledAmount: number;
+  // tokenOut paid (BUY) or received (SELL) before fees
+  quoteAmount: number;
+  averagePrice: number;
+  // Spot price after the trade
+  newSpotPrice: number;
+  // Reserve of the token the trader receives
+  availableLiquidity: number;
+}
+
+/**
+ * Price impact model of a simulated pool around its current spot price
+ */
+export interface LiquidityModel {
+  fill(spot: number, amount: number, side: OrderSide): PoolFill;
+}
+
+/**
+ * x*y=k pool whose tokenIn reserve is worth `depth` tokenOut at spot
+ */
+export class ConstantProductModel implements LiquidityModel {
+  private depth: number;
+
+  constructor(depth: number) {
+    this.depth = depth;
+  }
+
+  fill(spot: number, amount: number, side: OrderSide): PoolFill {
+    const reserveIn = this.depth / spot;
+    const reserveOut = this.depth;
+
+    if (side === 'SELL') {
+      // Exact input: tokenIn goes into the pool, tokenOut comes out
+      const quoteAmount = (reserveOut * amount) / (reserveIn + amount);
+      return {
+        filledAmount: amount,
+        quoteAmount,
+        averagePrice: quoteAmount / amount,
+        newSpotPrice: (reserveOut - quoteAmount) / (reserveIn + amount),
+        availableLiquidity: reserveOut,
+      };
+    }
+
+    // Exact output: tokenIn comes out, so the pool can never be fully drained
+    const filledAmount = Math.min(amount, reserveIn * 0.99);
+    const quoteAmount = (reserveOut * filledAmount) / (reserveIn - filledAmount);
+    return {
+      filledAmount,
+      quoteAmount,
+      averagePrice: quoteAmount / filledAmount,
+      newSpotPrice: (reserveOut + quoteAmount) / (reserveIn - filledAmount),
+      availableLiquidity: reserveIn,
+    };
+  }
+}
+
+/**
+ * Discrete price bins of equal size; the active bin trades at spot and each
+ * further bin is binStep away. Liquidity beyond binsPerSide does not exist.
+ */
+export class BinLiquidityModel implements LiquidityModel {
+  private binStep: number;
+  private binLiquidity: number;
+  private binsPerSide: number;
+
+  constructor(binStep: number, binLiquidity: number, binsPerSide: number) {
+    this.binStep = binStep;
+    this.binLiquidity = binLiquidity;
+    this.binsPerSide = binsPerSide;
+  }
+
+  fill(spot: number, amount: number, side: OrderSide): PoolFill {
+    // Buyers walk up the bins, sellers walk down
+    const direction = side === 'BUY' ? 1 : -1;
+    const binSize = this.binLiquidity / spot;
+
+    let remaining = amount;
+    let quoteAmount = 0;
+    let binsCrossed = 0;
+    let availableLiquidity = 0;
+
+    for (let i = 0; i < this.binsPerSide; i++) {
+      const binPrice = spot * Math.pow(1 + this.binStep, direction * i);
+      availableLiquidity += side === 'BUY' ? binSize : binSize * binPrice;
+
+      if (remaining > 0) {
+        const take = Math.min(remaining, binSize);
+        quoteAmount += take * binPrice;
+        remaining -= take;
+        binsCrossed = i + take / binSize;
+      }
+    }
+
+    const filledAmount = amount - Math.max(remaining, 0);
+    return {
+      filledAmount,
+      quoteAmount,
+      averagePrice: filledAmount > 0 ? quoteAmount / filledAmount : spot,
+      newSpotPrice: spot * Math.pow(1 + this.binStep, direction * binsCrossed),
+      availableLiquidity,
+    };
+  }
+}
+
+/**
+ * Build the liquidity model described by a venue's configuration
+ */
+export function createLiquidityModel(config: LiquidityConfig): LiquidityModel {
+  return config.model === 'constant_product'
+    ? new ConstantProductModel(config.depth)
+    : new BinLiquidityModel(config.binStep, config.binLiquidity, config.binsPerSide);
+}
@@ -0,0 +1,203 @@
+// src/dex/MarketSimulator.ts
+
+import fs from 'fs';
+import { createRng, deriveSeed, gaussian } from './random';
+import { PriceProcess, SimulatorConfig } from '../types';
+
+export const DEFAULT_BASE_PRICES: Record<string, number> = {
+  'SOL/USDC': 185.5,
+  'SOL/USDT': 185.4,
+  'BONK/SOL': 0.00000012,
+  'JUP/USDC': 0.92,
+  'USDC/USDT': 1.0,
+};
+
+const PRICE_PROCESSES: PriceProcess[] = ['static', 'random_walk', 'trending', 'scripted'];
+
+interface PairState {
+  price: number;
+  step: number;
+}
+
+/**
+ * Deterministic market for the mock venues. Every random draw comes from a
+ * named stream derived from one seed, so the same seed and config replay the
+ * same prices, spreads, latencies and fills.
+ */
+export class MarketSimulator {
+  private config: SimulatorConfig;
+  private pairs: Map<string, PairState> = new Map();
+  private streams: Map<string, () => number> = new Map();
+  private timer?: NodeJS.Timeout;
+
+  constructor(config: SimulatorConfig) {
+    this.config = config;
+  }
+
+  /**
+   * Current mid price of tokenIn in tokenOut. Unlisted pairs are priced through
+   * a token both sides are listed against, so cross rates stay consistent.
+   */
+  getMidPrice(tokenIn: string, tokenOut: string): number {
+    const cross = this.findCrossToken(tokenIn, tokenOut);
+    if (cross) {
+      return this.getMidPrice(tokenIn, cross) * this.getMidPrice(cross, tokenOut);
+    }
+
+    const { key, inverted } = this.resolvePair(tokenIn, tokenOut);
+    const price = this.getState(key).price;
+    return inverted ? 1 / price : price;
+  }
+
+  /**
+   * Random draw in [0, 1) from a named deterministic stream
+   */
+  random(stream: string): number {
+    if (!this.streams.has(stream)) {
+      this.streams.set(stream, createRng(deriveSeed(this.config.seed, stream)));
+    }
+    return this.streams.get(stream)!();
+  }
+
+  /**
+   * Move every tracked pair forward by the configured price process
+   */
+  advance(steps: number = 1): void {
+    for (let i = 0; i < steps; i++) {
+      this.pairs.forEach((state, key) => this.stepPair(key, state));
+    }
+  }
+
+  /**
+   * Restart from base prices, optionally with a new seed
+   */
+  reset(seed: number = this.config.seed): void {
+    this.config = { ...this.config, seed };
+    this.pairs.clear();
+    this.streams.clear();
+  }
+
+  /**
+   * Auto-advance every stepMs when configured
+   */
+  start(): void {
+    if (this.timer || this.config.stepMs <= 0) {
+      return;
+    }
+    this.timer = setInterval(() => this.advance(), this.config.stepMs);
+    this.timer.unref();
+    console.log(
+      `[SIMULATOR] ${this.config.process} prices, seed ${this.config.seed}, step ${this.config.stepMs}ms`
+    );
+  }
+
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  getConfig(): SimulatorConfig {
+    return this.config;
+  }
+
+  private stepPair(key: string, state: PairState): void {
+    state.step++;
+    const { process, volatility, drift, pricePaths } = this.config;
+
+    switch (process) {
+      case 'random_walk':
+        state.price *= Math.exp(volatility * gaussian(() => this.random(`walk:${key}`)));
+        break;
+      case 'trending':
+        state.price *= Math.exp(drift + volatility * gaussian(() => this.random(`walk:${key}`)));
+        break;
+      case 'scripted': {
+        const path = pricePaths?.[key];
+        if (path && path.length > 0) {
+          state.price = path[Math.min(state.step, path.length - 1)];
+        }
+        break;
+      }
+      case 'static':
+        break;
+    }
+  }
+
+  private getState(key: string): PairState {
+    if (!this.pairs.has(key)) {
+      const path = this.config.process === 'scripted' ? this.config.pricePaths?.[key] : undefined;
+      const price = path?.[0] ?? this.config.basePrices[key] ?? this.config.defaultBasePrice;
+      this.pairs.set(key, { price, step: 0 });
+    }
+    return this.pairs.get(key)!;
+  }
+
+  /**
+   * Map a pair onto the configured key, inverting when only the reverse is known
+   */
+  private resolvePair(tokenIn: string, tokenOut: string): { key: string; inverted: boolean } {
+    const direct = `${tokenIn}/${tokenOut}`;
+    const reverse = `${tokenOut}/${tokenIn}`;
+
+    if (!this.isKnown(direct) && this.isKnown(reverse)) {
+      return { key: reverse, inverted: true };
+    }
+    return { key: direct, inverted: false };
+  }
+
+  /**
+   * Token both sides of an unlisted pair are listed against, if any
+   */
+  private findCrossToken(tokenIn: string, tokenOut: string): string | undefined {
+    const listed = (a: string, b: string) => this.isKnown(`${a}/${b}`) || this.isKnown(`${b}/${a}`);
+    if (listed(tokenIn, tokenOut)) {
+      return undefined;
+    }
+
+    const tokens = new Set(
+      [...Object.keys(this.config.basePrices), ...Object.keys(this.config.pricePaths ?? {})].flatMap(
+        (key) => key.split('/')
+      )
+    );
+    return Array.from(tokens).find(
+      (token) =>
+        token !== tokenIn && token !== tokenOut && listed(tokenIn, token) && listed(token, tokenOut)
+    );
+  }
+
+  private isKnown(key: string): boolean {
+    return key in this.config.basePrices || !!this.config.pricePaths?.[key] || this.pairs.has(key);
+  }
+}
+
+/**
+ * Build simulator config from the environment:
+ * SIM_SEED, SIM_PROCESS, SIM_VOLATILITY, SIM_DRIFT, SIM_STEP_MS,
+ * SIM_BASE_PRICES (JSON object) and SIM_PRICE_PATH_FILE (JSON file of price paths)
+ */
+export function loadSimulatorConfig(env: NodeJS.ProcessEnv = process.env): SimulatorConfig {
+  const priceProcess = (env.SIM_PROCESS || 'static') as PriceProcess;
+  if (!PRICE_PROCESSES.includes(priceProcess)) {
+    throw new Error(`Unknown SIM_PROCESS: ${priceProcess}`);
+  }
+
+  return {
+    seed: env.SIM_SEED ? parseInt(env.SIM_SEED) : Date.now() >>> 0,
+    process: priceProcess,
+    basePrices: {
+      ...DEFAULT_BASE_PRICES,
+      ...(env.SIM_BASE_PRICES ? JSON.parse(env.SIM_BASE_PRICES) : {}),
+    },
+    defaultBasePrice: 185.5,
+    volatility: parseFloat(env.SIM_VOLATILITY || '0.002'),
+    drift: parseFloat(env.SIM_DRIFT || '0'),
+    pricePaths: env.SIM_PRICE_PATH_FILE
+      ? JSON.parse(fs.readFileSync(env.SIM_PRICE_PATH_FILE, 'utf-8'))
+      : undefined,
+    stepMs: parseInt(env.SIM_STEP_MS || '1000'),
+  };
+}
+
+export const marketSimulator = new MarketSimulator(loadSimulatorConfig());
@@ -0,0 +1,278 @@
+// src/dex/MockDexAdapter.ts
+
+import { DexAdapter } from './DexAdapter';
+import { MarketSimulator, marketSimulator } from './MarketSimulator';
+import { LiquidityModel, createLiquidityModel } from './LiquidityModel';
+import { MockChain, mockChain } from '../chain/MockChain';
+import { InsufficientLiquidityError, SlippageExceededError } from '../errors';
+import {
+  ChainTransaction,
+  DexQuote,
+  DexType,
+  OrderSide,
+  SwapOptions,
+  SwapParams,
+  SwapResult,
+  VenueConfig,
+  VenueHealth,
+} from '../types';
+
+// What the venue program returns when a swap lands
+type SwapSettlement = Pick<SwapResult, 'executedPrice' | 'amountOut' | 'fee' | 'priceImpact'>;
+
+/**
+ * Simulated venue quoting around the market simulator's mid price, with its
+ * own fee, spread (variance), latency and pool liquidity from configuration.
+ * Swaps settle as transactions on the mock chain and displace the pool's spot
+ * price away from the mid when they land.
+ */
+export class MockDexAdapter implements DexAdapter {
+  readonly name: DexType;
+  private config: VenueConfig;
+  private simulator: MarketSimulator;
+  private chain: MockChain;
+  private liquidity: LiquidityModel;
+  // Spot displacement from executed swaps, per pair in sorted token order
+  private displacements: Map<string, number> = new Map();
+  // Venue price offset from the mid at the last quote, per pair
+  private quotedVariances: Map<string, number> = new Map();
+
+  constructor(
+    config: VenueConfig,
+    simulator: MarketSimulator = marketSimulator,
+    chain: MockChain = mockChain
+  ) {
+    this.name = config.name;
+    this.config = config;
+    this.simulator = simulator;
+    this.chain = chain;
+    this.liquidity = createLiquidityModel(config.liquidity);
+  }
+
+  /**
+   * Simulate quote with network delay
+   */
+  async getQuote(
+    tokenIn: string,
+    tokenOut: string,
+    amount: number,
+    side: OrderSide = 'BUY'
+  ): Promise<DexQuote> {
+    const [quote] = await this.getQuoteLadder(tokenIn, tokenOut, [amount], side);
+    return quote;
+  }
+
+  /**
+   * Simulate one quote request sizing every amount against the same spot price
+   */
+  async getQuoteLadder(
+    tokenIn: string,
+    tokenOut: string,
+    amounts: number[],
+    side: OrderSide = 'BUY'
+  ): Promise<DexQuote[]> {
+    const jitter = (this.config.latencyJitterMs ?? 0) * this.random('latency');
+    await this.simulateNetworkDelay(this.config.quoteLatencyMs + jitter);
+
+    const { minVariance, maxVariance } = this.config;
+    const variance = minVariance + this.random('quote') * (maxVariance - minVariance);
+    this.quotedVariances.set(`${tokenIn}/${tokenOut}`, variance);
+    const spot = this.getSpotPrice(tokenIn, tokenOut, variance);
+    return amounts.map((amount) => this.sizeQuote(spot, amount, side));
+  }
+
+  private sizeQuote(spot: number, amount: number, side: OrderSide): DexQuote {
+    const fill = this.liquidity.fill(spot, amount, side);
+    const quoteAmount = this.applyFee(fill.quoteAmount, side);
+
+    return {
+      price: spot,
+      fee: this.config.fee,
+      dex: this.name,
+      side,
+      amount,
+      quoteAmount,
+      expectedOutput: side === 'BUY' ? fill.filledAmount : quoteAmount,
+      effectivePrice: quoteAmount / fill.filledAmount,
+      priceImpact: Math.abs(fill.averagePrice - spot) / spot,
+      availableLiquidity: fill.availableLiquidity,
+      fillable: fill.filledAmount >= amount * (1 - 1e-9),
+    };
+  }
+
+  /**
+   * Sign the swap against a recent blockhash, send it to the chain and wait
+   * for the requested commitment
+   */
+  async executeSwap(orderId: string, params: SwapParams, options: SwapOptions = {}): Promise<SwapResult> {
+    const jitter = (this.config.latencyJitterMs ?? 0) * this.random('swap-latency');
+    await this.simulateNetworkDelay(this.config.quoteLatencyMs + jitter);
+
+    const { blockhash, lastValidSlot } = this.chain.getLatestBlockhash();
+    const transaction: ChainTransaction = {
+      signature: this.generateMockTxHash(),
+      feePayer: orderId,
+      recentBlockhash: blockhash,
+      instructions: [{ programId: this.name, data: { orderId, ...params } }],
+    };
+    await options.onSend?.(transaction.signature, lastValidSlot);
+    this.chain.sendTransaction(transaction, () => this.settleSwap(params));
+
+    const confirmed = await this.chain.confirmTransaction(
+      transaction.signature,
+      options.commitment,
+      options.onCommitment
+    );
+    const settlement = confirmed.returnData[0] as SwapSettlement;
+
+    console.log(
+      `[SWAP EXECUTED] Order: ${orderId} | DEX: ${this.name} | Price: $${settlement.executedPrice.toFixed(2)} | Slot: ${confirmed.slot} (${confirmed.commitment}) | TxHash: ${confirmed.signature}`
+    );
+
+    return {
+      txHash: confirmed.signature,
+      slot: confirmed.slot,
+      commitment: confirmed.commitment,
+      ...settlement,
+      timestamp: new Date(),
+    };
+  }
+
+  /**
+   * Venue program: fill near the last quoted price, moved by the market since
+   * then, and revert when the fill breaches the swap's bounds
+   */
+  private settleSwap(params: SwapParams): SwapSettlement {
+    const { tokenIn, tokenOut, amountIn, side } = params;
+    const jitter = this.config.fillJitter ?? 0.01;
+    const variance =
+      (this.quotedVariances.get(`${tokenIn}/${tokenOut}`) ?? 1) *
+      (1 - jitter + this.random('fill') * 2 * jitter);
+    const spot = this.getSpotPrice(tokenIn, tokenOut, variance);
+    const fill = this.liquidity.fill(spot, amountIn, side);
+    if (fill.filledAmount < amountIn * (1 - 1e-9)) {
+      throw new InsufficientLiquidityError(
+        `Insufficient liquidity on ${this.name} for ${amountIn} ${tokenIn}`
+      );
+    }
+
+    const quoteAmount = this.applyFee(fill.quoteAmount, side);
+    const executedPrice = quoteAmount / amountIn;
+    this.checkBounds(params, executedPrice, quoteAmount);
+
+    // The trade moves the pool: later quotes see the displaced spot
+    this.displace(tokenIn, tokenOut, fill.newSpotPrice / spot);
+
+    return {
+      executedPrice,
+      amountOut: side === 'BUY' ? amountIn : quoteAmount,
+      fee: fill.quoteAmount * this.config.fee,
+      priceImpact: Math.abs(fill.averagePrice - spot) / spot,
+    };
+  }
+
+  /**
+   * Mock venues are always reachable
+   */
+  async health(): Promise<VenueHealth> {
+    return {
+      name: this.name,
+      status: 'healthy',
+      latencyMs: this.config.quoteLatencyMs,
+      checkedAt: new Date(),
+    };
+  }
+
+  supportsPair(tokenIn: string, tokenOut: string): boolean {
+    if (!this.config.pairs) {
+      return true;
+    }
+    return (
+      this.config.pairs.includes(`${tokenIn}/${tokenOut}`) ||
+      this.config.pairs.includes(`${tokenOut}/${tokenIn}`)
+    );
+  }
+
+  getSupportedPairs(): string[] | '*' {
+    return this.config.pairs ?? '*';
+  }
+
+  /**
+   * Revert like an on-chain slippage guard when the fill breaches the bounds
+   */
+  private checkBounds(params: SwapParams, executedPrice: number, quoteAmount: number): void {
+    const { side, amountIn, maxPrice, minAmountOut } = params;
+
+    if (side === 'BUY' && maxPrice !== undefined && executedPrice > maxPrice) {
+      throw new SlippageExceededError(
+        `Slippage exceeded on ${this.name}: price $${executedPrice.toFixed(4)} above max $${maxPrice.toFixed(4)}`,
+        executedPrice,
+        maxPrice
+      );
+    }
+
+    if (side === 'SELL' && minAmountOut !== undefined && quoteAmount < minAmountOut) {
+      throw new SlippageExceededError(
+        `Slippage exceeded on ${this.name}: output ${quoteAmount.toFixed(4)} below minimum ${minAmountOut.toFixed(4)}`,
+        executedPrice,
+        minAmountOut / amountIn
+      );
+    }
+  }
+
+  /**
+   * Pool spot price: simulator mid, venue spread and accumulated swap displacement
+   */
+  private getSpotPrice(tokenIn: string, tokenOut: string, variance: number): number {
+    const [key, inverted] = this.poolKey(tokenIn, tokenOut);
+    const displacement = this.displacements.get(key) ?? 1;
+    return (
+      this.simulator.getMidPrice(tokenIn, tokenOut) *
+      variance *
+      (inverted ? 1 / displacement : displacement)
+    );
+  }
+
+  private displace(tokenIn: string, tokenOut: string, ratio: number): void {
+    const [key, inverted] = this.poolKey(tokenIn, tokenOut);
+    const current = this.displacements.get(key) ?? 1;
+    this.displacements.set(key, current * (inverted ? 1 / ratio : ratio));
+  }
+
+  private poolKey(tokenIn: string, tokenOut: string): [string, boolean] {
+    return tokenIn <= tokenOut ? [`${tokenIn}/${tokenOut}`, false] : [`${tokenOut}/${tokenIn}`, true];
+  }
+
+  /**
+   * Buyers pay the fee on top, sellers receive less
+   */
+  private applyFee(quoteAmount: number, side: OrderSide): number {
+    return side === 'BUY' ? quoteAmount * (1 + this.config.fee) : quoteAmount * (1 - this.config.fee);
+  }
+
+  /**
+   * Deterministic draw from this venue's stream of the simulator
+   */
+  private random(stream: string): number {
+    return this.simulator.random(`${this.name}:${stream}`);
+  }
+
+  /**
+   * Simulate network delay in milliseconds
+   */
+  private async simulateNetworkDelay(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+
+  /**
+   * Generate mock transaction hash
+   */
+  private generateMockTxHash(): string {
+    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
+    let hash = '';
+    for (let i = 0; i < 88; i++) {
+      hash += chars.charAt(Math.floor(this.random('tx') * chars.length));
+    }
+    return hash;
+  }
+}
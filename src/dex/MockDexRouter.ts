@@ -1,120 +1,466 @@
 // src/dex/MockDexRouter.ts
 
-import { DexQuote, DexRouterResult, SwapResult, DexType } from '../types';
+import {
+  DexQuote,
+  DexRouterResult,
+  SwapResult,
+  DexType,
+  OrderSide,
+  RouteHop,
+  RouteLeg,
+  RouteOptions,
+  SwapOptions,
+  SwapParams,
+} from '../types';
+import { DexAdapter } from './DexAdapter';
+import { DexRegistry, dexRegistry } from './DexRegistry';
+import { VenueHealthTracker, venueHealthTracker } from './VenueHealthTracker';
+import {
+  InsufficientLiquidityError,
+  QuoteTimeoutError,
+  VenueCircuitOpenError,
+  VenueUnavailableError,
+} from '../errors';
+
+// Granularity of split routing: orders are divided across venues in 1/N slices
+export const ROUTE_SPLIT_STEPS = parseInt(process.env.ROUTE_SPLIT_STEPS || '10');
+// Relative gain over the best single venue a split must reach to be worth the extra transactions
+export const ROUTE_SPLIT_MIN_IMPROVEMENT = parseFloat(process.env.ROUTE_SPLIT_MIN_IMPROVEMENT || '0.001');
+// Tokens multi-hop routes may pass through, and the longest path searched
+export const ROUTE_INTERMEDIATE_TOKENS = (process.env.ROUTE_INTERMEDIATE_TOKENS || 'SOL,USDC,USDT')
+  .split(',')
+  .map((token) => token.trim().toUpperCase())
+  .filter(Boolean);
+export const ROUTE_MAX_HOPS = parseInt(process.env.ROUTE_MAX_HOPS || '2');
+
+interface Allocation {
+  total: number;
+  // Slices assigned to each venue so far
+  slices: number[];
+}
 
 export class MockDexRouter {
-  private basePrice = 185.50; // Mock SOL/USDC price
+  private registry: DexRegistry;
+  private splitSteps: number;
+  private minSplitImprovement: number;
+  private health: VenueHealthTracker;
+
+  constructor(
+    registry: DexRegistry = dexRegistry,
+    splitSteps: number = ROUTE_SPLIT_STEPS,
+    minSplitImprovement: number = ROUTE_SPLIT_MIN_IMPROVEMENT,
+    health: VenueHealthTracker = venueHealthTracker
+  ) {
+    this.registry = registry;
+    this.splitSteps = Math.max(1, splitSteps);
+    this.minSplitImprovement = minSplitImprovement;
+    this.health = health;
+  }
 
   /**
-   * Simulate Raydium quote with network delay
+   * Fetch a quote from a single DEX, bounded by the venue's timeout
    */
-  async getRaydiumQuote(
-    _tokenIn: string,
-    _tokenOut: string,
-    _amount: number
+  async getQuote(
+    dex: DexType,
+    tokenIn: string,
+    tokenOut: string,
+    amount: number,
+    side: OrderSide = 'BUY'
   ): Promise<DexQuote> {
-    await this.simulateNetworkDelay(200);
-    
-    const variance = 0.98 + Math.random() * 0.04; // 2-4% variance
-    return {
-      price: this.basePrice * variance,
-      fee: 0.003,
-      dex: 'RAYDIUM',
-    };
+    return this.callVenue(dex, (adapter) => adapter.getQuote(tokenIn, tokenOut, amount, side));
   }
 
   /**
-   * Simulate Meteora quote with network delay
+   * Fetch a quote for each amount from a single DEX, bounded by the venue's timeout
    */
-  async getMeteorQuote(
-    _tokenIn: string,
-    _tokenOut: string,
-    _amount: number
-  ): Promise<DexQuote> {
-    await this.simulateNetworkDelay(200);
-    
-    const variance = 0.97 + Math.random() * 0.05; // 2-5% variance
-    return {
-      price: this.basePrice * variance,
-      fee: 0.002,
-      dex: 'METEORA',
-    };
+  async getQuoteLadder(
+    dex: DexType,
+    tokenIn: string,
+    tokenOut: string,
+    amounts: number[],
+    side: OrderSide = 'BUY'
+  ): Promise<DexQuote[]> {
+    return this.callVenue(dex, (adapter) => adapter.getQuoteLadder(tokenIn, tokenOut, amounts, side));
+  }
+
+  /**
+   * Fetch quotes in parallel from the given DEXes, or every routable venue
+   * trading the pair. Venues that fail or time out are left out; rejects with
+   * the first failure when none answers.
+   */
+  async getQuotes(
+    tokenIn: string,
+    tokenOut: string,
+    amount: number,
+    options: RouteOptions = {}
+  ): Promise<DexQuote[]> {
+    const { side = 'BUY', venues = this.getVenuesForHop(tokenIn, tokenOut) } = options;
+    if (venues.length === 0) {
+      throw new VenueUnavailableError(tokenIn, tokenOut);
+    }
+
+    const results = await Promise.allSettled(
+      venues.map((dex) => this.getQuote(dex, tokenIn, tokenOut, amount, side))
+    );
+    return this.answered(results, venues, `${tokenIn}/${tokenOut}`).map(({ value }) => value);
   }
 
   /**
-   * Fetch quotes from both DEXes and select best price
+   * Find the best net route for the amount: lowest cost for buys, highest
+   * proceeds for sells. Direct pairs compete with paths through intermediate
+   * tokens (e.g. BONK -> SOL -> USDC), each hop paying its own fees and impact.
    */
   async routeOrder(
     tokenIn: string,
     tokenOut: string,
-    amount: number
+    amount: number,
+    options: RouteOptions = {}
   ): Promise<DexRouterResult> {
-    const [raydiumQuote, meteoraQuote] = await Promise.all([
-      this.getRaydiumQuote(tokenIn, tokenOut, amount),
-      this.getMeteorQuote(tokenIn, tokenOut, amount),
-    ]);
+    const { side = 'BUY', maxHops = ROUTE_MAX_HOPS, allowPartial = false } = options;
+    const paths = this.findPaths(tokenIn, tokenOut, maxHops, options.venues);
+    if (paths.length === 0) {
+      throw new VenueUnavailableError(tokenIn, tokenOut);
+    }
+
+    const results = await Promise.allSettled(
+      paths.map((path) => this.routePath(path, amount, side, allowPartial, options.venues))
+    );
+    const routes = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+    if (routes.length === 0) {
+      // Report why the most direct path failed
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
 
-    // Calculate effective price (price minus fees)
-    const raydiumEffective = raydiumQuote.price * (1 - raydiumQuote.fee);
-    const meteoraEffective = meteoraQuote.price * (1 - meteoraQuote.fee);
+    // Fill as much as possible first, then at the best price
+    const best = routes.reduce((current, route) => {
+      const filled = route.hops[0].amountIn;
+      const currentFilled = current.hops[0].amountIn;
+      if (Math.abs(filled - currentFilled) > amount * 1e-9) {
+        return filled > currentFilled ? route : current;
+      }
+      return this.isBetterPrice(route.effectivePrice, current.effectivePrice, side) ? route : current;
+    });
 
-    const selectedDex = raydiumEffective < meteoraEffective ? 'RAYDIUM' : 'METEORA';
-    const selectedQuote = selectedDex === 'RAYDIUM' ? raydiumQuote : meteoraQuote;
+    if (routes.length > 1) {
+      console.log(
+        `[DEX ROUTING] ${side} ${amount} ${tokenIn}/${tokenOut} paths: ${routes
+          .map((route) => `${route.path.join(' -> ')}: $${route.effectivePrice.toFixed(4)}`)
+          .join(' | ')} | Selected: ${best.path.join(' -> ')}`
+      );
+    }
+
+    return best;
+  }
+
+  /**
+   * Route each hop of a path in turn; a hop's quoted output sizes the next hop.
+   * With allowPartial the first hop may take less than the amount, and the
+   * rest of the path is sized from what it can fill.
+   */
+  private async routePath(
+    path: string[],
+    amount: number,
+    side: OrderSide,
+    allowPartial: boolean,
+    venues?: DexType[]
+  ): Promise<DexRouterResult> {
+    const hops: RouteHop[] = [];
+    let hopAmount = amount;
+    for (let i = 0; i < path.length - 1; i++) {
+      const hop = await this.routeHop(
+        path[i],
+        path[i + 1],
+        hopAmount,
+        side,
+        this.getVenuesForHop(path[i], path[i + 1], venues),
+        allowPartial && i === 0
+      );
+      hops.push(hop);
+      // Buys pay in the next token what sells receive in it
+      hopAmount = hop.quoteAmount;
+    }
 
-    console.log(`[DEX ROUTING] Raydium: $${raydiumQuote.price.toFixed(2)} | Meteora: $${meteoraQuote.price.toFixed(2)} | Selected: ${selectedDex}`);
+    const compound = (pick: (hop: RouteHop) => number) =>
+      1 - hops.reduce((product, hop) => product * (1 - pick(hop)), 1);
+    const filledAmount = hops[0].amountIn;
 
     return {
-      selectedDex,
-      price: selectedQuote.price,
-      fee: selectedQuote.fee,
-      effectivePrice: selectedQuote.price * (1 - selectedQuote.fee),
+      selectedDex: hops[0].selectedDex,
+      price: hops.reduce((product, hop) => product * hop.price, 1),
+      fee: compound((hop) => hop.fee),
+      effectivePrice: hopAmount / filledAmount,
+      expectedOutput: side === 'BUY' ? filledAmount : hopAmount,
+      priceImpact: compound((hop) => hop.priceImpact),
+      path,
+      hops,
     };
   }
 
   /**
-   * Check if current best price satisfies limit price
+   * Fetch size-aware quotes for one pair and select the best venue, splitting
+   * the amount across venues when spreading the price impact beats any single
+   * venue. With allowPartial, routes the largest amount the venues can fill.
    */
-  checkLimitCondition(bestPrice: number, limitPrice: number): boolean {
-    // For buy orders: bestPrice should be <= limitPrice
-    return bestPrice <= limitPrice;
+  private async routeHop(
+    tokenIn: string,
+    tokenOut: string,
+    amount: number,
+    side: OrderSide,
+    venues: DexType[],
+    allowPartial: boolean = false
+  ): Promise<RouteHop> {
+    // Each ladder quotes 1/N, 2/N ... N/N of the amount against one pool state
+    const sizes = Array.from({ length: this.splitSteps }, (_, i) => (amount * (i + 1)) / this.splitSteps);
+    const results = await Promise.allSettled(
+      venues.map((dex) => this.getQuoteLadder(dex, tokenIn, tokenOut, sizes, side))
+    );
+    const ladders = this.answered(results, venues, `${tokenIn}/${tokenOut}`).map(({ value }) => value);
+
+    const allocation = this.allocate(ladders, side, allowPartial);
+    if (!allocation) {
+      throw new InsufficientLiquidityError(
+        `Insufficient liquidity for ${amount} ${tokenIn}/${tokenOut} on any venue`
+      );
+    }
+
+    const legs: RouteLeg[] = allocation.slices.flatMap((slices, i) =>
+      slices > 0 ? [this.toLeg(ladders[i][slices - 1])] : []
+    );
+    const filledAmount = legs.reduce((sum, leg) => sum + leg.amountIn, 0);
+    const weighted = (pick: (leg: RouteLeg) => number) =>
+      legs.reduce((sum, leg) => sum + pick(leg) * leg.amountIn, 0) / filledAmount;
+    const primary = legs.reduce((best, leg) => (leg.amountIn > best.amountIn ? leg : best));
+
+    console.log(
+      `[DEX ROUTING] ${side} ${amount} ${tokenIn}/${tokenOut} ${ladders
+        .map((ladder) => ladder[this.splitSteps - 1])
+        .map((q) => `${q.dex}: $${q.effectivePrice.toFixed(2)} (impact ${(q.priceImpact * 100).toFixed(2)}%)`)
+        .join(' | ')} | Selected: ${legs
+        .map((leg) => `${leg.dex} ${((leg.amountIn / amount) * 100).toFixed(0)}%`)
+        .join(' / ')}`
+    );
+
+    return {
+      tokenIn,
+      tokenOut,
+      amountIn: filledAmount,
+      selectedDex: primary.dex,
+      price: weighted((leg) => leg.price),
+      fee: weighted((leg) => leg.fee),
+      effectivePrice: allocation.total / filledAmount,
+      quoteAmount: allocation.total,
+      expectedOutput: legs.reduce((sum, leg) => sum + leg.expectedOutput, 0),
+      priceImpact: weighted((leg) => leg.priceImpact),
+      legs,
+    };
   }
 
   /**
-   * Simulate swap execution
+   * Token paths from tokenIn to tokenOut of at most maxHops hops, direct pair
+   * first, where every hop has a venue to trade on
    */
-  async executeSwap(dex: DexType, orderId: string): Promise<SwapResult> {
-    // Simulate transaction building and submission (2-3 seconds)
-    const executionTime = 2000 + Math.random() * 1000;
-    await this.simulateNetworkDelay(executionTime);
+  private findPaths(tokenIn: string, tokenOut: string, maxHops: number, venues?: DexType[]): string[][] {
+    const paths: string[][] = [];
+    const extend = (path: string[]) => {
+      const last = path[path.length - 1];
+      if (this.getVenuesForHop(last, tokenOut, venues).length > 0) {
+        paths.push([...path, tokenOut]);
+      }
+      if (path.length >= maxHops) {
+        return;
+      }
+      ROUTE_INTERMEDIATE_TOKENS.filter(
+        (token) =>
+          token !== tokenOut &&
+          !path.includes(token) &&
+          this.getVenuesForHop(last, token, venues).length > 0
+      ).forEach((token) => extend([...path, token]));
+    };
 
-    const txHash = this.generateMockTxHash();
-    const executedPrice = this.basePrice * (0.99 + Math.random() * 0.02);
+    extend([tokenIn]);
+    return paths.sort((a, b) => a.length - b.length);
+  }
 
-    console.log(`[SWAP EXECUTED] Order: ${orderId} | DEX: ${dex} | Price: $${executedPrice.toFixed(2)} | TxHash: ${txHash}`);
+  /**
+   * Enabled venues trading the pair whose circuit lets them be routed to,
+   * narrowed to the caller's venues when given
+   */
+  private getVenuesForHop(tokenIn: string, tokenOut: string, venues?: DexType[]): DexType[] {
+    const available = this.registry
+      .getVenuesForPair(tokenIn, tokenOut)
+      .filter((dex) => this.health.isAvailable(dex));
+    return venues ? available.filter((dex) => venues.includes(dex)) : available;
+  }
+
+  /**
+   * Results of the venues that answered, logging the others. Rejects with the
+   * first venue's failure when none did.
+   */
+  private answered<T>(
+    results: PromiseSettledResult<T>[],
+    venues: DexType[],
+    pair: string
+  ): PromiseFulfilledResult<T>[] {
+    const fulfilled = results.filter(
+      (result): result is PromiseFulfilledResult<T> => result.status === 'fulfilled'
+    );
+    if (fulfilled.length === 0) {
+      throw (results[0] as PromiseRejectedResult).reason;
+    }
+
+    results.forEach((result, i) => {
+      if (result.status === 'rejected') {
+        console.warn(`[DEX ROUTING] ${pair} skipping ${venues[i]}: ${(result.reason as Error).message}`);
+      }
+    });
+
+    return fulfilled;
+  }
+
+  /**
+   * Spot price after fees, ignoring size: buyers pay the fee on top, sellers receive less
+   */
+  getEffectivePrice(quote: DexQuote, side: OrderSide = 'BUY'): number {
+    return side === 'BUY' ? quote.price * (1 + quote.fee) : quote.price * (1 - quote.fee);
+  }
+
+  /**
+   * Check if current best price satisfies limit price for the side
+   */
+  checkLimitCondition(bestPrice: number, limitPrice: number, side: OrderSide = 'BUY'): boolean {
+    // Buy orders fill at or below the limit, sell orders at or above it
+    return side === 'BUY' ? bestPrice <= limitPrice : bestPrice >= limitPrice;
+  }
+
+  /**
+   * Check if executed price stays within slippage tolerance of the quoted price
+   */
+  checkSlippage(quotedPrice: number, executedPrice: number, slippage: number): boolean {
+    return Math.abs(executedPrice - quotedPrice) / quotedPrice <= slippage;
+  }
 
+  /**
+   * Execute swap on the selected DEX
+   */
+  async executeSwap(
+    dex: DexType,
+    orderId: string,
+    params: SwapParams = { tokenIn: 'SOL', tokenOut: 'USDC', amountIn: 1, side: 'BUY' },
+    options?: SwapOptions
+  ): Promise<SwapResult> {
+    return this.registry.get(dex).executeSwap(orderId, params, options);
+  }
+
+  /**
+   * Best assignment of the N slices to venues, by dynamic programming over the
+   * quote ladders. Orders are only split when that beats the best single venue
+   * by at least minSplitImprovement. When the venues cannot absorb every slice
+   * and allowPartial is set, allocates as many slices as they can.
+   */
+  private allocate(ladders: DexQuote[][], side: OrderSide, allowPartial: boolean = false): Allocation | null {
+    const steps = this.splitSteps;
+    // best[j]: optimal allocation of j slices over the venues seen so far
+    let best: Array<Allocation | null> = Array.from({ length: steps + 1 }, (_, j) =>
+      j === 0 ? { total: 0, slices: [] } : null
+    );
+
+    for (const ladder of ladders) {
+      const next: Array<Allocation | null> = Array(steps + 1).fill(null);
+      for (let j = 0; j <= steps; j++) {
+        for (let k = 0; k <= j; k++) {
+          const rest = best[j - k];
+          if (!rest || (k > 0 && !ladder[k - 1].fillable)) {
+            continue;
+          }
+          const total = rest.total + (k > 0 ? ladder[k - 1].quoteAmount : 0);
+          const current = next[j];
+          if (!current || this.isBetterPrice(total, current.total, side)) {
+            next[j] = { total, slices: [...rest.slices, k] };
+          }
+        }
+      }
+      best = next;
+    }
+
+    const result = best[steps];
+    if (!result) {
+      if (!allowPartial) {
+        return null;
+      }
+      const fillable = best.slice(1).filter((allocation): allocation is Allocation => allocation !== null);
+      return fillable.length > 0 ? fillable[fillable.length - 1] : null;
+    }
+
+    const single = ladders
+      .map((ladder, i) => ({ quote: ladder[steps - 1], i }))
+      .filter(({ quote }) => quote.fillable)
+      .reduce<{ quote: DexQuote; i: number } | null>(
+        (acc, cur) =>
+          !acc || this.isBetterPrice(cur.quote.quoteAmount, acc.quote.quoteAmount, side) ? cur : acc,
+        null
+      );
+    if (single) {
+      const required = side === 'BUY' ? 1 - this.minSplitImprovement : 1 + this.minSplitImprovement;
+      if (!this.isBetterPrice(result.total, single.quote.quoteAmount * required, side)) {
+        return {
+          total: single.quote.quoteAmount,
+          slices: ladders.map((_, i) => (i === single.i ? steps : 0)),
+        };
+      }
+    }
+
+    return result;
+  }
+
+  private toLeg(quote: DexQuote): RouteLeg {
     return {
-      txHash,
-      executedPrice,
-      timestamp: new Date(),
+      dex: quote.dex,
+      amountIn: quote.amount,
+      price: quote.price,
+      fee: quote.fee,
+      effectivePrice: quote.effectivePrice,
+      expectedOutput: quote.expectedOutput,
+      priceImpact: quote.priceImpact,
     };
   }
 
   /**
-   * Simulate network delay in milliseconds
+   * Compare prices from the side's point of view
    */
-  private async simulateNetworkDelay(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private isBetterPrice(candidate: number, current: number, side: OrderSide): boolean {
+    return side === 'BUY' ? candidate < current : candidate > current;
   }
 
   /**
-   * Generate mock transaction hash
+   * Call a venue within its timeout, recording the outcome in its health.
+   * Rejects with VenueCircuitOpenError, without calling it, while its circuit
+   * is open.
    */
-  private generateMockTxHash(): string {
-    const chars = 'ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz0123456789';
-    let hash = '';
-    for (let i = 0; i < 88; i++) {
-      hash += chars.charAt(Math.floor(Math.random() * chars.length));
+  private async callVenue<T>(dex: DexType, call: (adapter: DexAdapter) => Promise<T>): Promise<T> {
+    const { timeoutMs } = this.registry.getSettings(dex);
+    if (!this.health.acquire(dex)) {
+      throw new VenueCircuitOpenError(dex);
+    }
+
+    const startedAt = Date.now();
+    try {
+      const result = await this.withTimeout(call(this.registry.get(dex)), dex, timeoutMs);
+      this.health.recordSuccess(dex, Date.now() - startedAt);
+      return result;
+    } catch (error) {
+      this.health.recordFailure(dex, Date.now() - startedAt, error);
+      throw error;
     }
-    return hash;
+  }
+
+  /**
+   * Reject with QuoteTimeoutError if the venue's promise does not settle within ms
+   */
+  private withTimeout<T>(promise: Promise<T>, dex: DexType, ms: number): Promise<T> {
+    let timer: NodeJS.Timeout;
+    const timeout = new Promise<never>((_resolve, reject) => {
+      timer = setTimeout(() => reject(new QuoteTimeoutError(dex, ms)), ms);
+    });
+    return Promise.race([promise, timeout]).finally(() => clearTimeout(timer));
   }
 }
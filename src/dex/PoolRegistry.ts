@@ -0,0 +1,85 @@
+// src/dex/PoolRegistry.ts
+
+import { EventEmitter } from 'events';
+import { DexType, PoolEventType, PoolInfo } from '../types';
+
+/**
+ * In-memory registry of simulated DEX pools.
+ * Emits 'pool' whenever a pool is created or a token migrates to a venue.
+ */
+export class PoolRegistry extends EventEmitter {
+  private pools: Map<string, PoolInfo> = new Map();
+
+  constructor(seedPairs: Array<[string, string]> = [['SOL', 'USDC'], ['SOL', 'USDT']]) {
+    super();
+    seedPairs.forEach(([tokenA, tokenB]) => {
+      (['RAYDIUM', 'METEORA'] as DexType[]).forEach((dex) => {
+        this.pools.set(this.key(dex, tokenA, tokenB), {
+          dex,
+          tokenA,
+          tokenB,
+          event: 'POOL_CREATED',
+          createdAt: new Date(),
+        });
+      });
+    });
+  }
+
+  /**
+   * Register a pool creation or migration event
+   */
+  addPool(event: PoolEventType, dex: DexType, tokenA: string, tokenB: string): PoolInfo {
+    const key = this.key(dex, tokenA, tokenB);
+    const existing = this.pools.get(key);
+    if (existing) {
+      return existing;
+    }
+
+    const pool: PoolInfo = { dex, tokenA, tokenB, event, createdAt: new Date() };
+    this.pools.set(key, pool);
+
+    console.log(`[POOLS] ${event} ${tokenA}/${tokenB} on ${dex}`);
+    this.emit('pool', pool);
+
+    return pool;
+  }
+
+  /**
+   * Get all pools trading a pair, in either direction
+   */
+  getPools(tokenIn: string, tokenOut: string): PoolInfo[] {
+    return Array.from(this.pools.values()).filter((pool) =>
+      this.matches(pool, tokenIn, tokenOut)
+    );
+  }
+
+  /**
+   * Check whether a pool exists for the pair on any venue
+   */
+  hasPool(tokenIn: string, tokenOut: string): boolean {
+    return this.getPools(tokenIn, tokenOut).length > 0;
+  }
+
+  /**
+   * Check whether a pool trades the given pair
+   */
+  matches(pool: PoolInfo, tokenIn: string, tokenOut: string): boolean {
+    return (
+      (pool.tokenA === tokenIn && pool.tokenB === tokenOut) ||
+      (pool.tokenA === tokenOut && pool.tokenB === tokenIn)
+    );
+  }
+
+  /**
+   * List all known pools
+   */
+  listPools(): PoolInfo[] {
+    return Array.from(this.pools.values());
+  }
+
+  private key(dex: DexType, tokenA: string, tokenB: string): string {
+    return `${dex}:${[tokenA, tokenB].sort().join('/')}`;
+  }
+}
+
+export const poolRegistry = new PoolRegistry();
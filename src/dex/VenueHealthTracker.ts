@@ -0,0 +1,168 @@
+// src/dex/VenueHealthTracker.ts
+
+import { CircuitState, DexType, VenueStats } from '../types';
+
+// Quote requests per venue the rolling statistics cover
+export const VENUE_HEALTH_WINDOW = parseInt(process.env.VENUE_HEALTH_WINDOW || '50');
+// Consecutive failed quotes that open a venue's circuit
+export const VENUE_BREAKER_FAILURES = parseInt(process.env.VENUE_BREAKER_FAILURES || '5');
+// How long an open circuit skips the venue before a probe request may try it again
+export const VENUE_BREAKER_COOLDOWN_MS = parseInt(process.env.VENUE_BREAKER_COOLDOWN_MS || '30000');
+
+interface QuoteSample {
+  ok: boolean;
+  latencyMs: number;
+}
+
+interface VenueState {
+  samples: QuoteSample[];
+  circuit: CircuitState;
+  consecutiveFailures: number;
+  openedAt?: number;
+  probing: boolean;
+  lastError?: string;
+}
+
+/**
+ * Rolling error and latency statistics of each venue's quotes, with a circuit
+ * breaker: after VENUE_BREAKER_FAILURES consecutive failures the venue is
+ * skipped, and once the cooldown passes a single probe request decides whether
+ * it is routed to again or stays open for another cooldown.
+ */
+export class VenueHealthTracker {
+  private venues: Map<DexType, VenueState> = new Map();
+  private window: number;
+  private failureThreshold: number;
+  private cooldownMs: number;
+
+  constructor(
+    window: number = VENUE_HEALTH_WINDOW,
+    failureThreshold: number = VENUE_BREAKER_FAILURES,
+    cooldownMs: number = VENUE_BREAKER_COOLDOWN_MS
+  ) {
+    this.window = Math.max(1, window);
+    this.failureThreshold = Math.max(1, failureThreshold);
+    this.cooldownMs = cooldownMs;
+  }
+
+  /**
+   * Whether routing may consider the venue: its circuit is closed, or a probe
+   * is due
+   */
+  isAvailable(dex: DexType): boolean {
+    const venue = this.venues.get(dex);
+    if (!venue || venue.circuit === 'closed') {
+      return true;
+    }
+    if (venue.circuit === 'half_open') {
+      return !venue.probing;
+    }
+    return Date.now() - venue.openedAt! >= this.cooldownMs;
+  }
+
+  /**
+   * Claim a request to the venue. Returns false when its circuit is open, or
+   * half-open with the probe already taken; a claim on a circuit due for a
+   * probe becomes that probe.
+   */
+  acquire(dex: DexType): boolean {
+    if (!this.isAvailable(dex)) {
+      return false;
+    }
+
+    const venue = this.getState(dex);
+    if (venue.circuit !== 'closed') {
+      venue.circuit = 'half_open';
+      venue.probing = true;
+    }
+    return true;
+  }
+
+  /**
+   * Record a quote the venue answered
+   */
+  recordSuccess(dex: DexType, latencyMs: number): void {
+    const venue = this.getState(dex);
+    this.addSample(venue, { ok: true, latencyMs });
+    venue.consecutiveFailures = 0;
+
+    if (venue.circuit !== 'closed') {
+      console.log(`[VENUE HEALTH] ${dex} answered its probe, circuit closed`);
+      venue.circuit = 'closed';
+      venue.probing = false;
+      venue.openedAt = undefined;
+    }
+  }
+
+  /**
+   * Record a quote that failed or timed out, opening the circuit on a failed
+   * probe or once failures reach the threshold
+   */
+  recordFailure(dex: DexType, latencyMs: number, error: unknown): void {
+    const venue = this.getState(dex);
+    this.addSample(venue, { ok: false, latencyMs });
+    venue.consecutiveFailures++;
+    venue.lastError = error instanceof Error ? error.message : String(error);
+
+    const probeFailed = venue.circuit === 'half_open';
+    if (probeFailed || (venue.circuit === 'closed' && venue.consecutiveFailures >= this.failureThreshold)) {
+      console.warn(
+        `[VENUE HEALTH] ${dex} circuit opened after ${
+          probeFailed ? 'a failed probe' : `${venue.consecutiveFailures} consecutive failures`
+        }: ${venue.lastError}`
+      );
+      venue.circuit = 'open';
+      venue.probing = false;
+      venue.openedAt = Date.now();
+    }
+  }
+
+  getStats(dex: DexType): VenueStats {
+    const venue = this.getState(dex);
+    const errors = venue.samples.filter((sample) => !sample.ok).length;
+    const latencies = venue.samples
+      .filter((sample) => sample.ok)
+      .map((sample) => sample.latencyMs)
+      .sort((a, b) => a - b);
+
+    return {
+      name: dex,
+      status: venue.circuit === 'open' ? 'down' : venue.consecutiveFailures > 0 ? 'degraded' : 'healthy',
+      circuit: venue.circuit,
+      requests: venue.samples.length,
+      errors,
+      errorRate: venue.samples.length > 0 ? errors / venue.samples.length : 0,
+      avgLatencyMs:
+        latencies.length > 0 ? latencies.reduce((sum, latency) => sum + latency, 0) / latencies.length : null,
+      p95LatencyMs: latencies.length > 0 ? latencies[Math.ceil(latencies.length * 0.95) - 1] : null,
+      consecutiveFailures: venue.consecutiveFailures,
+      lastError: venue.lastError,
+      openedAt: venue.openedAt !== undefined ? new Date(venue.openedAt) : undefined,
+    };
+  }
+
+  /**
+   * Statistics of every venue quoted so far, or of the given venues
+   */
+  getAllStats(venues: DexType[] = Array.from(this.venues.keys())): VenueStats[] {
+    return venues.map((dex) => this.getStats(dex));
+  }
+
+  private getState(dex: DexType): VenueState {
+    let venue = this.venues.get(dex);
+    if (!venue) {
+      venue = { samples: [], circuit: 'closed', consecutiveFailures: 0, probing: false };
+      this.venues.set(dex, venue);
+    }
+    return venue;
+  }
+
+  private addSample(venue: VenueState, sample: QuoteSample): void {
+    venue.samples.push(sample);
+    if (venue.samples.length > this.window) {
+      venue.samples.shift();
+    }
+  }
+}
+
+export const venueHealthTracker = new VenueHealthTracker();
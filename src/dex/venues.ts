@@ -0,0 +1,54 @@
+// src/dex/venues.ts
+
+import { VenueConfig } from '../types';
+
+const DEFAULT_TIMEOUT_MS = parseInt(process.env.DEX_TIMEOUT_MS || '2000');
+
+/**
+ * Built-in mock venues. Raydium and Meteora are enabled by default; the others
+ * can be switched on with DEX_ENABLED without touching the router.
+ */
+export const DEFAULT_VENUES: VenueConfig[] = [
+  {
+    name: 'RAYDIUM', enabled: true, timeoutMs: DEFAULT_TIMEOUT_MS, fee: 0.003, minVariance: 0.98, maxVariance: 1.02, quoteLatencyMs: 200,
+    liquidity: { model: 'constant_product', depth: 2_000_000 },
+  },
+  {
+    name: 'METEORA', enabled: true, timeoutMs: DEFAULT_TIMEOUT_MS, fee: 0.002, minVariance: 0.97, maxVariance: 1.02, quoteLatencyMs: 200,
+    liquidity: { model: 'bins', binStep: 0.0025, binLiquidity: 100_000, binsPerSide: 70 },
+  },
+  {
+    name: 'ORCA', enabled: false, timeoutMs: DEFAULT_TIMEOUT_MS, fee: 0.003, minVariance: 0.98, maxVariance: 1.02, quoteLatencyMs: 150,
+    liquidity: { model: 'bins', binStep: 0.001, binLiquidity: 50_000, binsPerSide: 100 },
+  },
+  {
+    name: 'PHOENIX', enabled: false, timeoutMs: DEFAULT_TIMEOUT_MS, fee: 0.001, minVariance: 0.99, maxVariance: 1.02, quoteLatencyMs: 100,
+    pairs: ['SOL/USDC', 'SOL/USDT'],
+    liquidity: { model: 'bins', binStep: 0.0005, binLiquidity: 25_000, binsPerSide: 40 },
+  },
+  {
+    name: 'JUPITER', enabled: false, timeoutMs: DEFAULT_TIMEOUT_MS, fee: 0.0025, minVariance: 0.985, maxVariance: 1.015, quoteLatencyMs: 300,
+    liquidity: { model: 'constant_product', depth: 5_000_000 },
+  },
+];
+
+/**
+ * Apply environment overrides to the venue list:
+ * - DEX_ENABLED=RAYDIUM,METEORA,ORCA selects the enabled venues
+ * - DEX_<NAME>_TIMEOUT_MS sets a per-venue quote timeout
+ */
+export function loadVenueConfig(
+  venues: VenueConfig[] = DEFAULT_VENUES,
+  env: NodeJS.ProcessEnv = process.env
+): VenueConfig[] {
+  const enabled = env.DEX_ENABLED?.split(',').map((name) => name.trim().toUpperCase());
+
+  return venues.map((venue) => {
+    const timeout = env[`DEX_${venue.name}_TIMEOUT_MS`];
+    return {
+      ...venue,
+      enabled: enabled ? enabled.includes(venue.name) : venue.enabled,
+      timeoutMs: timeout ? parseInt(timeout) : venue.timeoutMs,
+    };
+  });
+}
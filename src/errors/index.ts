@@ -0,0 +1,215 @@
+// src/errors/index.ts
+
+import { OrderErrorCode, OrderSide } from '../types';
+
+/**
+ * Thrown when an order is cancelled while a worker is processing it
+ */
+export class OrderCancelledError extends Error {
+  constructor(orderId: string) {
+    super(`Order ${orderId} was cancelled`);
+    this.name = 'OrderCancelledError';
+  }
+}
+
+/**
+ * Failure of an order's execution. Retryable failures are transient and
+ * nothing of the attempt executed, so the order goes back to the queue while
+ * it has attempts left; any other failure fails the order.
+ */
+export class OrderExecutionError extends Error {
+  readonly code: OrderErrorCode;
+  readonly retryable: boolean;
+
+  constructor(code: OrderErrorCode, message: string, retryable: boolean = false) {
+    super(message);
+    this.name = 'OrderExecutionError';
+    this.code = code;
+    this.retryable = retryable;
+  }
+}
+
+/**
+ * Thrown when a venue does not answer a quote request within its timeout
+ */
+export class QuoteTimeoutError extends OrderExecutionError {
+  constructor(dex: string, timeoutMs: number) {
+    super('QUOTE_TIMEOUT', `${dex} quote timed out after ${timeoutMs}ms`, true);
+    this.name = 'QuoteTimeoutError';
+  }
+}
+
+/**
+ * Thrown when no enabled venue trades a pair
+ */
+export class VenueUnavailableError extends OrderExecutionError {
+  constructor(tokenIn: string, tokenOut: string) {
+    super('VENUE_UNAVAILABLE', `No DEX venues available for ${tokenIn}/${tokenOut}`, true);
+    this.name = 'VenueUnavailableError';
+  }
+}
+
+/**
+ * Thrown instead of quoting a venue whose circuit breaker is open
+ */
+export class VenueCircuitOpenError extends OrderExecutionError {
+  constructor(dex: string) {
+    super('VENUE_UNAVAILABLE', `${dex} is not routed to after repeated failures`, true);
+    this.name = 'VenueCircuitOpenError';
+  }
+}
+
+/**
+ * Thrown when the venues cannot absorb an order's size
+ */
+export class InsufficientLiquidityError extends OrderExecutionError {
+  constructor(message: string) {
+    super('INSUFFICIENT_LIQUIDITY', message);
+    this.name = 'InsufficientLiquidityError';
+  }
+}
+
+/**
+ * Thrown when a sniper order's net quote is worse than its max price: above
+ * it for buys, below it for sells
+ */
+export class MaxPriceExceededError extends OrderExecutionError {
+  constructor(price: number, maxPrice: number, side: OrderSide = 'BUY') {
+    super(
+      'MAX_PRICE_EXCEEDED',
+      side === 'BUY'
+        ? `Max price exceeded: quoted $${price.toFixed(2)}, max $${maxPrice.toFixed(2)}`
+        : `Min price not reached: quoted $${price.toFixed(2)}, min $${maxPrice.toFixed(2)}`
+    );
+    this.name = 'MaxPriceExceededError';
+  }
+}
+
+/**
+ * Thrown when an order's size or limit was amended after its route was
+ * quoted; nothing was sent, so it is routed again
+ */
+export class OrderAmendedError extends OrderExecutionError {
+  constructor(orderId: string) {
+    super('ORDER_AMENDED', `Order ${orderId} was amended after its route was quoted`, true);
+    this.name = 'OrderAmendedError';
+  }
+}
+
+/**
+ * Thrown when an order's expiry passes before it could execute
+ */
+export class OrderExpiredError extends OrderExecutionError {
+  constructor(message: string) {
+    super('ORDER_EXPIRED', message);
+    this.name = 'OrderExpiredError';
+  }
+}
+
+/**
+ * Thrown when an execution stopped after some of its swaps landed and the
+ * rest can no longer be completed or retried
+ */
+export class PartialExecutionError extends OrderExecutionError {
+  constructor(message: string, code: OrderErrorCode = 'PARTIAL_EXECUTION') {
+    super(code, message);
+    this.name = 'PartialExecutionError';
+  }
+}
+
+/**
+ * Thrown when a swap would fill beyond the price bound derived from the
+ * routed quote and the order's slippage tolerance
+ */
+export class SlippageExceededError extends OrderExecutionError {
+  declare readonly code: 'SLIPPAGE_EXCEEDED';
+  // Fill price the venue would have given, in tokenOut per tokenIn after fees
+  readonly executedPrice: number;
+  // Worst price the swap accepted
+  readonly boundPrice: number;
+  // Some legs or hops of the route had already executed
+  readonly partial: boolean;
+
+  constructor(message: string, executedPrice: number, boundPrice: number, partial: boolean = false) {
+    super('SLIPPAGE_EXCEEDED', message);
+    this.name = 'SlippageExceededError';
+    this.executedPrice = executedPrice;
+    this.boundPrice = boundPrice;
+    this.partial = partial;
+  }
+}
+
+/**
+ * Thrown when a transaction can no longer land because its blockhash expired.
+ * It never executed, so it is safe to resubmit with a fresh blockhash.
+ */
+export class TransactionExpiredError extends OrderExecutionError {
+  declare readonly code: 'TRANSACTION_EXPIRED';
+  readonly signature: string;
+
+  constructor(signature: string, reason: string) {
+    super('TRANSACTION_EXPIRED', `Transaction ${signature.slice(0, 8)}... expired: ${reason}`, true);
+    this.name = 'TransactionExpiredError';
+    this.signature = signature;
+  }
+}
+
+/**
+ * Thrown when the chain rejects a transaction or it lands with an error
+ */
+export class TransactionFailedError extends OrderExecutionError {
+  declare readonly code: 'INSUFFICIENT_FUNDS' | 'PROGRAM_ERROR';
+  readonly signature: string;
+
+  constructor(signature: string, code: 'INSUFFICIENT_FUNDS' | 'PROGRAM_ERROR', message: string) {
+    super(code, `Transaction ${signature.slice(0, 8)}... failed: ${message}`);
+    this.name = 'TransactionFailedError';
+    this.signature = signature;
+  }
+}
+
+/**
+ * Thrown when settling a fill would take an account's balance below zero
+ */
+export class InsufficientBalanceError extends OrderExecutionError {
+  constructor(accountId: string, token: string, amount: number) {
+    super('INSUFFICIENT_BALANCE', `Account ${accountId} cannot cover ${amount} ${token} of the fill`);
+    this.name = 'InsufficientBalanceError';
+  }
+}
+
+/**
+ * Thrown when an order is asked to move to a status its current status cannot lead to
+ */
+export class InvalidTransitionError extends OrderExecutionError {
+  readonly from: string;
+  readonly to: string;
+
+  constructor(orderId: string, from: string, to: string) {
+    super('INVALID_TRANSITION', `Order ${orderId} cannot move from ${from} to ${to}`);
+    this.name = 'InvalidTransitionError';
+    this.from = from;
+    this.to = to;
+  }
+}
+
+// Prisma codes of failures to reach the database or of transactions that lost a race
+const TRANSIENT_PRISMA_CODES = ['P1001', 'P1002', 'P1008', 'P1017', 'P2024', 'P2034'];
+// Node.js codes of dropped or refused connections
+const TRANSIENT_NETWORK_CODES = ['ECONNRESET', 'ECONNREFUSED', 'ETIMEDOUT'];
+
+/**
+ * Classify any error thrown while executing an order. Errors outside the
+ * taxonomy are not retryable, unless they are known to be transient: the
+ * database being unreachable or busy, or a dropped network connection.
+ */
+export function toOrderExecutionError(error: unknown): OrderExecutionError {
+  if (error instanceof OrderExecutionError) {
+    return error;
+  }
+
+  const code = (error as { code?: unknown } | null)?.code;
+  const transient =
+    typeof code === 'string' && (TRANSIENT_PRISMA_CODES.includes(code) || TRANSIENT_NETWORK_CODES.includes(code));
+  return new OrderExecutionError('INTERNAL_ERROR', error instanceof Error ? error.message : String(error), transient);
+}
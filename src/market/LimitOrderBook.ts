@@ -0,0 +1,117 @@
+// src/market/LimitOrderBook.ts
+
+import { Order } from '../types';
+
+/**
+ * Resting limit orders for one token pair, sorted so crossed orders are
+ * always at the front: buys by descending limit, sells by ascending limit.
+ */
+export class LimitOrderBook {
+  private buys: Order[] = [];
+  private sells: Order[] = [];
+  private index: Map<string, Order> = new Map();
+
+  /**
+   * Add (or replace) a resting order
+   */
+  add(order: Order): void {
+    this.remove(order.id);
+
+    const levels = order.side === 'SELL' ? this.sells : this.buys;
+    const position = this.findInsertPosition(levels, order);
+    levels.splice(position, 0, order);
+    this.index.set(order.id, order);
+  }
+
+  /**
+   * Remove an order, returning it if it was resting
+   */
+  remove(orderId: string): Order | undefined {
+    const order = this.index.get(orderId);
+    if (!order) {
+      return undefined;
+    }
+
+    const levels = order.side === 'SELL' ? this.sells : this.buys;
+    levels.splice(levels.indexOf(order), 1);
+    this.index.delete(orderId);
+
+    return order;
+  }
+
+  has(orderId: string): boolean {
+    return this.index.has(orderId);
+  }
+
+  get size(): number {
+    return this.index.size;
+  }
+
+  /**
+   * Remove and return all orders whose limit is crossed by the given prices.
+   * buyPrice is the best cost for buyers, sellPrice the best proceeds for sellers.
+   */
+  takeCrossed(buyPrice: number, sellPrice: number): Order[] {
+    const crossedBuys = this.takeWhile(this.buys, (order) => buyPrice <= order.limitPrice!);
+    const crossedSells = this.takeWhile(this.sells, (order) => sellPrice >= order.limitPrice!);
+
+    return [...crossedBuys, ...crossedSells];
+  }
+
+  /**
+   * Remove and return all orders that expired at or before the given time
+   */
+  takeExpired(now: Date = new Date()): Order[] {
+    const expired = Array.from(this.index.values()).filter(
+      (order) => !!order.expiresAt && new Date(order.expiresAt).getTime() <= now.getTime()
+    );
+    expired.forEach((order) => this.remove(order.id));
+
+    return expired;
+  }
+
+  /**
+   * Best resting limits on each side
+   */
+  getTopOfBook(): { bestBid?: number; bestAsk?: number } {
+    return {
+      bestBid: this.buys[0]?.limitPrice,
+      bestAsk: this.sells[0]?.limitPrice,
+    };
+  }
+
+  private takeWhile(levels: Order[], crossed: (order: Order) => boolean): Order[] {
+    let count = 0;
+    while (count < levels.length && crossed(levels[count])) {
+      count++;
+    }
+
+    const taken = levels.splice(0, count);
+    taken.forEach((order) => this.index.delete(order.id));
+
+    return taken;
+  }
+
+  /**
+   * Binary search keeping price priority, then time priority for equal limits
+   */
+  private findInsertPosition(levels: Order[], order: Order): number {
+    const ahead = (resting: Order) =>
+      order.side === 'SELL'
+        ? resting.limitPrice! <= order.limitPrice!
+        : resting.limitPrice! >= order.limitPrice!;
+
+    let low = 0;
+    let high = levels.length;
+    while (low < high) {
+      const mid = (low + high) >>> 1;
+      if (ahead(levels[mid])) {
+        low = mid + 1;
+      } else {
+        high = mid;
+      }
+    }
+
+    return low;
+  }
+}
@@ -0,0 +1,177 @@
+// src/market/PriceTickEngine.ts
+
+import { MockDexRouter } from '../dex/MockDexRouter';
+import { LimitOrderBook } from './LimitOrderBook';
+import { addOrderToQueue, buildJobData } from '../queue/orderQueue';
+import { Order, PriceTick } from '../types';
+
+export const PRICE_TICK_INTERVAL_MS = parseInt(process.env.PRICE_TICK_INTERVAL_MS || '1000');
+
+/**
+ * Shared market-data poller for resting limit orders.
+ * Each tick fetches venue quotes once per pair with resting orders and
+ * enqueues execution jobs only for orders that are crossed or expired.
+ */
+export class PriceTickEngine {
+  private books: Map<string, LimitOrderBook> = new Map();
+  private lastTicks: Map<string, PriceTick> = new Map();
+  private timer?: NodeJS.Timeout;
+  private ticking = false;
+  private dexRouter: MockDexRouter;
+  private intervalMs: number;
+  private enqueue: (order: Order) => Promise<void>;
+
+  constructor(
+    dexRouter: MockDexRouter = new MockDexRouter(),
+    intervalMs: number = PRICE_TICK_INTERVAL_MS,
+    enqueue: (order: Order) => Promise<void> = (order) =>
+      addOrderToQueue(order.id, buildJobData(order), `${order.id}-tick-${Date.now()}`)
+  ) {
+    this.dexRouter = dexRouter;
+    this.intervalMs = intervalMs;
+    this.enqueue = enqueue;
+  }
+
+  /**
+   * Load resting orders into the books and start the tick loop
+   */
+  start(restingOrders: Order[] = []): void {
+    restingOrders.forEach((order) => this.addOrder(order));
+
+    if (!this.timer) {
+      this.timer = setInterval(() => {
+        this.tick().catch((error) => console.error('[TICK] Tick failed:', error));
+      }, this.intervalMs);
+      this.timer.unref();
+    }
+
+    console.log(`[TICK] Engine started with ${restingOrders.length} resting order(s)`);
+  }
+
+  /**
+   * Stop the tick loop
+   */
+  stop(): void {
+    if (this.timer) {
+      clearInterval(this.timer);
+      this.timer = undefined;
+    }
+  }
+
+  /**
+   * Rest a limit order in the book for its pair
+   */
+  addOrder(order: Order): void {
+    const key = this.pairKey(order.tokenIn, order.tokenOut);
+    if (!this.books.has(key)) {
+      this.books.set(key, new LimitOrderBook());
+    }
+    this.books.get(key)!.add(order);
+  }
+
+  /**
+   * Remove a resting order from its book
+   */
+  removeOrder(order: Order): boolean {
+    const key = this.pairKey(order.tokenIn, order.tokenOut);
+    const book = this.books.get(key);
+    const removed = !!book?.remove(order.id);
+
+    if (book && book.size === 0) {
+      this.books.delete(key);
+    }
+
+    return removed;
+  }
+
+  /**
+   * Replace a resting order's snapshot after an amendment; no-op if not resting
+   */
+  updateOrder(order: Order): boolean {
+    if (!this.removeOrder(order)) {
+      return false;
+    }
+    this.addOrder(order);
+    return true;
+  }
+
+  /**
+   * Poll every pair with resting orders once
+   */
+  async tick(): Promise<void> {
+    // Skip if the previous tick is still fetching quotes
+    if (this.ticking) {
+      return;
+    }
+
+    this.ticking = true;
+    try {
+      await Promise.all(
+        Array.from(this.books.keys()).map((key) =>
+          this.tickPair(key).catch((error) =>
+            console.error(`[TICK] ${key} failed:`, error)
+          )
+        )
+      );
+    } finally {
+      this.ticking = false;
+    }
+  }
+
+  /**
+   * Resting order counts and latest prices per pair
+   */
+  getStats() {
+    return Array.from(this.books.entries()).map(([pair, book]) => ({
+      pair,
+      resting: book.size,
+      ...book.getTopOfBook(),
+      lastTick: this.lastTicks.get(pair),
+    }));
+  }
+
+  private async tickPair(key: string): Promise<void> {
+    const book = this.books.get(key);
+    if (!book) {
+      return;
+    }
+
+    const [tokenIn, tokenOut] = key.split('/');
+    const quotes = await this.dexRouter.getQuotes(tokenIn, tokenOut, 1);
+
+    const tick: PriceTick = {
+      pair: key,
+      buyPrice: Math.min(...quotes.map((q) => this.dexRouter.getEffectivePrice(q, 'BUY'))),
+      sellPrice: Math.max(...quotes.map((q) => this.dexRouter.getEffectivePrice(q, 'SELL'))),
+      timestamp: new Date(),
+    };
+    this.lastTicks.set(key, tick);
+
+    const due = [...book.takeCrossed(tick.buyPrice, tick.sellPrice), ...book.takeExpired(tick.timestamp)];
+    if (book.size === 0) {
+      this.books.delete(key);
+    }
+
+    if (due.length > 0) {
+      console.log(
+        `[TICK] ${key} buy $${tick.buyPrice.toFixed(2)} / sell $${tick.sellPrice.toFixed(2)} | ${due.length} order(s) due`
+      );
+    }
+
+    await Promise.all(
+      due.map((order) =>
+        this.enqueue(order).catch((error) => {
+          // Keep the order resting so the next tick retries it
+          console.error(`[TICK] Failed to enqueue order ${order.id}:`, error);
+          this.addOrder(order);
+        })
+      )
+    );
+  }
+
+  private pairKey(tokenIn: string, tokenOut: string): string {
+    return `${tokenIn}/${tokenOut}`;
+  }
+}
+
+export const priceTickEngine = new PriceTickEngine();
@@ -0,0 +1,113 @@
+// src/plugins/auth.ts
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { authService } from '../services/authService';
+import { AuthContext, Order } from '../types';
+
+export type AuthLevel = 'public' | 'account' | 'admin';
+
+declare module 'fastify' {
+  interface FastifyRequest {
+    auth: AuthContext | null;
+    rawBody?: string;
+  }
+
+  interface FastifyContextConfig {
+    auth?: AuthLevel;
+  }
+}
+
+/**
+ * Level a route needs unless it sets config.auth: admin routes need an admin
+ * key, other API routes any valid key, and everything else (dashboard,
+ * health check) none
+ */
+function getAuthLevel(request: FastifyRequest): AuthLevel {
+  const configured = request.routeOptions.config.auth;
+  if (configured) {
+    return configured;
+  }
+  if (request.url.startsWith('/api/admin/')) {
+    return 'admin';
+  }
+  return request.url.startsWith('/api/') ? 'account' : 'public';
+}
+
+const header = (request: FastifyRequest, name: string): string | undefined => {
+  const value = request.headers[name];
+  return Array.isArray(value) ? value[0] : value;
+};
+
+/**
+ * Whether the request asks to upgrade to a WebSocket
+ */
+const isWebSocketUpgrade = (request: FastifyRequest): boolean =>
+  request.method === 'GET' && header(request, 'upgrade')?.toLowerCase() === 'websocket';
+
+/**
+ * API-key authentication. Keys come in the x-api-key header; only WebSocket
+ * upgrades, which browsers cannot add headers to, may pass the apiKey query
+ * parameter instead, so keys stay out of the URLs of other requests. Requests
+ * signed with x-timestamp and x-signature are verified against the key's
+ * secret.
+ */
+export const authPlugin = fp(async (fastify: FastifyInstance) => {
+  fastify.decorateRequest('auth', null);
+
+  // Keep the raw JSON body so signatures cover exactly the bytes sent
+  fastify.removeContentTypeParser('application/json');
+  fastify.addContentTypeParser('application/json', { parseAs: 'string' }, (request, body, done) => {
+    request.rawBody = body as string;
+    try {
+      done(null, body === '' ? undefined : JSON.parse(body as string));
+    } catch (error) {
+      (error as Error & { statusCode?: number }).statusCode = 400;
+      done(error as Error, undefined);
+    }
+  });
+
+  fastify.addHook('preValidation', async (request: FastifyRequest, reply: FastifyReply) => {
+    const level = getAuthLevel(request);
+    if (level === 'public') {
+      return;
+    }
+
+    const apiKey =
+      header(request, 'x-api-key') ??
+      (isWebSocketUpgrade(request) ? (request.query as { apiKey?: string })?.apiKey : undefined);
+    if (!apiKey) {
+      return reply.code(401).send({ success: false, error: 'API key required' });
+    }
+
+    const auth = await authService.authenticate(apiKey, {
+      method: request.method,
+      url: request.url,
+      body: request.rawBody ?? '',
+      timestamp: header(request, 'x-timestamp'),
+      signature: header(request, 'x-signature'),
+    });
+    if (!auth) {
+      return reply.code(401).send({ success: false, error: 'Invalid API key or signature' });
+    }
+    if (level === 'admin' && !auth.admin) {
+      return reply.code(403).send({ success: false, error: 'Admin key required' });
+    }
+
+    request.auth = auth;
+  });
+});
+
+/**
+ * Whether the caller may see the order: admins see every order, others their account's
+ */
+export function canAccessOrder(auth: AuthContext | null, order: Pick<Order, 'accountId'>): boolean {
+  return !!auth && (auth.admin || auth.accountId === order.accountId);
+}
+
+/**
+ * Actor recorded in order history for changes made with the caller's key
+ */
+export function getActor(auth: AuthContext): string {
+  return `${auth.admin ? 'admin' : 'account'}:${auth.keyId}`;
+}
@@ -0,0 +1,37 @@
+// src/plugins/rateLimit.ts
+
+import { FastifyInstance, FastifyReply, FastifyRequest } from 'fastify';
+import fp from 'fastify-plugin';
+import { admissionService } from '../services/admissionService';
+import { AdmissionResult } from '../types';
+
+/**
+ * Answer a request admission turned away with 429 and a Retry-After in seconds
+ */
+export function sendAdmissionRejection(
+  reply: FastifyReply,
+  result: Extract<AdmissionResult, { success: false }>
+) {
+  return reply
+    .code(429)
+    .header('Retry-After', Math.max(1, Math.ceil(result.retryAfterMs / 1000)))
+    .send({ success: false, code: result.code, error: result.error });
+}
+
+/**
+ * Per-key request rate limit for authenticated routes. Runs after the auth
+ * plugin has identified the caller; order submissions are additionally
+ * admitted by the execute route.
+ */
+export const rateLimitPlugin = fp(async (fastify: FastifyInstance) => {
+  fastify.addHook('preHandler', async (request: FastifyRequest, reply: FastifyReply) => {
+    if (!request.auth) {
+      return;
+    }
+
+    const result = admissionService.checkRequest(request.auth.keyId);
+    if (!result.success) {
+      return sendAdmissionRejection(reply, result);
+    }
+  });
+});
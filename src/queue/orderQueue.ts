@@ -1,11 +1,9 @@
 // src/queue/orderQueue.ts
 
-import { Queue, Worker } from 'bullmq';
-import { limitOrderService } from '../services/limitOrderService';
-import { orderService } from '../services/orderService';
-import { JobData } from '../types';
+import { Job, Queue } from 'bullmq';
+import { DeadLetterData, JobData, Order } from '../types';
 
-const redisConnection = {
+export const redisConnection = {
   connection: {
     host: process.env.REDIS_HOST || '127.0.0.1',
     port: parseInt(process.env.REDIS_PORT || '6379'),
@@ -14,73 +12,24 @@ const redisConnection = {
 
 export const ordersQueue = new Queue<JobData>('orders', redisConnection);
 
+// Jobs that used up their attempts. Nothing consumes it: admins retry or purge its jobs.
+export const deadLetterQueue = new Queue<DeadLetterData>('orders-dead-letter', redisConnection);
+
 /**
- * Create and configure the queue worker
+ * Build queue job payload from a persisted order
  */
-export async function setupOrderWorker() {
-  const worker = new Worker<JobData>(
-    'orders',
-    async (job) => {
-      try {
-        console.log(`[WORKER] Processing job ${job.id} for order ${job.data.orderId}`);
-
-        // Get order from database
-        const order = await orderService.getOrderById(job.data.orderId);
-        if (!order) {
-          throw new Error(`Order ${job.data.orderId} not found`);
-        }
-
-        // Update attempts
-        await orderService.incrementAttempts(order.id);
-
-        // Process limit order
-        const result = await limitOrderService.processLimitOrder(order);
-
-        if (!result.success) {
-          throw new Error(result.error || 'Order processing failed');
-        }
-
-        console.log(
-          `[WORKER] Successfully completed order ${job.data.orderId}`
-        );
-
-        return {
-          success: true,
-          orderId: job.data.orderId,
-          executedPrice: result.executedPrice,
-          txHash: result.txHash,
-        };
-      } catch (error) {
-        console.error(`[WORKER] Job ${job.id} failed:`, error);
-        throw error;
-      }
-    },
-    {
-      ...redisConnection,
-      concurrency: 10,
-      removeOnComplete: {
-        age: 3600, // Keep for 1 hour
-      },
-      removeOnFail: {
-        age: 86400, // Keep failed jobs for 24 hours
-      },
-    }
-  );
-
-  // Event listeners
-  worker.on('completed', (job) => {
-    console.log(`[WORKER] Job ${job.id} completed successfully`);
-  });
-
-  worker.on('failed', (job, error) => {
-    console.error(`[WORKER] Job ${job?.id} failed:`, error.message);
-  });
-
-  worker.on('error', (error) => {
-    console.error('[WORKER] Worker error:', error);
-  });
-
-  return worker;
+export function buildJobData(order: Order): JobData {
+  return {
+    orderId: order.id,
+    type: order.type,
+    side: order.side,
+    tokenIn: order.tokenIn,
+    tokenOut: order.tokenOut,
+    amountIn: order.amountIn,
+    limitPrice: order.limitPrice ?? undefined,
+    slippage: order.slippage,
+    maxPrice: order.maxPrice ?? undefined,
+  };
 }
 
 /**
@@ -88,10 +37,11 @@ export async function setupOrderWorker() {
  */
 export async function addOrderToQueue(
   orderId: string,
-  jobData: JobData
+  jobData: JobData,
+  jobId: string = orderId
 ): Promise<void> {
-  await ordersQueue.add('process-limit-order', jobData, {
-    jobId: orderId,
+  await ordersQueue.add(`process-${jobData.type.toLowerCase()}-order`, jobData, {
+    jobId,
     attempts: 3,
     backoff: {
       type: 'exponential',
@@ -103,16 +53,81 @@ export async function addOrderToQueue(
   console.log(`[QUEUE] Order ${orderId} added to queue`);
 }
 
+/**
+ * Remove all waiting or delayed jobs of an order. Active jobs are left to
+ * notice the cancellation themselves.
+ */
+export async function removeOrderJobs(orderId: string): Promise<number> {
+  const jobs = await ordersQueue.getJobs(['waiting', 'delayed', 'prioritized']);
+  const orderJobs = jobs.filter((job) => job?.data.orderId === orderId);
+
+  await Promise.all(orderJobs.map((job) => job.remove()));
+
+  if (orderJobs.length > 0) {
+    console.log(`[QUEUE] Removed ${orderJobs.length} job(s) for order ${orderId}`);
+  }
+
+  return orderJobs.length;
+}
+
+/**
+ * IDs of the orders with a job waiting, delayed or being processed
+ */
+export async function getQueuedOrderIds(): Promise<Set<string>> {
+  const jobs = await ordersQueue.getJobs(['waiting', 'delayed', 'prioritized', 'active']);
+  return new Set(jobs.filter(Boolean).map((job) => job.data.orderId));
+}
+
+/**
+ * Refresh the payload of an order's pending jobs after an amendment
+ */
+export async function updateOrderJobs(order: Order): Promise<void> {
+  const jobs = await ordersQueue.getJobs(['waiting', 'delayed', 'prioritized']);
+  await Promise.all(
+    jobs
+      .filter((job) => job?.data.orderId === order.id)
+      .map((job) => job.updateData(buildJobData(order)))
+  );
+}
+
+/**
+ * Move a job that failed its last attempt to the dead-letter queue, keeping
+ * its failure for inspection
+ */
+export async function moveToDeadLetter(job: Job<JobData>): Promise<void> {
+  const jobId = job.id ?? job.data.orderId;
+  await deadLetterQueue.add(
+    job.name,
+    {
+      ...job.data,
+      jobId,
+      jobName: job.name,
+      attempts: job.opts.attempts ?? 1,
+      attemptsMade: job.attemptsMade,
+      failedReason: job.failedReason,
+      stacktrace: job.stacktrace ?? [],
+      enqueuedAt: job.timestamp,
+      failedAt: job.finishedOn ?? Date.now(),
+    },
+    { jobId }
+  );
+  await job.remove();
+
+  console.log(`[QUEUE] Job ${jobId} for order ${job.data.orderId} moved to the dead-letter queue`);
+}
+
 /**
  * Get queue statistics
  */
 export async function getQueueStats() {
-  const [waiting, active, completed, failed, delayed] = await Promise.all([
+  const [waiting, active, completed, failed, delayed, deadLettered, paused] = await Promise.all([
     ordersQueue.getWaitingCount(),
     ordersQueue.getActiveCount(),
     ordersQueue.getCompletedCount(),
     ordersQueue.getFailedCount(),
     ordersQueue.getDelayedCount(),
+    deadLetterQueue.count(),
+    ordersQueue.isPaused(),
   ]);
 
   return {
@@ -121,6 +136,8 @@ export async function getQueueStats() {
     completed,
     failed,
     delayed,
+    deadLettered,
+    paused,
     total: waiting + active + completed + failed + delayed,
   };
 }
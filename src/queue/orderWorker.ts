@@ -0,0 +1,132 @@
+// src/queue/orderWorker.ts
+
+import { UnrecoverableError, Worker } from 'bullmq';
+import { limitOrderService } from '../services/limitOrderService';
+import { marketOrderService } from '../services/marketOrderService';
+import { sniperOrderService } from '../services/sniperOrderService';
+import { EXECUTING_STATUSES, orderRecoveryService } from '../services/orderRecoveryService';
+import { orderService, RESTING_STATUSES } from '../services/orderService';
+import { TERMINAL_STATUSES } from '../services/orderStateMachine';
+import { ExecutionResult, JobData, Order } from '../types';
+import { moveToDeadLetter, redisConnection } from './orderQueue';
+
+/**
+ * Dispatch order to the execution strategy for its type
+ */
+async function executeOrder(
+  type: JobData['type'],
+  order: Order,
+  retriesLeft: number
+): Promise<ExecutionResult> {
+  switch (type) {
+    case 'MARKET':
+      return marketOrderService.processMarketOrder(order, retriesLeft);
+    case 'LIMIT':
+      return limitOrderService.processLimitOrder(order, retriesLeft);
+    case 'SNIPER':
+      return sniperOrderService.processSniperOrder(order, retriesLeft);
+    default:
+      throw new UnrecoverableError(`Unsupported order type: ${type}`);
+  }
+}
+
+/**
+ * Create and configure the queue worker
+ */
+export async function setupOrderWorker() {
+  const worker = new Worker<JobData>(
+    'orders',
+    async (job) => {
+      try {
+        console.log(`[WORKER] Processing job ${job.id} for order ${job.data.orderId}`);
+
+        // Get order from database
+        const order = await orderService.getOrderById(job.data.orderId);
+        if (!order) {
+          throw new UnrecoverableError(`Order ${job.data.orderId} not found`);
+        }
+
+        // Cancelled or already finished orders have nothing left to do
+        if (TERMINAL_STATUSES.includes(order.status)) {
+          console.log(`[WORKER] Skipping order ${order.id} in terminal status ${order.status}`);
+          return { success: true, orderId: order.id, status: order.status };
+        }
+
+        // Update attempts (re-checks of a resting order are not new attempts)
+        if (!RESTING_STATUSES.includes(order.status)) {
+          await orderService.incrementAttempts(order.id);
+        }
+
+        // Retryable failures are thrown back to the queue until the last attempt, which fails the order
+        const retriesLeft = Math.max((job.opts.attempts ?? 1) - job.attemptsMade - 1, 0);
+
+        // Swaps of an interrupted execution may have landed: settle those before sending any again
+        let recovered: ExecutionResult | null = null;
+        let current = order;
+        if (EXECUTING_STATUSES.includes(order.status)) {
+          console.log(`[WORKER] Order ${order.id} was interrupted in ${order.status}, reconciling`);
+          recovered = await orderRecoveryService.reconcile(order, retriesLeft);
+          current = (await orderService.getOrderById(order.id)) ?? order;
+        }
+
+        // Execute with the strategy for the order type
+        const result = recovered ?? (await executeOrder(job.data.type, current, retriesLeft));
+
+        // The order failed for good and subscribers were told; another attempt cannot help
+        if (!result.success) {
+          throw new UnrecoverableError(result.error || 'Order processing failed');
+        }
+
+        console.log(
+          `[WORKER] Completed order ${job.data.orderId} (${result.status || 'confirmed'})`
+        );
+
+        return {
+          success: true,
+          orderId: job.data.orderId,
+          executedPrice: result.executedPrice,
+          txHash: result.txHash,
+        };
+      } catch (error) {
+        console.error(`[WORKER] Job ${job.id} failed:`, error);
+        throw error;
+      }
+    },
+    {
+      ...redisConnection,
+      concurrency: 10,
+      removeOnComplete: {
+        age: 3600, // Keep for 1 hour
+      },
+      removeOnFail: {
+        age: 86400, // Keep failed jobs for 24 hours
+      },
+    }
+  );
+
+  // Event listeners
+  worker.on('completed', (job) => {
+    console.log(`[WORKER] Job ${job.id} completed successfully`);
+  });
+
+  worker.on('failed', async (job, error) => {
+    console.error(`[WORKER] Job ${job?.id} failed:`, error.message);
+
+    // Failed for good or out of attempts: park the job for an admin rather than
+    // leaving it to expire with the failed set
+    if (job && (error instanceof UnrecoverableError || job.attemptsMade >= (job.opts.attempts ?? 1))) {
+      try {
+        await moveToDeadLetter(job);
+      } catch (deadLetterError) {
+        console.error(`[WORKER] Could not dead-letter job ${job.id}:`, deadLetterError);
+      }
+    }
+  });
+
+  worker.on('error', (error) => {
+    console.error('[WORKER] Worker error:', error);
+  });
+
+  return worker;
+}
+
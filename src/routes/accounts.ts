@@ -0,0 +1,132 @@
+// src/routes/accounts.ts
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { accountService } from '../services/accountService';
+import { authService } from '../services/authService';
+
+const CreateAccountSchema = z.object({
+  name: z.string().min(1),
+  balances: z.record(z.number().nonnegative()).default({}),
+});
+
+const DepositSchema = z.object({
+  token: z.string().min(1),
+  amount: z.number().positive(),
+});
+
+export async function registerAccountRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /api/accounts
+   * Create an account with optional opening balances per token, and its first API key (admin)
+   */
+  fastify.post(
+    '/api/accounts',
+    { config: { auth: 'admin' } },
+    async (request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const validationResult = CreateAccountSchema.safeParse(request.body);
+        if (!validationResult.success) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid request body',
+            details: validationResult.error.errors,
+          });
+        }
+
+        const { name, balances } = validationResult.data;
+        const account = await accountService.createAccount(name, balances);
+        const credentials = await authService.issueKey(account.id);
+
+        return reply.code(201).send({ success: true, data: { ...account, credentials } });
+      } catch (error) {
+        console.error('[API] Error creating account:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to create account' });
+      }
+    }
+  );
+
+  /**
+   * GET /api/accounts/:id
+   * Get an account with its available and reserved balances (own account or admin)
+   */
+  fastify.get(
+    '/api/accounts/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const { admin, accountId } = request.auth!;
+        const account =
+          admin || accountId === request.params.id
+            ? await accountService.getAccountById(request.params.id)
+            : null;
+
+        if (!account) {
+          return reply.code(404).send({ success: false, error: 'Account not found' });
+        }
+
+        return reply.send({ success: true, data: account });
+      } catch (error) {
+        console.error('[API] Error fetching account:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to fetch account' });
+      }
+    }
+  );
+
+  /**
+   * POST /api/accounts/:id/deposits
+   * Credit tokens to an account (admin)
+   */
+  fastify.post(
+    '/api/accounts/:id/deposits',
+    { config: { auth: 'admin' } },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const validationResult = DepositSchema.safeParse(request.body);
+        if (!validationResult.success) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid request body',
+            details: validationResult.error.errors,
+          });
+        }
+
+        const account = await accountService.getAccountById(request.params.id);
+        if (!account) {
+          return reply.code(404).send({ success: false, error: 'Account not found' });
+        }
+
+        const { token, amount } = validationResult.data;
+        const balance = await accountService.deposit(account.id, token, amount);
+
+        return reply.send({ success: true, data: balance });
+      } catch (error) {
+        console.error('[API] Error depositing:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to deposit' });
+      }
+    }
+  );
+
+  /**
+   * POST /api/accounts/:id/keys
+   * Issue another API key for an account (admin)
+   */
+  fastify.post(
+    '/api/accounts/:id/keys',
+    { config: { auth: 'admin' } },
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const account = await accountService.getAccountById(request.params.id);
+        if (!account) {
+          return reply.code(404).send({ success: false, error: 'Account not found' });
+        }
+
+        const credentials = await authService.issueKey(account.id);
+
+        return reply.code(201).send({ success: true, data: credentials });
+      } catch (error) {
+        console.error('[API] Error issuing API key:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to issue API key' });
+      }
+    }
+  );
+}
@@ -0,0 +1,281 @@
+// src/routes/admin.ts
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { z } from 'zod';
+import { poolRegistry } from '../dex/PoolRegistry';
+import { dexRegistry } from '../dex/DexRegistry';
+import { mockChain } from '../chain/MockChain';
+import { authService } from '../services/authService';
+import { sniperOrderService } from '../services/sniperOrderService';
+import { jobManagementService } from '../services/jobManagementService';
+import { getQueueStats } from '../queue/orderQueue';
+import { getActor } from '../plugins/auth';
+
+const PoolEventSchema = z.object({
+  event: z.enum(['POOL_CREATED', 'MIGRATION']),
+  dex: z.string().refine((name) => dexRegistry.has(name), { message: 'Unknown DEX venue' }),
+  tokenA: z.string().min(1),
+  tokenB: z.string().min(1),
+});
+
+const failureRate = z.number().min(0).max(1).optional();
+
+const ChainFailuresSchema = z
+  .object({
+    expired: failureRate,
+    dropped: failureRate,
+    insufficient_funds: failureRate,
+    program_error: failureRate,
+  })
+  .strict()
+  .refine((rates) => Object.values(rates).reduce<number>((sum, rate) => sum + (rate ?? 0), 0) <= 1, {
+    message: 'Failure rates must sum to at most 1',
+  });
+
+const ListJobsSchema = z.object({
+  state: z.enum(['waiting', 'active', 'delayed', 'failed', 'dead']).default('failed'),
+  limit: z.coerce.number().int().min(1).max(200).default(50),
+});
+
+const PurgeJobsSchema = z.object({
+  state: z.enum(['failed', 'dead']),
+  olderThanMs: z.coerce.number().int().min(0),
+});
+
+const RETRY_ERROR_CODES = {
+  NOT_FOUND: 404,
+  NOT_RETRYABLE: 409,
+  INSUFFICIENT_BALANCE: 422,
+} as const;
+
+export async function registerAdminRoutes(fastify: FastifyInstance) {
+  /**
+   * POST /api/admin/pools
+   * Feed a simulated pool creation or migration event into the mock DEX layer
+   */
+  fastify.post('/api/admin/pools', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const validationResult = PoolEventSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request body',
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { event, dex, tokenA, tokenB } = validationResult.data;
+      const pool = poolRegistry.addPool(event, dex, tokenA, tokenB);
+
+      return reply.code(201).send({ success: true, data: pool });
+    } catch (error) {
+      console.error('[API] Error adding pool:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to add pool' });
+    }
+  });
+
+  /**
+   * GET /api/admin/pools
+   * List simulated pools and armed sniper orders
+   */
+  fastify.get('/api/admin/pools', async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      return reply.send({
+        success: true,
+        data: {
+          pools: poolRegistry.listPools(),
+          armedOrders: sniperOrderService.getArmedCount(),
+        },
+      });
+    } catch (error) {
+      console.error('[API] Error fetching pools:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to fetch pools' });
+    }
+  });
+
+  /**
+   * GET /api/admin/chain
+   * Current slot, in-flight transactions and configuration of the mock chain
+   */
+  fastify.get('/api/admin/chain', async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      return reply.send({ success: true, data: mockChain.getStats() });
+    } catch (error) {
+      console.error('[API] Error fetching chain stats:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to fetch chain stats' });
+    }
+  });
+
+  /**
+   * PUT /api/admin/chain/failures
+   * Set the probability of each injected transaction failure
+   */
+  fastify.put('/api/admin/chain/failures', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const validationResult = ChainFailuresSchema.safeParse(request.body);
+      if (!validationResult.success) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid request body',
+          details: validationResult.error.errors,
+        });
+      }
+
+      mockChain.setFailureRates(validationResult.data);
+      return reply.send({ success: true, data: mockChain.getStats() });
+    } catch (error) {
+      console.error('[API] Error setting chain failure rates:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to set chain failure rates' });
+    }
+  });
+
+  /**
+   * POST /api/admin/keys
+   * Issue an admin API key
+   */
+  fastify.post('/api/admin/keys', async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const credentials = await authService.issueKey(null, true);
+      return reply.code(201).send({ success: true, data: credentials });
+    } catch (error) {
+      console.error('[API] Error issuing admin key:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to issue admin key' });
+    }
+  });
+
+  /**
+   * DELETE /api/admin/keys/:id
+   * Revoke an account or admin API key
+   */
+  fastify.delete(
+    '/api/admin/keys/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const revoked = await authService.revokeKey(request.params.id);
+        if (!revoked) {
+          return reply.code(404).send({ success: false, error: 'API key not found' });
+        }
+        return reply.send({ success: true });
+      } catch (error) {
+        console.error('[API] Error revoking key:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to revoke key' });
+      }
+    }
+  );
+
+  /**
+   * GET /api/admin/jobs?state=failed&limit=50
+   * List jobs of the order queue, or of the dead-letter queue with state=dead, with their orders
+   */
+  fastify.get('/api/admin/jobs', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const validationResult = ListJobsSchema.safeParse(request.query);
+      if (!validationResult.success) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid query',
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { state, limit } = validationResult.data;
+      const jobs = await jobManagementService.listJobs(state, limit);
+      return reply.send({ success: true, data: { state, jobs } });
+    } catch (error) {
+      console.error('[API] Error fetching jobs:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to fetch jobs' });
+    }
+  });
+
+  /**
+   * GET /api/admin/jobs/:id
+   * A job with its payload, order and failure stack
+   */
+  fastify.get(
+    '/api/admin/jobs/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const job = await jobManagementService.getJob(request.params.id);
+        if (!job) {
+          return reply.code(404).send({ success: false, error: 'Job not found' });
+        }
+        return reply.send({ success: true, data: job });
+      } catch (error) {
+        console.error('[API] Error fetching job:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to fetch job' });
+      }
+    }
+  );
+
+  /**
+   * POST /api/admin/jobs/:id/retry
+   * Enqueue a failed or dead-lettered job again with fresh attempts
+   */
+  fastify.post(
+    '/api/admin/jobs/:id/retry',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const result = await jobManagementService.retryJob(request.params.id, getActor(request.auth!));
+        if (!result.success) {
+          return reply.code(RETRY_ERROR_CODES[result.code]).send(result);
+        }
+        return reply.send({ success: true, data: { jobId: result.jobId, order: result.order } });
+      } catch (error) {
+        console.error('[API] Error retrying job:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to retry job' });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/admin/jobs?state=failed&olderThanMs=3600000
+   * Purge failed or dead-lettered jobs that failed at least olderThanMs ago
+   */
+  fastify.delete('/api/admin/jobs', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const validationResult = PurgeJobsSchema.safeParse(request.query);
+      if (!validationResult.success) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid query',
+          details: validationResult.error.errors,
+        });
+      }
+
+      const { state, olderThanMs } = validationResult.data;
+      const purged = await jobManagementService.purgeJobs(state, olderThanMs, getActor(request.auth!));
+      return reply.send({ success: true, data: { state, purged } });
+    } catch (error) {
+      console.error('[API] Error purging jobs:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to purge jobs' });
+    }
+  });
+
+  /**
+   * POST /api/admin/queue/pause
+   * Stop workers taking new jobs for maintenance; jobs already running finish
+   */
+  fastify.post('/api/admin/queue/pause', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      await jobManagementService.pauseQueue(getActor(request.auth!));
+      return reply.send({ success: true, data: await getQueueStats() });
+    } catch (error) {
+      console.error('[API] Error pausing queue:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to pause queue' });
+    }
+  });
+
+  /**
+   * POST /api/admin/queue/resume
+   * Let workers take jobs again
+   */
+  fastify.post('/api/admin/queue/resume', async (request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      await jobManagementService.resumeQueue(getActor(request.auth!));
+      return reply.send({ success: true, data: await getQueueStats() });
+    } catch (error) {
+      console.error('[API] Error resuming queue:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to resume queue' });
+    }
+  });
+}
@@ -0,0 +1,20 @@
+// src/routes/dexes.ts
+
+import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
+import { dexRegistry } from '../dex/DexRegistry';
+
+export async function registerDexRoutes(fastify: FastifyInstance) {
+  /**
+   * GET /api/dexes
+   * List registered DEX venues with their settings and health
+   */
+  fastify.get('/api/dexes', async (_request: FastifyRequest, reply: FastifyReply) => {
+    try {
+      const venues = await dexRegistry.list();
+      return reply.send({ success: true, data: venues });
+    } catch (error) {
+      console.error('[API] Error fetching venues:', error);
+      return reply.code(500).send({ success: false, error: 'Failed to fetch venues' });
+    }
+  });
+}
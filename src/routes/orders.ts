@@ -3,19 +3,138 @@
 import { FastifyInstance, FastifyRequest, FastifyReply } from 'fastify';
 import { z } from 'zod';
 import { orderService } from '../services/orderService';
+import { orderManagementService, ModifyOrderResult } from '../services/orderManagementService';
 import { wsManager } from '../websocket/wsManager';
-import { addOrderToQueue, getQueueStats } from '../queue/orderQueue';
-import { CreateOrderRequest } from '../types';
+import { orderEventService } from '../services/orderEventService';
+import { addOrderToQueue, buildJobData, getQueueStats } from '../queue/orderQueue';
+import { SNIPER_DEFAULT_EXPIRY_MS } from '../services/sniperOrderService';
+import { accountService } from '../services/accountService';
+import { riskService } from '../services/riskService';
+import { priceTickEngine } from '../market/PriceTickEngine';
+import { dexRegistry } from '../dex/DexRegistry';
+import { venueHealthTracker } from '../dex/VenueHealthTracker';
+import { admissionService } from '../services/admissionService';
+import { CHANNELS, parseClientMessage, PROTOCOL_VERSION, SubscribeMessage } from '../websocket/protocol';
+import { canAccessOrder, getActor } from '../plugins/auth';
+import { sendAdmissionRejection } from '../plugins/rateLimit';
+import { CreateOrderRequest, Order, RiskErrorCode, Subscription } from '../types';
 
 const CreateOrderSchema = z.object({
+  // Taken from the API key; admin keys name the account
+  accountId: z.string().min(1).optional(),
+  clientOrderId: z.string().min(1).max(64).optional(),
   type: z.enum(['LIMIT', 'MARKET', 'SNIPER']),
+  side: z.enum(['BUY', 'SELL']).default('BUY'),
   tokenIn: z.string().min(1),
   tokenOut: z.string().min(1),
   amountIn: z.number().positive(),
   limitPrice: z.number().positive().optional(),
   slippage: z.number().min(0).max(1).default(0.02),
+  maxPrice: z.number().positive().optional(),
+  timeInForce: z.enum(['GTC', 'GTD', 'IOC', 'FOK']).optional(),
+  expiresAt: z.coerce.date().optional(),
 });
 
+const AmendOrderSchema = z
+  .object({
+    limitPrice: z.number().positive(),
+    amountIn: z.number().positive(),
+    slippage: z.number().min(0).max(1),
+    expiresAt: z.coerce.date(),
+  })
+  .partial()
+  .strict()
+  .refine((changes) => Object.keys(changes).length > 0, {
+    message: 'At least one field must be amended',
+  });
+
+const MODIFY_ERROR_CODES = {
+  NOT_FOUND: 404,
+  NOT_MODIFIABLE: 409,
+  INVALID_AMENDMENT: 400,
+  INSUFFICIENT_BALANCE: 422,
+} as const;
+
+const RISK_ERROR_CODES: Record<RiskErrorCode, number> = {
+  ACCOUNT_NOT_FOUND: 404,
+  TOKEN_NOT_ALLOWED: 422,
+  MAX_NOTIONAL_EXCEEDED: 422,
+  MAX_OPEN_ORDERS: 422,
+  INSUFFICIENT_BALANCE: 422,
+};
+
+const IdempotencyKeySchema = z.string().min(1).max(255).optional();
+
+function sendModifyResult(reply: FastifyReply, result: ModifyOrderResult) {
+  if (!result.success) {
+    return reply.code(MODIFY_ERROR_CODES[result.code]).send(result);
+  }
+  return reply.send({ success: true, data: result.order });
+}
+
+/**
+ * Answer a repeated submission: the original order when the payload matches,
+ * a conflict when the key was used for a different order
+ */
+function sendDuplicate(reply: FastifyReply, order: Order, requestHash: string) {
+  if (order.requestHash !== requestHash) {
+    return reply.code(409).send({
+      success: false,
+      code: 'IDEMPOTENCY_CONFLICT',
+      error: 'Idempotency-Key or clientOrderId was already used for a different order',
+    });
+  }
+
+  return reply.code(200).send({
+    success: true,
+    orderId: order.id,
+    duplicate: true,
+    message: 'Order already submitted',
+  });
+}
+
+const isUniqueViolation = (error: unknown) => (error as { code?: string })?.code === 'P2002';
+
+/**
+ * Turn a subscribe message into a subscription the caller may hold, or the
+ * reason it is refused. Account keys only see their own account's orders;
+ * admin keys may watch any account, or every account on pair and status channels.
+ */
+async function resolveSubscription(
+  request: FastifyRequest,
+  message: SubscribeMessage
+): Promise<Subscription | string> {
+  const { admin, accountId: ownAccountId } = request.auth!;
+  const accountId = 'accountId' in message ? message.accountId : undefined;
+  if (!admin && accountId && accountId !== ownAccountId) {
+    return 'API key cannot subscribe to another account';
+  }
+  const scope = admin ? accountId : ownAccountId!;
+
+  switch (message.channel) {
+    case 'order':
+      return (await getVisibleOrder(request, message.orderId))
+        ? { channel: 'order', orderId: message.orderId }
+        : 'Order not found';
+    case 'account':
+      return scope ? { channel: 'account', accountId: scope } : 'accountId is required for keys without an account';
+    case 'pair':
+      return { channel: 'pair', pair: message.pair, ...(scope && { accountId: scope }) };
+    case 'status':
+      return { channel: 'status', statuses: message.statuses, ...(scope && { accountId: scope }) };
+    case 'market':
+      return { channel: 'market', pair: message.pair };
+  }
+}
+
+/**
+ * Load an order the caller may see; others' orders look like missing ones
+ */
+async function getVisibleOrder(request: FastifyRequest, id: string): Promise<Order | null> {
+  const order = await orderService.getOrderById(id);
+  return order && canAccessOrder(request.auth, order) ? order : null;
+}
+
 export async function registerOrderRoutes(fastify: FastifyInstance) {
   /**
    * POST /api/orders/execute
@@ -33,7 +152,45 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
         });
       }
 
-      const orderData = validationResult.data as CreateOrderRequest;
+      // Keys bound to an account can only trade for it
+      const auth = request.auth!;
+      const requested = validationResult.data.accountId;
+      if (auth.accountId && requested && requested !== auth.accountId) {
+        return reply.code(403).send({
+          success: false,
+          error: 'API key cannot place orders for another account',
+        });
+      }
+
+      const accountId = auth.accountId ?? requested;
+      if (!accountId) {
+        return reply.code(400).send({
+          success: false,
+          error: 'accountId is required for keys without an account',
+        });
+      }
+
+      const idempotencyKey = IdempotencyKeySchema.safeParse(request.headers['idempotency-key']);
+      if (!idempotencyKey.success) {
+        return reply.code(400).send({
+          success: false,
+          error: 'Invalid Idempotency-Key header',
+          details: idempotencyKey.error.errors,
+        });
+      }
+
+      const orderData = { ...validationResult.data, accountId } as CreateOrderRequest;
+
+      // Retries return the original order instead of placing another; the
+      // fingerprint is taken before defaults that depend on submission time
+      const requestHash = orderService.hashRequest(orderData);
+      const findSubmission = () =>
+        orderService.findSubmission(accountId, orderData.clientOrderId, idempotencyKey.data);
+
+      const previous = await findSubmission();
+      if (previous) {
+        return sendDuplicate(reply, previous, requestHash);
+      }
 
       // Limit orders must have limitPrice
       if (orderData.type === 'LIMIT' && !orderData.limitPrice) {
@@ -43,28 +200,78 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
         });
       }
 
+      if (orderData.expiresAt && orderData.expiresAt.getTime() <= Date.now()) {
+        return reply.code(400).send({
+          success: false,
+          error: 'expiresAt must be in the future',
+        });
+      }
+
+      // An expiry without explicit time-in-force means good-till-date
+      if (orderData.type === 'LIMIT' && !orderData.timeInForce) {
+        orderData.timeInForce = orderData.expiresAt ? 'GTD' : 'GTC';
+      }
+
+      if (orderData.timeInForce === 'GTD' && !orderData.expiresAt) {
+        return reply.code(400).send({
+          success: false,
+          error: 'expiresAt is required for GTD orders',
+        });
+      }
+
+      if (orderData.timeInForce === 'GTC' && orderData.expiresAt && orderData.type === 'LIMIT') {
+        return reply.code(400).send({
+          success: false,
+          error: 'expiresAt is only allowed for GTD orders',
+        });
+      }
+
+      // Sniper orders wait for a pool, so they always carry an expiry
+      if (orderData.type === 'SNIPER' && !orderData.expiresAt) {
+        orderData.expiresAt = new Date(Date.now() + SNIPER_DEFAULT_EXPIRY_MS);
+      }
+
+      // Backpressure: per-key order rate, queue depth and the account's in-flight orders
+      const admission = await admissionService.admitOrder(auth.keyId, accountId);
+      if (!admission.success) {
+        return sendAdmissionRejection(reply, admission);
+      }
+
+      // Pre-trade risk checks reserve the funds the order may spend
+      const risk = await riskService.checkOrder(orderData);
+      if (!risk.success) {
+        return reply.code(RISK_ERROR_CODES[risk.code]).send(risk);
+      }
+
       // Create order in database
-      const order = await orderService.createOrder(
-        orderData.type,
-        orderData.tokenIn,
-        orderData.tokenOut,
-        orderData.amountIn,
-        orderData.limitPrice,
-        orderData.slippage
-      );
+      let order: Order;
+      try {
+        order = await orderService.createOrder(orderData, risk.reservation.amount, {
+          idempotencyKey: idempotencyKey.data,
+          requestHash,
+          actor: getActor(request.auth!),
+        });
+      } catch (error) {
+        await accountService.release(orderData.accountId, risk.reservation);
+
+        // A concurrent retry inserted the same key first
+        const concurrent = isUniqueViolation(error) ? await findSubmission() : null;
+        if (concurrent) {
+          return sendDuplicate(reply, concurrent, requestHash);
+        }
+        throw error;
+      }
 
       console.log(`[API] Created order ${order.id}`);
 
-      // Add to queue for processing
-      await addOrderToQueue(order.id, {
-        orderId: order.id,
-        type: orderData.type,
-        tokenIn: orderData.tokenIn,
-        tokenOut: orderData.tokenOut,
-        amountIn: orderData.amountIn,
-        limitPrice: orderData.limitPrice,
-        slippage: orderData.slippage || 0.02,
-      });
+      // Add to queue for processing. An order that never reached the queue is
+      // cancelled, so it does not hold its reservation or pass for submitted
+      try {
+        await addOrderToQueue(order.id, buildJobData(order));
+      } catch (error) {
+        await orderService.cancelOrder(order.id, 'Could not be queued for execution');
+        throw error;
+      }
 
       return reply.code(202).send({
         success: true,
@@ -82,43 +289,69 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
   });
 
   /**
-   * GET /api/orders/ws - WebSocket endpoint for order updates
+   * GET /api/orders/ws - WebSocket endpoint for order updates and market data
    */
-  fastify.get('/api/orders/ws', { websocket: true }, (socket, _request) => {
-      console.log('[WS] New WebSocket connection');
-
-      socket.on('message', async (message: Buffer) => {
-        try {
-          const data = JSON.parse(message.toString());
-
-          if (data.action === 'subscribe') {
-            const { orderId } = data;
-            wsManager.register(orderId, socket);
-
-            // Send confirmation
-            socket.send(
-              JSON.stringify({
-                type: 'subscribed',
-                orderId,
-                timestamp: new Date(),
-              })
-            );
-          } else if (data.action === 'unsubscribe') {
-            const { orderId } = data;
-            wsManager.unregister(orderId, socket);
+  fastify.get('/api/orders/ws', { websocket: true }, (socket, request) => {
+    const auth = request.auth!;
+    console.log(`[WS] New WebSocket connection (key ${auth.keyId})`);
+
+    const send = (message: object) => socket.send(JSON.stringify(message));
+    const sendError = (message: string, extra: object = {}) => send({ type: 'error', message, ...extra });
+
+    wsManager.connect(socket);
+    send({ type: 'hello', v: PROTOCOL_VERSION, channels: CHANNELS });
+
+    socket.on('message', async (raw: Buffer) => {
+      try {
+        const parsed = parseClientMessage(raw.toString());
+        if (!parsed.success) {
+          sendError(parsed.error, parsed.details && { details: parsed.details });
+          return;
+        }
+
+        const message = parsed.message;
+        if (message.action === 'unsubscribe') {
+          if (message.orderId) {
+            wsManager.unsubscribeOrder(socket, message.orderId);
+          } else if (!wsManager.unsubscribe(socket, message.subscriptionId!)) {
+            sendError('Subscription not found', { subscriptionId: message.subscriptionId });
+            return;
           }
-        } catch (error) {
-          console.error('[WS] Error handling message:', error);
-          socket.send(
-            JSON.stringify({
-              type: 'error',
-              message: 'Invalid message format',
-            })
-          );
+          send({ type: 'unsubscribed', subscriptionId: message.subscriptionId, orderId: message.orderId });
+          return;
+        }
+
+        const subscription = await resolveSubscription(request, message);
+        if (typeof subscription === 'string') {
+          sendError(subscription, message.channel === 'order' ? { orderId: message.orderId } : {});
+          return;
         }
-      });
+
+        const fromSeq = message.channel === 'order' ? message.fromSeq : undefined;
+        const subscriptionId = wsManager.subscribe(socket, subscription, fromSeq !== undefined);
+
+        // Send confirmation
+        send({ type: 'subscribed', subscriptionId, ...subscription, timestamp: new Date() });
+
+        // Catch up on missed events; live ones are held back until this is done
+        if (message.channel === 'order' && fromSeq !== undefined) {
+          try {
+            const order = (await orderService.getOrderById(message.orderId))!;
+            const events = await orderEventService.getEvents(order.id, fromSeq);
+            wsManager.completeReplay(socket, subscriptionId, order, events);
+          } catch (error) {
+            wsManager.abortReplay(socket);
+            throw error;
+          }
+        }
+      } catch (error) {
+        console.error('[WS] Error handling message:', error);
+        sendError('Failed to handle message');
+      }
+    });
 
     socket.on('close', () => {
+      wsManager.disconnect(socket);
       console.log('[WS] Client disconnected');
     });
 
@@ -129,7 +362,7 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
 
   /**
    * GET /api/orders
-   * Get all orders with pagination
+   * Get the caller's orders (every order for admin keys) with pagination
    */
   fastify.get(
     '/api/orders',
@@ -138,7 +371,8 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
         const limit = Math.min(parseInt(request.query.limit || '50'), 100);
         const offset = parseInt(request.query.offset || '0');
 
-        const result = await orderService.getAllOrders(limit, offset);
+        const { admin, accountId } = request.auth!;
+        const result = await orderService.getAllOrders(limit, offset, admin ? undefined : accountId!);
 
         return reply.send({
           success: true,
@@ -152,6 +386,39 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * GET /api/orders/by-client-id/:clientOrderId
+   * Get an order by the caller's own ID; admin keys name the account with ?accountId=
+   */
+  fastify.get(
+    '/api/orders/by-client-id/:clientOrderId',
+    async (
+      request: FastifyRequest<{ Params: { clientOrderId: string }; Querystring: { accountId?: string } }>,
+      reply: FastifyReply
+    ) => {
+      try {
+        const auth = request.auth!;
+        const accountId = auth.accountId ?? request.query.accountId;
+        if (!accountId) {
+          return reply.code(400).send({
+            success: false,
+            error: 'accountId is required for keys without an account',
+          });
+        }
+
+        const order = await orderService.getOrderByClientOrderId(accountId, request.params.clientOrderId);
+        if (!order || !canAccessOrder(auth, order)) {
+          return reply.code(404).send({ success: false, error: 'Order not found' });
+        }
+
+        return reply.send({ success: true, data: order });
+      } catch (error) {
+        console.error('[API] Error fetching order by client ID:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to fetch order' });
+      }
+    }
+  );
+
   /**
    * GET /api/orders/:id
    * Get specific order by ID
@@ -160,7 +427,7 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
     '/api/orders/:id',
     async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
       try {
-        const order = await orderService.getOrderById(request.params.id);
+        const order = await getVisibleOrder(request, request.params.id);
 
         if (!order) {
           return reply.code(404).send({ success: false, error: 'Order not found' });
@@ -174,35 +441,164 @@ export async function registerOrderRoutes(fastify: FastifyInstance) {
     }
   );
 
+  /**
+   * GET /api/orders/:id/fills
+   * Get the executed fills of an order, oldest first
+   */
+  fastify.get(
+    '/api/orders/:id/fills',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const order = await getVisibleOrder(request, request.params.id);
+
+        if (!order) {
+          return reply.code(404).send({ success: false, error: 'Order not found' });
+        }
+
+        return reply.send({
+          success: true,
+          data: {
+            orderId: order.id,
+            filledAmount: order.filledAmount,
+            remainingAmount: order.remainingAmount,
+            averagePrice: order.averagePrice ?? null,
+            fills: await orderService.getFills(order.id),
+          },
+        });
+      } catch (error) {
+        console.error('[API] Error fetching fills:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to fetch fills' });
+      }
+    }
+  );
+
+  /**
+   * GET /api/orders/:id/history
+   * Get the audit trail of an order's status changes, oldest first
+   */
+  fastify.get(
+    '/api/orders/:id/history',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const order = await getVisibleOrder(request, request.params.id);
+
+        if (!order) {
+          return reply.code(404).send({ success: false, error: 'Order not found' });
+        }
+
+        return reply.send({
+          success: true,
+          data: {
+            orderId: order.id,
+            status: order.status,
+            history: await orderService.getOrderHistory(order.id),
+          },
+        });
+      } catch (error) {
+        console.error('[API] Error fetching order history:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to fetch order history' });
+      }
+    }
+  );
+
+  /**
+   * DELETE /api/orders/:id
+   * Cancel an order that has not started executing
+   */
+  fastify.delete(
+    '/api/orders/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        if (!(await getVisibleOrder(request, request.params.id))) {
+          return reply.code(404).send({ success: false, code: 'NOT_FOUND', error: 'Order not found' });
+        }
+
+        const result = await orderManagementService.cancelOrder(
+          request.params.id,
+          'Cancelled by user',
+          getActor(request.auth!)
+        );
+        return sendModifyResult(reply, result);
+      } catch (error) {
+        console.error('[API] Error cancelling order:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to cancel order' });
+      }
+    }
+  );
+
+  /**
+   * PATCH /api/orders/:id
+   * Amend limitPrice, amountIn, slippage or expiresAt of an order that has not started executing
+   */
+  fastify.patch(
+    '/api/orders/:id',
+    async (request: FastifyRequest<{ Params: { id: string } }>, reply: FastifyReply) => {
+      try {
+        const validationResult = AmendOrderSchema.safeParse(request.body);
+        if (!validationResult.success) {
+          return reply.code(400).send({
+            success: false,
+            error: 'Invalid request body',
+            details: validationResult.error.errors,
+          });
+        }
+
+        if (!(await getVisibleOrder(request, request.params.id))) {
+          return reply.code(404).send({ success: false, code: 'NOT_FOUND', error: 'Order not found' });
+        }
+
+        const result = await orderManagementService.amendOrder(
+          request.params.id,
+          validationResult.data,
+          getActor(request.auth!)
+        );
+        return sendModifyResult(reply, result);
+      } catch (error) {
+        console.error('[API] Error amending order:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to amend order' });
+      }
+    }
+  );
+
   /**
    * GET /api/stats
-   * Get system statistics
+   * Get system statistics (admin)
    */
-  fastify.get('/api/stats', async (_request: FastifyRequest, reply: FastifyReply) => {
-    try {
-      const orderStats = await orderService.getStatistics();
-      const queueStats = await getQueueStats();
+  fastify.get(
+    '/api/stats',
+    { config: { auth: 'admin' } },
+    async (_request: FastifyRequest, reply: FastifyReply) => {
+      try {
+        const orderStats = await orderService.getStatistics();
+        const queueStats = await getQueueStats();
 
-      return reply.send({
-        success: true,
-        data: {
-          orders: orderStats,
-          queue: queueStats,
-        },
-      });
-    } catch (error) {
-      console.error('[API] Error fetching stats:', error);
-      return reply.code(500).send({ success: false, error: 'Failed to fetch stats' });
+        return reply.send({
+          success: true,
+          data: {
+            orders: orderStats,
+            queue: queueStats,
+            books: priceTickEngine.getStats(),
+            admission: admissionService.getStats(),
+            websocket: wsManager.getStats(),
+            venues: venueHealthTracker.getAllStats(dexRegistry.getEnabledVenues()),
+          },
+        });
+      } catch (error) {
+        console.error('[API] Error fetching stats:', error);
+        return reply.code(500).send({ success: false, error: 'Failed to fetch stats' });
+      }
     }
-  });
+  );
 
   /**
    * GET /health
-   * Health check
+   * Health check; degraded while any enabled venue's circuit is open
    */
   fastify.get('/health', async (_request: FastifyRequest, reply: FastifyReply) => {
+    const venues = venueHealthTracker.getAllStats(dexRegistry.getEnabledVenues());
     return reply.send({
-      status: 'ok',
+      status: venues.some((venue) => venue.circuit === 'open') ? 'degraded' : 'ok',
+      venues: venues.map(({ name, status, circuit }) => ({ name, status, circuit })),
       timestamp: new Date(),
     });
   });
@@ -6,7 +6,17 @@ import fastifyStatic from '@fastify/static';
 import fastifyCors from '@fastify/cors';
 import path from 'path';
 import { registerOrderRoutes } from './routes/orders';
-import { setupOrderWorker } from './queue/orderQueue';
+import { registerAdminRoutes } from './routes/admin';
+import { registerDexRoutes } from './routes/dexes';
+import { registerAccountRoutes } from './routes/accounts';
+import { authPlugin } from './plugins/auth';
+import { rateLimitPlugin } from './plugins/rateLimit';
+import { setupOrderWorker } from './queue/orderWorker';
+import { sniperOrderService } from './services/sniperOrderService';
+import { orderRecoveryService } from './services/orderRecoveryService';
+import { orderService, RESTING_STATUSES } from './services/orderService';
+import { priceTickEngine } from './market/PriceTickEngine';
+import { marketSimulator } from './dex/MarketSimulator';
 import prisma from './db/prisma';
 
 const PORT = parseInt(process.env.PORT || '3000', 10);
@@ -33,18 +43,42 @@ async function start() {
       prefix: '/',
     });
 
+    // API-key authentication for every /api route
+    await fastify.register(authPlugin);
+
+    // Per-key request rate limits
+    await fastify.register(rateLimitPlugin);
+
     // Register order routes
     await registerOrderRoutes(fastify);
+    await registerAdminRoutes(fastify);
+    await registerDexRoutes(fastify);
+    await registerAccountRoutes(fastify);
+
+    // Start the simulated market behind the mock DEX venues
+    marketSimulator.start();
+
+    // Settle or re-enqueue orders a previous run left in flight, before a worker can pick them up
+    await orderRecoveryService.recoverStuckOrders();
 
     // Setup queue worker
     const worker = await setupOrderWorker();
 
+    // Re-arm sniper orders and listen for pool events
+    await sniperOrderService.start();
+
+    // Restore resting limit orders and start the shared price-tick loop
+    priceTickEngine.start(await orderService.getOrdersByStatus(RESTING_STATUSES));
+
     // Start server
     await fastify.listen({ port: PORT, host: HOST });
 
     console.log(`Server running at http://localhost:${PORT}`);
     console.log(`POST /api/orders/execute to submit orders`);
     console.log(`GET /api/stats for system statistics`);
+    console.log(`GET /api/dexes for registered venues`);
+    console.log(`POST /api/accounts to open a funded account`);
+    console.log(`POST /api/admin/pools to simulate pool creation`);
     console.log(`GET /health for health check`);
 
     // Graceful shutdown
@@ -52,6 +86,8 @@ async function start() {
     signals.forEach((signal) => {
       process.on(signal, async () => {
         console.log(`\nReceived ${signal}, shutting down gracefully...`);
+        priceTickEngine.stop();
+        marketSimulator.stop();
         await worker.close();
         await fastify.close();
         await prisma.$disconnect();
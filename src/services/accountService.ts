@@ -0,0 +1,153 @@
+// src/services/accountService.ts
+
+import { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { InsufficientBalanceError } from '../errors';
+import { Account, Balance, Order, Reservation } from '../types';
+
+export class AccountService {
+  /**
+   * Create an account, optionally funded with opening balances
+   */
+  async createAccount(name: string, balances: Record<string, number> = {}): Promise<Account> {
+    const account = await prisma.account.create({
+      data: {
+        name,
+        balances: {
+          create: Object.entries(balances).map(([token, available]) => ({ token, available })),
+        },
+      },
+      include: { balances: true },
+    });
+
+    return account as Account;
+  }
+
+  /**
+   * Get account by ID with its balances
+   */
+  async getAccountById(id: string): Promise<Account | null> {
+    const account = await prisma.account.findUnique({
+      where: { id },
+      include: { balances: { orderBy: { token: 'asc' } } },
+    });
+
+    return account as Account | null;
+  }
+
+  /**
+   * Credit tokens to an account's available balance
+   */
+  async deposit(accountId: string, token: string, amount: number): Promise<Balance> {
+    const balance = await prisma.balance.upsert({
+      where: { accountId_token: { accountId, token } },
+      create: { accountId, token, available: amount },
+      update: { available: { increment: amount } },
+    });
+
+    return balance as Balance;
+  }
+
+  /**
+   * Move amount from available to reserved. Returns false, reserving nothing,
+   * when the available balance is too small.
+   */
+  async reserve(accountId: string, { token, amount }: Reservation): Promise<boolean> {
+    // Conditional update so concurrent orders cannot reserve the same funds
+    const { count } = await prisma.balance.updateMany({
+      where: { accountId, token, available: { gte: amount } },
+      data: { available: { decrement: amount }, reserved: { increment: amount } },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Return reserved funds to the available balance, in the caller's
+   * transaction when given one
+   */
+  async release(
+    accountId: string,
+    { token, amount }: Reservation,
+    tx: Prisma.TransactionClient = prisma
+  ): Promise<void> {
+    if (amount <= 0) {
+      return;
+    }
+
+    // Conditional update, as in reserve, so reserved never goes negative
+    const { count } = await tx.balance.updateMany({
+      where: { accountId, token, reserved: { gte: amount } },
+      data: { available: { increment: amount }, reserved: { decrement: amount } },
+    });
+    if (count === 0) {
+      console.error(`[ACCOUNT] Account ${accountId} holds less than ${amount} ${token} in reserve; nothing released`);
+    }
+  }
+
+  /**
+   * Release whatever the order still holds, once, when it can no longer fill.
+   * Runs in the caller's transaction, so it commits together with the status
+   * that ends the order.
+   */
+  async releaseOrder(order: Order, tx: Prisma.TransactionClient): Promise<void> {
+    if (order.reservedAmount <= 0) {
+      return;
+    }
+
+    // Conditional update so a release racing a settlement or another release only counts once
+    const { count } = await tx.order.updateMany({
+      where: { id: order.id, reservedAmount: order.reservedAmount },
+      data: { reservedAmount: 0 },
+    });
+    if (count === 0) {
+      const latest = await tx.order.findUnique({ where: { id: order.id } });
+      return latest ? this.releaseOrder(latest as Order, tx) : undefined;
+    }
+
+    await this.release(order.accountId, { token: this.getReservedToken(order), amount: order.reservedAmount }, tx);
+  }
+
+  /**
+   * Settle an execution of amount at price: pay from the order's reservation
+   * (and from the available balance should the fill cost more than was held)
+   * and credit what was bought or the sale proceeds. Runs in the caller's
+   * transaction, so it commits together with the fill, and throws
+   * InsufficientBalanceError rather than let a balance go negative.
+   */
+  async settleFill(order: Order, amount: number, price: number, tx: Prisma.TransactionClient): Promise<void> {
+    const { accountId, tokenIn, tokenOut } = order;
+    const [spent, received, receivedToken] =
+      order.side === 'SELL' ? [amount, amount * price, tokenOut] : [amount * price, amount, tokenIn];
+    const fromReserve = Math.min(spent, order.reservedAmount);
+    const token = this.getReservedToken(order);
+
+    // Conditional updates, as in reserve, so neither the hold nor the balance is overdrawn
+    const held = await tx.order.updateMany({
+      where: { id: order.id, reservedAmount: { gte: fromReserve } },
+      data: { reservedAmount: { decrement: fromReserve } },
+    });
+    const paid = await tx.balance.updateMany({
+      where: { accountId, token, reserved: { gte: fromReserve }, available: { gte: spent - fromReserve } },
+      data: { reserved: { decrement: fromReserve }, available: { decrement: spent - fromReserve } },
+    });
+    if (held.count === 0 || paid.count === 0) {
+      throw new InsufficientBalanceError(accountId, token, spent);
+    }
+
+    await tx.balance.upsert({
+      where: { accountId_token: { accountId, token: receivedToken } },
+      create: { accountId, token: receivedToken, available: received },
+      update: { available: { increment: received } },
+    });
+  }
+
+  /**
+   * Token an order pays with: sells spend tokenIn, buys spend tokenOut
+   */
+  getReservedToken(order: Pick<Order, 'side' | 'tokenIn' | 'tokenOut'>): string {
+    return order.side === 'SELL' ? order.tokenIn : order.tokenOut;
+  }
+}
+
+export const accountService = new AccountService();
@@ -0,0 +1,166 @@
+// src/services/admissionService.ts
+
+import prisma from '../db/prisma';
+import { getQueueStats } from '../queue/orderQueue';
+import { IN_FLIGHT_STATUSES } from './orderService';
+import { AdmissionResult } from '../types';
+
+// Sustained rate and burst of API requests per key (rate 0 disables)
+export const RATE_LIMIT_REQUESTS_PER_SEC = parseFloat(process.env.RATE_LIMIT_REQUESTS_PER_SEC || '20');
+export const RATE_LIMIT_REQUESTS_BURST = parseInt(process.env.RATE_LIMIT_REQUESTS_BURST || '40');
+// Sustained rate and burst of order submissions per key (rate 0 disables)
+export const RATE_LIMIT_ORDERS_PER_SEC = parseFloat(process.env.RATE_LIMIT_ORDERS_PER_SEC || '5');
+export const RATE_LIMIT_ORDERS_BURST = parseInt(process.env.RATE_LIMIT_ORDERS_BURST || '10');
+// Waiting and delayed jobs beyond which new orders are turned away (0 disables)
+export const QUEUE_MAX_DEPTH = parseInt(process.env.QUEUE_MAX_DEPTH || '1000');
+// How long a queue depth reading is reused, so admission does not poll Redis per request
+export const QUEUE_DEPTH_CACHE_MS = parseInt(process.env.QUEUE_DEPTH_CACHE_MS || '1000');
+// In-flight orders an account may have at once (0 disables)
+export const ACCOUNT_MAX_INFLIGHT_ORDERS = parseInt(process.env.ACCOUNT_MAX_INFLIGHT_ORDERS || '10');
+// Retry-After sent when the queue or an account's in-flight orders are full
+export const ADMISSION_RETRY_AFTER_MS = parseInt(process.env.ADMISSION_RETRY_AFTER_MS || '1000');
+
+/**
+ * Token bucket holding up to burst tokens, refilled at ratePerSec
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly ratePerSec: number,
+    private readonly burst: number,
+    now: number = Date.now()
+  ) {
+    this.tokens = burst;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Take a token. Returns 0 when one was available, otherwise the ms until one is.
+   */
+  take(now: number = Date.now()): number {
+    this.tokens = Math.min(this.burst, this.tokens + ((now - this.updatedAt) * this.ratePerSec) / 1000);
+    this.updatedAt = now;
+
+    if (this.tokens >= 1) {
+      this.tokens -= 1;
+      return 0;
+    }
+    return Math.ceil(((1 - this.tokens) * 1000) / this.ratePerSec);
+  }
+}
+
+/**
+ * Admission control in front of the order queue: per-key token buckets for
+ * requests and submissions, a global queue depth threshold, and a cap on each
+ * account's in-flight orders. Buckets live in memory, so limits are per instance.
+ */
+export class AdmissionService {
+  private requestBuckets = new Map<string, TokenBucket>();
+  private orderBuckets = new Map<string, TokenBucket>();
+  private queueDepth: { value: number; readAt: number } | null = null;
+  private counters = { admitted: 0, rateLimited: 0, queueFull: 0, concurrencyLimited: 0 };
+
+  /**
+   * Check an API request against its key's request bucket
+   */
+  checkRequest(keyId: string): AdmissionResult {
+    const result = this.takeToken(
+      this.requestBuckets,
+      keyId,
+      RATE_LIMIT_REQUESTS_PER_SEC,
+      RATE_LIMIT_REQUESTS_BURST
+    );
+    if (!result.success) {
+      this.counters.rateLimited++;
+    }
+    return result;
+  }
+
+  /**
+   * Decide whether a new order may enter the queue
+   */
+  async admitOrder(keyId: string, accountId: string): Promise<AdmissionResult> {
+    const rateLimit = this.takeToken(this.orderBuckets, keyId, RATE_LIMIT_ORDERS_PER_SEC, RATE_LIMIT_ORDERS_BURST);
+    if (!rateLimit.success) {
+      this.counters.rateLimited++;
+      return rateLimit;
+    }
+
+    if (QUEUE_MAX_DEPTH > 0 && (await this.getQueueDepth()) >= QUEUE_MAX_DEPTH) {
+      this.counters.queueFull++;
+      return {
+        success: false,
+        code: 'QUEUE_FULL',
+        error: 'Order queue is at capacity',
+        retryAfterMs: ADMISSION_RETRY_AFTER_MS,
+      };
+    }
+
+    if (ACCOUNT_MAX_INFLIGHT_ORDERS > 0) {
+      const inFlight = await prisma.order.count({
+        where: { accountId, status: { in: IN_FLIGHT_STATUSES } },
+      });
+      if (inFlight >= ACCOUNT_MAX_INFLIGHT_ORDERS) {
+        this.counters.concurrencyLimited++;
+        return {
+          success: false,
+          code: 'CONCURRENCY_LIMIT',
+          error: `Account already has ${inFlight} orders in flight`,
+          retryAfterMs: ADMISSION_RETRY_AFTER_MS,
+        };
+      }
+    }
+
+    this.counters.admitted++;
+    return { success: true };
+  }
+
+  getStats() {
+    return {
+      ...this.counters,
+      keys: this.requestBuckets.size,
+      queueDepth: this.queueDepth?.value ?? null,
+      limits: {
+        requestsPerSec: RATE_LIMIT_REQUESTS_PER_SEC,
+        ordersPerSec: RATE_LIMIT_ORDERS_PER_SEC,
+        queueMaxDepth: QUEUE_MAX_DEPTH,
+        accountMaxInflightOrders: ACCOUNT_MAX_INFLIGHT_ORDERS,
+      },
+    };
+  }
+
+  private takeToken(
+    buckets: Map<string, TokenBucket>,
+    keyId: string,
+    ratePerSec: number,
+    burst: number
+  ): AdmissionResult {
+    if (ratePerSec <= 0) {
+      return { success: true };
+    }
+
+    let bucket = buckets.get(keyId);
+    if (!bucket) {
+      bucket = new TokenBucket(ratePerSec, burst);
+      buckets.set(keyId, bucket);
+    }
+
+    const retryAfterMs = bucket.take();
+    if (retryAfterMs > 0) {
+      return { success: false, code: 'RATE_LIMITED', error: 'Rate limit exceeded', retryAfterMs };
+    }
+    return { success: true };
+  }
+
+  private async getQueueDepth(): Promise<number> {
+    if (!this.queueDepth || Date.now() - this.queueDepth.readAt >= QUEUE_DEPTH_CACHE_MS) {
+      const { waiting, delayed } = await getQueueStats();
+      this.queueDepth = { value: waiting + delayed, readAt: Date.now() };
+    }
+    return this.queueDepth.value;
+  }
+}
+
+export const admissionService = new AdmissionService();
@@ -0,0 +1,127 @@
+// src/services/authService.ts
+
+import crypto from 'crypto';
+import prisma from '../db/prisma';
+import { ApiKeyCredentials, AuthContext } from '../types';
+
+// Bootstrap admin keys; having no stored secret, they sign requests with the key itself
+export const ADMIN_API_KEYS = (process.env.ADMIN_API_KEYS || '')
+  .split(',')
+  .map((key) => key.trim())
+  .filter(Boolean);
+// Reject requests that are not HMAC-signed, instead of only verifying signed ones
+export const AUTH_REQUIRE_SIGNATURE = process.env.AUTH_REQUIRE_SIGNATURE === 'true';
+// Oldest (or furthest in the future) x-timestamp a signed request may carry
+export const AUTH_SIGNATURE_MAX_AGE_MS = parseInt(process.env.AUTH_SIGNATURE_MAX_AGE_MS || '30000');
+
+export interface SignedRequest {
+  method: string;
+  url: string;
+  body: string;
+  timestamp?: string;
+  signature?: string;
+}
+
+/**
+ * Signature a client sends in x-signature: hex HMAC-SHA256 with the key's
+ * secret over timestamp, method, path with query and raw body
+ */
+export function signRequest(
+  secret: string,
+  timestamp: string,
+  method: string,
+  url: string,
+  body: string = ''
+): string {
+  return crypto
+    .createHmac('sha256', secret)
+    .update(`${timestamp}${method.toUpperCase()}${url}${body}`)
+    .digest('hex');
+}
+
+export class AuthService {
+  /**
+   * Create a key for an account, or an admin key. The key and secret are
+   * only returned here; the key is stored hashed.
+   */
+  async issueKey(accountId: string | null, admin: boolean = false): Promise<ApiKeyCredentials> {
+    const apiKey = `oek_${crypto.randomBytes(24).toString('hex')}`;
+    const secret = crypto.randomBytes(32).toString('hex');
+
+    const key = await prisma.apiKey.create({
+      data: { accountId, keyHash: this.hash(apiKey), secret, admin },
+    });
+
+    return { id: key.id, accountId, admin, apiKey, secret };
+  }
+
+  /**
+   * Revoke a key. Returns false when it does not exist or is already revoked.
+   */
+  async revokeKey(id: string): Promise<boolean> {
+    const { count } = await prisma.apiKey.updateMany({
+      where: { id, revokedAt: null },
+      data: { revokedAt: new Date() },
+    });
+
+    return count > 0;
+  }
+
+  /**
+   * Resolve an API key to the caller's identity, verifying the request's
+   * signature when it carries one or signatures are required
+   */
+  async authenticate(apiKey: string, request: SignedRequest): Promise<AuthContext | null> {
+    const key = await this.findKey(apiKey);
+    if (!key) {
+      return null;
+    }
+
+    if ((request.signature || AUTH_REQUIRE_SIGNATURE) && !this.verifySignature(key.secret, request)) {
+      return null;
+    }
+
+    return key.context;
+  }
+
+  private async findKey(apiKey: string): Promise<{ context: AuthContext; secret: string } | null> {
+    if (ADMIN_API_KEYS.includes(apiKey)) {
+      return {
+        context: { keyId: `env:${this.hash(apiKey).slice(0, 8)}`, accountId: null, admin: true },
+        secret: apiKey,
+      };
+    }
+
+    const key = await prisma.apiKey.findUnique({ where: { keyHash: this.hash(apiKey) } });
+    if (!key || key.revokedAt) {
+      return null;
+    }
+
+    return {
+      context: { keyId: key.id, accountId: key.accountId, admin: key.admin },
+      secret: key.secret,
+    };
+  }
+
+  private verifySignature(secret: string, request: SignedRequest): boolean {
+    const { method, url, body, timestamp, signature } = request;
+    if (!timestamp || !signature) {
+      return false;
+    }
+
+    const age = Math.abs(Date.now() - Number(timestamp));
+    if (!Number.isFinite(age) || age > AUTH_SIGNATURE_MAX_AGE_MS) {
+      return false;
+    }
+
+    const expected = Buffer.from(signRequest(secret, timestamp, method, url, body), 'hex');
+    const received = Buffer.from(signature, 'hex');
+    return expected.length === received.length && crypto.timingSafeEqual(expected, received);
+  }
+
+  private hash(apiKey: string): string {
+    return crypto.createHash('sha256').update(apiKey).digest('hex');
+  }
+}
+
+export const authService = new AuthService();
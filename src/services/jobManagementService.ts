@@ -0,0 +1,274 @@
+// src/services/jobManagementService.ts
+
+import { Job } from 'bullmq';
+import { IN_FLIGHT_STATUSES, orderService } from './orderService';
+import { accountService } from './accountService';
+import { riskService } from './riskService';
+import {
+  addOrderToQueue,
+  buildJobData,
+  deadLetterQueue,
+  getQueuedOrderIds,
+  ordersQueue,
+} from '../queue/orderQueue';
+import {
+  DeadLetterData,
+  JobData,
+  Order,
+  OrderErrorCode,
+  QueueJobDetail,
+  QueueJobState,
+  QueueJobSummary,
+} from '../types';
+
+export type RetryJobResult =
+  | { success: true; jobId: string; order: Order }
+  | { success: false; code: 'NOT_FOUND' | 'NOT_RETRYABLE' | 'INSUFFICIENT_BALANCE'; error: string };
+
+// Failures after swaps may have landed; executing such an order again could fill it twice
+const MANUAL_SETTLEMENT_CODES: OrderErrorCode[] = [
+  'PARTIAL_EXECUTION',
+  'EXECUTION_INTERRUPTED',
+  'INSUFFICIENT_BALANCE',
+];
+
+export type PurgeableJobState = Extract<QueueJobState, 'failed' | 'dead'>;
+
+type QueueJob = Job<JobData> | Job<DeadLetterData>;
+
+/**
+ * Inspection and maintenance of the order queue and its dead-letter queue
+ */
+export class JobManagementService {
+  /**
+   * Jobs in state, newest first, with the order each is for
+   */
+  async listJobs(state: QueueJobState, limit: number = 50): Promise<QueueJobSummary[]> {
+    const jobs = await this.getJobs(state, limit);
+    const orders = await orderService.getOrdersByIds([...new Set(jobs.map((job) => job.data.orderId))]);
+    const ordersById = new Map(orders.map((order) => [order.id, order]));
+
+    return jobs.map((job) => this.summarize(job, state, ordersById.get(job.data.orderId) ?? null));
+  }
+
+  /**
+   * A job of either queue with its payload and failure stack
+   */
+  async getJob(id: string): Promise<QueueJobDetail | null> {
+    const found = await this.findJob(id);
+    if (!found) {
+      return null;
+    }
+
+    const { job, state } = found;
+    const order = await orderService.getOrderById(job.data.orderId);
+    const { jobId, jobName, attempts, attemptsMade, failedReason, stacktrace, enqueuedAt, failedAt, ...data } =
+      job.data as DeadLetterData;
+
+    return {
+      ...this.summarize(job, state, order),
+      data,
+      stacktrace: state === 'dead' ? stacktrace : job.stacktrace ?? [],
+    };
+  }
+
+  /**
+   * Enqueue a failed or dead-lettered job again with fresh attempts, replacing
+   * it. A failed order goes back to pending, holding its remainder's balance
+   * again, unless it failed after swaps may have landed and needs manual
+   * settlement. An order still waiting to be executed is enqueued as it is.
+   * Terminal orders are skipped by the worker, and resting or armed ones are
+   * enqueued when their price or pool arrives, so neither can be retried.
+   */
+  async retryJob(id: string, actor: string = 'system'): Promise<RetryJobResult> {
+    const found = await this.findJob(id);
+    if (!found) {
+      return { success: false, code: 'NOT_FOUND', error: 'Job not found' };
+    }
+
+    const { job, state } = found;
+    if (state !== 'failed' && state !== 'dead') {
+      return {
+        success: false,
+        code: 'NOT_RETRYABLE',
+        error: `Only failed or dead-lettered jobs can be retried (state: ${state})`,
+      };
+    }
+
+    const existing = await orderService.getOrderById(job.data.orderId);
+    if (!existing) {
+      return { success: false, code: 'NOT_FOUND', error: `Order ${job.data.orderId} not found` };
+    }
+    if (existing.status === 'failed' && existing.errorCode && MANUAL_SETTLEMENT_CODES.includes(existing.errorCode)) {
+      return {
+        success: false,
+        code: 'NOT_RETRYABLE',
+        error: `Order ${existing.id} failed with ${existing.errorCode} and needs manual settlement`,
+      };
+    }
+    if (existing.status !== 'failed' && !IN_FLIGHT_STATUSES.includes(existing.status)) {
+      return {
+        success: false,
+        code: 'NOT_RETRYABLE',
+        error: `Order ${existing.id} is no longer waiting to be executed (status: ${existing.status})`,
+      };
+    }
+    if ((await getQueuedOrderIds()).has(existing.id)) {
+      return { success: false, code: 'NOT_RETRYABLE', error: `Order ${existing.id} already has a queued job` };
+    }
+
+    const jobId = `${existing.id}-retry-${Date.now()}`;
+    const reason = `Job ${id} retried as ${jobId}`;
+    let order = existing;
+    if (existing.status === 'failed') {
+      const reopened = await this.reopenOrder(existing, reason, actor);
+      if (!reopened.success) {
+        return reopened;
+      }
+      order = reopened.order;
+    } else {
+      await orderService.recordAction(order.id, reason, actor);
+    }
+
+    await addOrderToQueue(order.id, buildJobData(order), jobId);
+    await job.remove();
+
+    console.log(`[JOBS] Job ${id} of order ${order.id} retried as ${jobId} by ${actor}`);
+
+    return { success: true, jobId, order };
+  }
+
+  /**
+   * Remove failed or dead-lettered jobs that failed at least olderThanMs ago.
+   * Returns the number removed.
+   */
+  async purgeJobs(state: PurgeableJobState, olderThanMs: number, actor: string = 'system'): Promise<number> {
+    const cutoff = Date.now() - olderThanMs;
+    const jobs = (await this.getJobs(state)).filter((job) => (this.getFailedAt(job, state) ?? 0) <= cutoff);
+
+    for (const job of jobs) {
+      await job.remove();
+      await orderService.recordAction(
+        job.data.orderId,
+        `${state === 'dead' ? 'Dead-lettered' : 'Failed'} job ${job.id} purged`,
+        actor
+      );
+    }
+
+    console.log(`[JOBS] Purged ${jobs.length} ${state} job(s) older than ${olderThanMs}ms by ${actor}`);
+
+    return jobs.length;
+  }
+
+  /**
+   * Stop workers taking new jobs, across every engine process; active jobs
+   * finish. Recorded in the history of every order left waiting in the queue.
+   */
+  async pauseQueue(actor: string = 'system'): Promise<void> {
+    await ordersQueue.pause();
+    const held = await this.recordOnQueuedOrders('Order queue paused', actor);
+    console.log(`[JOBS] Order queue paused by ${actor}, ${held} queued order(s) held`);
+  }
+
+  async resumeQueue(actor: string = 'system'): Promise<void> {
+    await ordersQueue.resume();
+    const released = await this.recordOnQueuedOrders('Order queue resumed', actor);
+    console.log(`[JOBS] Order queue resumed by ${actor}, ${released} queued order(s) released`);
+  }
+
+  /**
+   * Reserve the balance a failed order's remainder needs, its earlier hold
+   * having been released when it failed, and move it back to pending
+   */
+  private async reopenOrder(
+    order: Order,
+    reason: string,
+    actor: string
+  ): Promise<{ success: true; order: Order } | Extract<RetryJobResult, { success: false }>> {
+    const reservation = riskService.getReservation(order, order.remainingAmount);
+    if (!(await accountService.reserve(order.accountId, reservation))) {
+      return {
+        success: false,
+        code: 'INSUFFICIENT_BALANCE',
+        error: `Insufficient ${reservation.token} balance: ${reservation.amount} required to retry order ${order.id}`,
+      };
+    }
+
+    const reopened = await orderService.reopenOrder(order.id, reservation.amount, reason, actor);
+    if (!reopened) {
+      await accountService.release(order.accountId, reservation);
+      return { success: false, code: 'NOT_RETRYABLE', error: `Order ${order.id} is no longer failed` };
+    }
+
+    return { success: true, order: reopened };
+  }
+
+  /**
+   * Record an action in the history of every order with a job waiting to run.
+   * Returns the number of orders.
+   */
+  private async recordOnQueuedOrders(reason: string, actor: string): Promise<number> {
+    const jobs: Job<JobData>[] = await ordersQueue.getJobs(['waiting', 'prioritized', 'delayed']);
+    const orderIds = [...new Set(jobs.filter(Boolean).map((job) => job.data.orderId))];
+
+    for (const orderId of orderIds) {
+      await orderService.recordAction(orderId, reason, actor);
+    }
+    return orderIds.length;
+  }
+
+  private async getJobs(state: QueueJobState, limit?: number): Promise<QueueJob[]> {
+    const end = limit ? limit - 1 : -1;
+    const jobs: QueueJob[] =
+      state === 'dead'
+        ? await deadLetterQueue.getJobs(['waiting'], 0, end)
+        : await ordersQueue.getJobs(state === 'waiting' ? ['waiting', 'prioritized'] : [state], 0, end);
+
+    return jobs.filter(Boolean);
+  }
+
+  private async findJob(id: string): Promise<{ job: QueueJob; state: QueueJobState } | null> {
+    const job = await ordersQueue.getJob(id);
+    if (job) {
+      const state = await job.getState();
+      if (state === 'unknown' || state === 'completed') {
+        return null;
+      }
+      return { job, state: state === 'failed' || state === 'active' || state === 'delayed' ? state : 'waiting' };
+    }
+
+    const deadLetter = await deadLetterQueue.getJob(id);
+    return deadLetter ? { job: deadLetter, state: 'dead' } : null;
+  }
+
+  private getFailedAt(job: QueueJob, state: QueueJobState): number | undefined {
+    return state === 'dead' ? (job.data as DeadLetterData).failedAt : job.finishedOn;
+  }
+
+  private summarize(job: QueueJob, state: QueueJobState, order: Order | null): QueueJobSummary {
+    const deadLetter = state === 'dead' ? (job.data as DeadLetterData) : null;
+    const failedAt = this.getFailedAt(job, state);
+
+    return {
+      id: job.id!,
+      name: job.name,
+      state,
+      orderId: job.data.orderId,
+      attemptsMade: deadLetter?.attemptsMade ?? job.attemptsMade,
+      attempts: deadLetter?.attempts ?? job.opts.attempts ?? 1,
+      failedReason: deadLetter?.failedReason ?? (job.failedReason || undefined),
+      createdAt: new Date(deadLetter?.enqueuedAt ?? job.timestamp),
+      processedAt: job.processedOn ? new Date(job.processedOn) : undefined,
+      finishedAt: failedAt ? new Date(failedAt) : undefined,
+      order: order && {
+        id: order.id,
+        type: order.type,
+        status: order.status,
+        errorCode: order.errorCode,
+        errorReason: order.errorReason,
+      },
+    };
+  }
+}
+
+export const jobManagementService = new JobManagementService();
@@ -1,178 +1,192 @@
 // src/services/limitOrderService.ts
 
-import { MockDexRouter } from '../dex/MockDexRouter';
-import { orderService } from './orderService';
-import { wsManager } from '../websocket/wsManager';
-import { Order, WebSocketMessage } from '../types';
-
-export class LimitOrderService {
-  private dexRouter: MockDexRouter;
-  private maxRetries = 3;
-  private retryDelayMs = 3000;
-
-  constructor() {
-    this.dexRouter = new MockDexRouter();
-  }
+import { OrderExecutor } from './orderExecutor';
+import { RESTING_STATUSES } from './orderService';
+import { priceTickEngine } from '../market/PriceTickEngine';
+import { OrderAmendedError, OrderCancelledError, OrderExecutionError, toOrderExecutionError } from '../errors';
+import { ExecutionResult, Order, OrderErrorCode, RouteOptions } from '../types';
 
+export class LimitOrderService extends OrderExecutor {
   /**
-   * Process limit order through its full lifecycle
+   * Check a limit order once: execute if the price is hit, otherwise rest or
+   * expire according to its time-in-force. Resting orders wait in the price-tick
+   * engine's book, which re-enqueues them once crossed or expired. Except for FOK,
+   * a fill limited by liquidity leaves the remainder resting (IOC: expiring).
+   * A resting order goes back to the book on a retryable failure; for any
+   * other order those are rethrown while the job has retriesLeft.
    */
-  async processLimitOrder(order: Order): Promise<{
-    success: boolean;
-    executedPrice?: number;
-    txHash?: string;
-    error?: string;
-  }> {
+  async processLimitOrder(order: Order, retriesLeft: number = 0): Promise<ExecutionResult> {
+    const isResting = RESTING_STATUSES.includes(order.status);
     try {
+      const routeOptions: RouteOptions = {
+        side: order.side,
+        allowPartial: order.timeInForce !== 'FOK',
+      };
+
       // Step 1: Routing
-      await this.emitStatus(order.id, 'routing', {
-        message: 'Fetching quotes from DEXes...',
-      });
+      if (!isResting) {
+        await this.emitStatus(order, 'routing', {
+          message: 'Fetching quotes from DEXes...',
+        });
+      }
 
+      // Quote the current size: fixed once routing, still amendable while resting
+      const routed = await this.reloadOrder(order);
       const routeResult = await this.dexRouter.routeOrder(
-        order.tokenIn,
-        order.tokenOut,
-        order.amountIn
+        routed.tokenIn,
+        routed.tokenOut,
+        routed.remainingAmount,
+        routeOptions
       );
 
-      // Step 2: Limit check with retry logic
-      await this.emitStatus(order.id, 'limit_check', {
-        dex: routeResult.selectedDex,
-        price: routeResult.effectivePrice,
-        limitPrice: order.limitPrice,
-      });
-
-      const limitSatisfied = await this.checkLimitWithRetry(
-        order.id,
-        routeResult.effectivePrice,
-        order.limitPrice!
-      );
+      // Pick up cancellations and amendments made while quotes were fetched
+      const latest = await this.reloadOrder(routed);
+      if (latest.remainingAmount !== routed.remainingAmount || latest.limitPrice !== routed.limitPrice) {
+        throw new OrderAmendedError(latest.id);
+      }
 
-      if (!limitSatisfied) {
-        throw new Error(
-          `Limit price not reached after ${this.maxRetries} attempts. Best price: $${routeResult.effectivePrice.toFixed(2)}, Limit: $${order.limitPrice!.toFixed(2)}`
+      // Step 2: Limit check
+      if (!isResting) {
+        await this.emitStatus(
+          latest,
+          'limit_check',
+          {
+            dex: routeResult.selectedDex,
+            price: routeResult.effectivePrice,
+            limitPrice: latest.limitPrice,
+            side: latest.side,
+          },
+          { quote: this.snapshotQuote(routeResult) }
         );
       }
 
-      // Step 3: Building
-      await this.emitStatus(order.id, 'building', {
-        message: 'Building transaction...',
-      });
-      await this.sleep(500);
-
-      // Step 4: Submitted
-      await this.emitStatus(order.id, 'submitted', {
-        message: 'Submitting to network...',
-      });
-
-      // Step 5: Execute swap
-      const swapResult = await this.dexRouter.executeSwap(
-        routeResult.selectedDex,
-        order.id
-      );
+      const limitPrice = latest.limitPrice!;
 
-      // Step 6: Confirmed
-      await this.emitStatus(order.id, 'confirmed', {
-        dex: routeResult.selectedDex,
-        price: swapResult.executedPrice,
-        txHash: swapResult.txHash,
-      });
-
-      await orderService.updateOrderStatus(order.id, 'confirmed', {
-        dex: routeResult.selectedDex,
-        executedPrice: swapResult.executedPrice,
-        txHash: swapResult.txHash,
-      });
-
-      return {
-        success: true,
-        executedPrice: swapResult.executedPrice,
-        txHash: swapResult.txHash,
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      if (!this.dexRouter.checkLimitCondition(routeResult.effectivePrice, limitPrice, latest.side)) {
+        console.log(
+          `[LIMIT CHECK] ${latest.side} order ${latest.id} not crossed. Best: $${routeResult.effectivePrice.toFixed(2)}, Limit: $${limitPrice.toFixed(2)}`
+        );
 
-      await this.emitStatus(order.id, 'failed', {
-        error: errorMessage,
-      });
+        // Immediate orders never rest
+        if (latest.timeInForce === 'IOC' || latest.timeInForce === 'FOK') {
+          return await this.expireOrder(
+            latest,
+            `${latest.timeInForce} limit not reached. Best price: $${routeResult.effectivePrice.toFixed(2)}, Limit: $${limitPrice.toFixed(2)}`,
+            'LIMIT_NOT_REACHED'
+          );
+        }
+
+        if (this.isExpired(latest)) {
+          return await this.expireOrder(latest, 'Limit order expired before price was reached');
+        }
+
+        if (!isResting) {
+          await this.emitStatus(
+            latest,
+            'resting',
+            {
+              price: routeResult.effectivePrice,
+              limitPrice,
+              timeInForce: latest.timeInForce,
+              expiresAt: latest.expiresAt,
+            },
+            { reason: 'Limit price not reached', quote: this.snapshotQuote(routeResult) }
+          );
+        }
+
+        priceTickEngine.addOrder({ ...latest, status: isResting ? latest.status : 'resting' });
+
+        return { success: true, status: isResting ? latest.status : 'resting' };
+      }
 
-      await orderService.updateOrderStatus(order.id, 'failed', {
-        errorReason: errorMessage,
-      });
+      console.log(
+        `[LIMIT CHECK] ${latest.side} order ${latest.id} crossed: $${routeResult.effectivePrice.toFixed(2)} ${latest.side === 'BUY' ? '<=' : '>='} $${limitPrice.toFixed(2)}`
+      );
 
-      return {
-        success: false,
-        error: errorMessage,
-      };
+      // Step 3: Build, submit and confirm
+      const result = await this.executeRoute(latest, routeResult, routeOptions);
+      if (result.status !== 'partially_filled') {
+        return result;
+      }
+
+      return await this.restRemainder(latest, result);
+    } catch (error) {
+      const failure = toOrderExecutionError(error);
+      if (isResting && !(error instanceof OrderCancelledError) && failure.retryable) {
+        try {
+          return await this.rest(order, failure);
+        } catch (restError) {
+          return this.failOrder(order, restError, retriesLeft);
+        }
+      }
+      return this.failOrder(order, error, retriesLeft);
     }
   }
 
   /**
-   * Check limit price with retry logic
+   * Return a resting order to the book after a transient failure that
+   * executed nothing; the price-tick engine re-enqueues it when next crossed
    */
-  private async checkLimitWithRetry(
-    orderId: string,
-    currentPrice: number,
-    limitPrice: number,
-    attempt: number = 1
-  ): Promise<boolean> {
-    if (this.dexRouter.checkLimitCondition(currentPrice, limitPrice)) {
-      console.log(
-        `[LIMIT CHECK] Order ${orderId} passed on attempt ${attempt}: $${currentPrice.toFixed(2)} <= $${limitPrice.toFixed(2)}`
-      );
-      return true;
+  private async rest(order: Order, failure: OrderExecutionError): Promise<ExecutionResult> {
+    const latest = await this.reloadOrder(order);
+    const status = latest.filledAmount > 0 ? 'partially_filled' : 'resting';
+    console.log(`[LIMIT CHECK] ${failure.code} on resting order ${order.id}, back to ${status}: ${failure.message}`);
+
+    await this.emitStatus(
+      latest,
+      status,
+      { message: `Execution failed transiently, resting again: ${failure.message}`, code: failure.code },
+      { reason: `${failure.code}: ${failure.message}` }
+    );
+    priceTickEngine.addOrder({ ...latest, status });
+
+    return { success: true, status };
+  }
+
+  /**
+   * Keep a partially filled order working for its remainder, unless its
+   * time-in-force says the remainder lapses now
+   */
+  private async restRemainder(filled: Order, result: ExecutionResult): Promise<ExecutionResult> {
+    const order = await this.reloadOrder(filled);
+
+    if (order.timeInForce === 'IOC') {
+      return this.expireOrder(order, `IOC remainder of ${order.remainingAmount} ${order.tokenIn} not filled`);
     }
 
-    if (attempt >= this.maxRetries) {
-      console.log(
-        `[LIMIT CHECK] Order ${orderId} failed after ${this.maxRetries} attempts. Best: $${currentPrice.toFixed(2)}, Limit: $${limitPrice.toFixed(2)}`
-      );
-      return false;
+    if (this.isExpired(order)) {
+      return this.expireOrder(order, 'Limit order expired before the remainder was filled');
     }
 
     console.log(
-      `[LIMIT CHECK] Attempt ${attempt}/${this.maxRetries} failed. Retrying in ${this.retryDelayMs}ms...`
+      `[LIMIT CHECK] Order ${order.id} filled ${order.filledAmount}/${order.amountIn} ${order.tokenIn}, resting remainder`
     );
+    priceTickEngine.addOrder(order);
 
-    await this.sleep(this.retryDelayMs);
-
-    const newRoute = await this.dexRouter.routeOrder(
-      'SOL',
-      'USDC',
-      1.5
-    );
-
-    return this.checkLimitWithRetry(
-      orderId,
-      newRoute.effectivePrice,
-      limitPrice,
-      attempt + 1
-    );
+    return result;
   }
 
   /**
-   * Emit WebSocket status update
+   * Mark order as expired in the database and notify subscribers
    */
-  private async emitStatus(
-    orderId: string,
-    status: string,
-    data?: any
-  ): Promise<void> {
-    const message: WebSocketMessage = {
-      orderId,
-      status: status as any,
-      data,
-      timestamp: new Date(),
-    };
-
-    wsManager.emit(orderId, message);
+  private async expireOrder(
+    order: Order,
+    reason: string,
+    code: OrderErrorCode = 'ORDER_EXPIRED'
+  ): Promise<ExecutionResult> {
+    console.log(`[LIMIT CHECK] Order ${order.id} expired: ${reason}`);
+
+    await this.emitStatus(order, 'expired', { error: reason, code }, { errorReason: reason, errorCode: code });
+
+    return { success: true, status: 'expired' };
   }
 
-  /**
-   * Sleep utility
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise((resolve) => setTimeout(resolve, ms));
+  private isExpired(order: Order): boolean {
+    return (
+      order.timeInForce === 'GTD' &&
+      !!order.expiresAt &&
+      new Date(order.expiresAt).getTime() <= Date.now()
+    );
   }
 }
 
@@ -0,0 +1,41 @@
+// src/services/marketOrderService.ts
+
+import { OrderExecutor } from './orderExecutor';
+import { ExecutionResult, Order } from '../types';
+
+export class MarketOrderService extends OrderExecutor {
+  /**
+   * Process market order: route to the best DEX and execute immediately.
+   * Retryable failures are rethrown while the job has retriesLeft.
+   */
+  async processMarketOrder(order: Order, retriesLeft: number = 0): Promise<ExecutionResult> {
+    try {
+      // Step 1: Routing
+      await this.emitStatus(order, 'routing', {
+        message: 'Fetching quotes from DEXes...',
+      });
+
+      // Quote the size as of routing, after which it can no longer be amended
+      const routed = await this.reloadOrder(order);
+      const routeResult = await this.dexRouter.routeOrder(
+        routed.tokenIn,
+        routed.tokenOut,
+        routed.remainingAmount,
+        { side: routed.side }
+      );
+
+      const latest = await this.reloadOrder(routed);
+
+      console.log(
+        `[MARKET] Order ${latest.id} routed to ${routeResult.selectedDex} at $${routeResult.price.toFixed(2)} (max slippage ${(latest.slippage * 100).toFixed(2)}%)`
+      );
+
+      // Step 2: Build, submit and confirm within the order's slippage tolerance
+      return await this.executeRoute(latest, routeResult);
+    } catch (error) {
+      return this.failOrder(order, error, retriesLeft);
+    }
+  }
+}
+
+export const marketOrderService = new MarketOrderService();
@@ -0,0 +1,82 @@
+// src/services/orderEventService.ts
+
+import { Prisma } from '@prisma/client';
+import prisma from '../db/prisma';
+import { wsManager } from '../websocket/wsManager';
+import { OrderRef, WebSocketMessage } from '../types';
+
+/**
+ * Per-order event log behind the WebSocket feed. Every update is numbered
+ * and persisted before it goes out live, so subscribers that arrive late or
+ * reconnect can replay what they missed.
+ */
+export class OrderEventService {
+  // Publishing of each order's events is chained so sequence numbers go out in order
+  private tails = new Map<string, Promise<unknown>>();
+
+  /**
+   * Number, persist and emit an order's update
+   */
+  publish(order: OrderRef, message: WebSocketMessage): Promise<WebSocketMessage> {
+    const published = (this.tails.get(order.id) ?? Promise.resolve()).then(() =>
+      this.persistAndEmit(order, message)
+    );
+
+    const tail = published.catch(() => undefined);
+    this.tails.set(order.id, tail);
+    tail.then(() => {
+      if (this.tails.get(order.id) === tail) {
+        this.tails.delete(order.id);
+      }
+    });
+
+    return published;
+  }
+
+  /**
+   * Events of an order from seq fromSeq on, oldest first
+   */
+  async getEvents(orderId: string, fromSeq: number = 1): Promise<WebSocketMessage[]> {
+    const events = await prisma.orderEvent.findMany({
+      where: { orderId, seq: { gte: fromSeq } },
+      orderBy: { seq: 'asc' },
+      select: { orderId: true, seq: true, status: true, event: true, data: true, timestamp: true },
+    });
+
+    return events as WebSocketMessage[];
+  }
+
+  private async persistAndEmit(order: OrderRef, message: WebSocketMessage): Promise<WebSocketMessage> {
+    let sequenced = message;
+    try {
+      // Numbered and stored together, so a failed insert does not use up a seq
+      const seq = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const { eventSeq } = await tx.order.update({
+          where: { id: order.id },
+          data: { eventSeq: { increment: 1 } },
+          select: { eventSeq: true },
+        });
+        await tx.orderEvent.create({
+          data: {
+            orderId: order.id,
+            seq: eventSeq,
+            status: message.status,
+            event: message.event,
+            data: message.data,
+            timestamp: message.timestamp,
+          },
+        });
+        return eventSeq as number;
+      });
+      sequenced = { ...message, seq };
+    } catch (error) {
+      // Live subscribers still get the update; it just cannot be replayed
+      console.error(`[EVENTS] Failed to persist ${message.status} event of order ${order.id}:`, error);
+    }
+
+    wsManager.emit(order, sequenced);
+    return sequenced;
+  }
+}
+
+export const orderEventService = new OrderEventService();
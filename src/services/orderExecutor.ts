@@ -0,0 +1,595 @@
+// src/services/orderExecutor.ts
+
+import { MockDexRouter } from '../dex/MockDexRouter';
+import { orderService, StatusUpdate } from './orderService';
+import { orderEventService } from './orderEventService';
+import { pairOf, wsManager } from '../websocket/wsManager';
+import {
+  OrderAmendedError,
+  OrderCancelledError,
+  OrderExecutionError,
+  PartialExecutionError,
+  SlippageExceededError,
+  toOrderExecutionError,
+  TransactionExpiredError,
+  TransactionFailedError,
+} from '../errors';
+import {
+  Commitment,
+  DexRouterResult,
+  DexType,
+  ExecutedLeg,
+  ExecutionResult,
+  Order,
+  OrderRef,
+  OrderSide,
+  OrderStatus,
+  QuoteSnapshot,
+  RouteHop,
+  RouteOptions,
+  RouteSummary,
+  SignatureStatus,
+  SwapParams,
+  SwapResult,
+  WebSocketMessage,
+} from '../types';
+
+// Re-quotes allowed after a venue reverts a swap for slippage
+export const SLIPPAGE_MAX_REQUOTES = parseInt(process.env.SLIPPAGE_MAX_REQUOTES || '2');
+
+// Commitment a swap must reach before its fill counts
+export const CHAIN_COMMITMENT = (process.env.CHAIN_COMMITMENT || 'confirmed') as Commitment;
+
+// Resubmissions allowed after a swap's blockhash expires before it lands
+export const CHAIN_MAX_RESUBMITS = parseInt(process.env.CHAIN_MAX_RESUBMITS || '3');
+
+interface HopExecution {
+  // Order tokenIn filled and its average price
+  filledAmount: number;
+  executedPrice: number;
+  txHash: string;
+  fills: ExecutedLeg[];
+  // Why some legs of a direct route did not fill
+  failure?: unknown;
+}
+
+/**
+ * Shared building blocks for the per-order-type execution strategies
+ */
+export abstract class OrderExecutor {
+  protected dexRouter: MockDexRouter;
+
+  constructor(dexRouter: MockDexRouter = new MockDexRouter()) {
+    this.dexRouter = dexRouter;
+  }
+
+  /**
+   * Build, submit and confirm the swaps of the route: one per venue leg, hop by hop.
+   * Every swap carries a bound from its quote and the order's slippage; when a
+   * venue reverts before anything filled, the order is re-quoted and resubmitted
+   * up to SLIPPAGE_MAX_REQUOTES times.
+   *
+   * The order is confirmed once nothing remains. With routeOptions.allowPartial,
+   * an execution that fills less (a partial route, or failed legs beside filled
+   * ones) leaves it partially_filled for the caller to rest or expire.
+   */
+  protected async executeRoute(
+    order: Order,
+    routeResult: DexRouterResult,
+    routeOptions: RouteOptions = { side: order.side }
+  ): Promise<ExecutionResult> {
+    // Route selected
+    let route = await this.recordRoute(order, routeResult);
+    await this.emitStatus(
+      order,
+      'routing',
+      {
+        message: `Route selected: ${route.path.join(' -> ')}`,
+        dex: routeResult.selectedDex,
+        route,
+      },
+      { quote: this.snapshotQuote(routeResult) }
+    );
+
+    // Size and limit can no longer be amended from routing on; a resting order
+    // may have been amended since it was quoted
+    const latest = await this.reloadOrder(order);
+    if (latest.remainingAmount !== order.remainingAmount || latest.limitPrice !== order.limitPrice) {
+      throw new OrderAmendedError(order.id);
+    }
+
+    // Building
+    await this.emitStatus(order, 'building', {
+      message: 'Building transaction...',
+    });
+    await this.sleep(500);
+
+    // Submitted
+    await this.emitStatus(order, 'submitted', {
+      message: 'Submitting to network...',
+    });
+
+    let execution: HopExecution;
+    for (let requotes = 0; ; requotes++) {
+      try {
+        execution = await this.executeHops(order, routeResult);
+        break;
+      } catch (error) {
+        if (
+          !(error instanceof SlippageExceededError) ||
+          error.partial ||
+          requotes >= SLIPPAGE_MAX_REQUOTES
+        ) {
+          throw error;
+        }
+
+        console.log(`[EXECUTOR] ${error.message}; re-quoting order ${order.id}`);
+        routeResult = await this.dexRouter.routeOrder(
+          order.tokenIn,
+          order.tokenOut,
+          order.remainingAmount,
+          routeOptions
+        );
+        // A fresh quote may no longer satisfy the order's own price guards
+        if (!this.isWithinPriceGuards(order, routeResult)) {
+          throw error;
+        }
+
+        route = await this.recordRoute(order, routeResult);
+        await this.emitStatus(
+          order,
+          'submitted',
+          {
+            message: `Re-quoted after slippage revert, resubmitting (${requotes + 1}/${SLIPPAGE_MAX_REQUOTES})`,
+            dex: routeResult.selectedDex,
+            route,
+          },
+          { quote: this.snapshotQuote(routeResult) }
+        );
+      }
+    }
+
+    const { executedPrice, txHash, fills, filledAmount, failure } = execution;
+    const realizedSlippage = this.getRealizedSlippage(routeResult.effectivePrice, executedPrice, order.side);
+    const updated = await orderService.applyFill(order.id, filledAmount, executedPrice, fills);
+
+    if (failure && !routeOptions.allowPartial) {
+      throw failure;
+    }
+
+    if (updated.remainingAmount > 0) {
+      // Partially filled
+      await this.emitStatus(
+        order,
+        'partially_filled',
+        {
+          dex: routeResult.selectedDex,
+          price: executedPrice,
+          filledAmount: updated.filledAmount,
+          remainingAmount: updated.remainingAmount,
+          averagePrice: updated.averagePrice,
+          realizedSlippage,
+          route,
+          fills,
+        },
+        { dex: routeResult.selectedDex, realizedSlippage }
+      );
+
+      return {
+        success: true,
+        status: 'partially_filled',
+        filledAmount,
+        executedPrice,
+        txHash,
+      };
+    }
+
+    // Confirmed
+    await this.emitStatus(
+      order,
+      'confirmed',
+      {
+        dex: routeResult.selectedDex,
+        price: updated.averagePrice,
+        txHash,
+        filledAmount: updated.filledAmount,
+        realizedSlippage,
+        route,
+        fills,
+      },
+      { dex: routeResult.selectedDex, executedPrice: updated.averagePrice, txHash, realizedSlippage }
+    );
+
+    return {
+      success: true,
+      filledAmount,
+      executedPrice: updated.averagePrice,
+      txHash,
+    };
+  }
+
+  /**
+   * Execute the hops as a sequence of swaps. Sells pass each hop's proceeds on
+   * to the next; buys acquire the intermediate tokens first, so run backwards.
+   * A direct route whose legs only partly filled returns what filled along
+   * with the failure; anywhere else a failed leg fails the execution.
+   */
+  protected async executeHops(order: Order, routeResult: DexRouterResult): Promise<HopExecution> {
+    const { hops } = routeResult;
+    const sequence = hops.map((_, i) => i);
+    if (order.side === 'BUY') {
+      sequence.reverse();
+    }
+
+    // tokenOut of each hop actually paid (BUY) or received (SELL)
+    const quoteTotals: number[] = [];
+    const fills: ExecutedLeg[] = [];
+    let failure: unknown;
+    for (const i of sequence) {
+      const amountIn = order.side === 'SELL' && i > 0 ? quoteTotals[i - 1] : hops[i].amountIn;
+      const result = await this.executeLegs(order, i, hops[i], amountIn);
+
+      if (result.failure) {
+        const executed = fills.length + result.fills.length > 0;
+        if (!executed || hops.length > 1) {
+          if (executed) {
+            // Kept for manual settlement; the order itself fails
+            await orderService.recordFills(order.id, [...fills, ...result.fills]);
+          }
+          // Earlier swaps cannot be unwound, so the route can no longer be re-quoted or retried as a whole
+          if (result.failure instanceof SlippageExceededError && executed) {
+            const { message, executedPrice, boundPrice } = result.failure;
+            throw new SlippageExceededError(message, executedPrice, boundPrice, true);
+          }
+          if (executed) {
+            throw new PartialExecutionError(
+              `${toOrderExecutionError(result.failure).message} after part of the route executed`
+            );
+          }
+          throw result.failure;
+        }
+        failure = result.failure;
+      }
+
+      quoteTotals[i] = result.fills.reduce((sum, fill) => sum + fill.executedPrice * fill.amountIn, 0);
+      fills.push(...result.fills);
+    }
+
+    // The first hop spends or acquires the order's tokenIn, the last settles in its tokenOut
+    const filledAmount = fills
+      .filter((fill) => fill.hop === 0)
+      .reduce((sum, fill) => sum + fill.amountIn, 0);
+    const finalFills = fills.filter((fill) => fill.hop === sequence[sequence.length - 1]);
+    return {
+      filledAmount,
+      executedPrice: quoteTotals[hops.length - 1] / filledAmount,
+      txHash: (finalFills.find((fill) => fill.dex === routeResult.selectedDex) ?? finalFills[0]).txHash,
+      fills,
+      failure,
+    };
+  }
+
+  /**
+   * Submit every leg of a hop in parallel and collect the ones that filled,
+   * scaling the legs when the hop's input differs from the quote. Each leg may
+   * fill at most order.slippage worse than its quoted price.
+   */
+  protected async executeLegs(
+    order: Order,
+    hopIndex: number,
+    hop: RouteHop,
+    amountIn: number
+  ): Promise<{ fills: ExecutedLeg[]; failure?: unknown }> {
+    const scale = amountIn / hop.amountIn;
+    const results = await Promise.allSettled(
+      hop.legs.map(async (leg): Promise<ExecutedLeg> => {
+        const legAmount = leg.amountIn * scale;
+        const swap = await this.submitSwap(order, hopIndex, leg.dex, {
+          tokenIn: hop.tokenIn,
+          tokenOut: hop.tokenOut,
+          amountIn: legAmount,
+          side: order.side,
+          ...(order.side === 'BUY'
+            ? { maxPrice: leg.effectivePrice * (1 + order.slippage) }
+            : { minAmountOut: leg.effectivePrice * (1 - order.slippage) * legAmount }),
+        });
+        return {
+          hop: hopIndex,
+          tokenIn: hop.tokenIn,
+          tokenOut: hop.tokenOut,
+          dex: leg.dex,
+          amountIn: legAmount,
+          executedPrice: swap.executedPrice,
+          amountOut: swap.amountOut,
+          fee: swap.fee,
+          priceImpact: swap.priceImpact,
+          txHash: swap.txHash,
+        };
+      })
+    );
+
+    const fills = results.flatMap((result) => (result.status === 'fulfilled' ? [result.value] : []));
+
+    const failure = results.find((result): result is PromiseRejectedResult => result.status === 'rejected');
+    if (!failure) {
+      return { fills };
+    }
+
+    if (failure.reason instanceof SlippageExceededError) {
+      const { message, executedPrice, boundPrice } = failure.reason;
+      return {
+        fills,
+        failure: new SlippageExceededError(message, executedPrice, boundPrice, fills.length > 0),
+      };
+    }
+    const reason = toOrderExecutionError(failure.reason);
+    const message = `${results.length - fills.length} of ${results.length} legs of hop ${hop.tokenIn}/${hop.tokenOut} failed: ${reason.message}`;
+    return {
+      fills,
+      // Legs that filled cannot be sent again, so the hop can only be retried if none did
+      failure:
+        fills.length > 0
+          ? new PartialExecutionError(message)
+          : new OrderExecutionError(reason.code, message, reason.retryable),
+    };
+  }
+
+  /**
+   * Send a swap and wait for CHAIN_COMMITMENT, announcing each commitment level
+   * it reaches. A transaction whose blockhash expired never landed, so it is
+   * resubmitted with a fresh blockhash up to CHAIN_MAX_RESUBMITS times.
+   *
+   * Each transaction is recorded before it is sent and its outcome stored once
+   * it lands, so recovery knows which swaps of an interrupted execution landed.
+   */
+  private async submitSwap(
+    order: Order,
+    hopIndex: number,
+    dex: DexType,
+    params: SwapParams
+  ): Promise<SwapResult> {
+    const onCommitment = (status: SignatureStatus) => {
+      this.emitEvent(
+        order,
+        'submitted',
+        { dex, hop: hopIndex, txHash: status.signature, slot: status.slot, commitment: status.commitment },
+        'commitment'
+      );
+    };
+
+    for (let resubmits = 0; ; resubmits++) {
+      let signature: string | undefined;
+      const onSend = async (sent: string, lastValidSlot: number) => {
+        signature = sent;
+        await orderService.recordTransaction({
+          orderId: order.id,
+          signature: sent,
+          hop: hopIndex,
+          dex,
+          tokenIn: params.tokenIn,
+          tokenOut: params.tokenOut,
+          amountIn: params.amountIn,
+          lastValidSlot,
+        });
+      };
+
+      try {
+        const swap = await this.dexRouter.executeSwap(dex, order.id, params, {
+          commitment: CHAIN_COMMITMENT,
+          onCommitment,
+          onSend,
+        });
+        const { executedPrice, amountOut, fee, priceImpact } = swap;
+        await orderService.updateTransactionStatus(swap.txHash, 'landed', { executedPrice, amountOut, fee, priceImpact });
+        return swap;
+      } catch (error) {
+        if (signature) {
+          await orderService.updateTransactionStatus(
+            signature,
+            error instanceof TransactionExpiredError ? 'expired' : 'failed'
+          );
+        }
+        if (!(error instanceof TransactionExpiredError) || resubmits >= CHAIN_MAX_RESUBMITS) {
+          throw error;
+        }
+
+        console.log(`[EXECUTOR] ${error.message}; resubmitting swap on ${dex} for order ${order.id}`);
+        await this.emitStatus(order, 'submitted', {
+          message: `Transaction expired, resubmitting (${resubmits + 1}/${CHAIN_MAX_RESUBMITS})`,
+          dex,
+          hop: hopIndex,
+        });
+      }
+    }
+  }
+
+  /**
+   * Reload order before committing to a decision so cancellations and
+   * amendments made while it was in flight are honoured
+   */
+  protected async reloadOrder(order: Order): Promise<Order> {
+    const latest = await orderService.getOrderById(order.id);
+    if (!latest || latest.status === 'cancelled') {
+      throw new OrderCancelledError(order.id);
+    }
+
+    return latest;
+  }
+
+  /**
+   * Mark order as failed in the database and notify subscribers, unless the
+   * error is retryable and the job has retriesLeft: then subscribers get a
+   * retry event and the error is rethrown for the queue to retry the order
+   */
+  protected async failOrder(order: Order, error: unknown, retriesLeft: number = 0): Promise<ExecutionResult> {
+    // Cancellation already updated the order and notified subscribers
+    if (error instanceof OrderCancelledError) {
+      console.log(`[EXECUTOR] Stopped processing cancelled order ${order.id}`);
+      return { success: true, status: 'cancelled' };
+    }
+
+    const failure = toOrderExecutionError(error);
+    if (failure.retryable && retriesLeft > 0) {
+      console.log(`[EXECUTOR] ${failure.code} on order ${order.id}, ${retriesLeft} retries left: ${failure.message}`);
+      const latest = await orderService.getOrderById(order.id);
+      await this.emitEvent(
+        order,
+        latest?.status ?? order.status,
+        { error: failure.message, code: failure.code, retriesLeft },
+        'retry'
+      );
+      throw failure;
+    }
+
+    const errorMessage = failure.message;
+
+    try {
+      await this.emitStatus(
+        order,
+        'failed',
+        {
+          error: errorMessage,
+          code: failure.code,
+          ...(failure instanceof SlippageExceededError && {
+            executedPrice: failure.executedPrice,
+            boundPrice: failure.boundPrice,
+          }),
+          ...((failure instanceof TransactionExpiredError || failure instanceof TransactionFailedError) && {
+            txHash: failure.signature,
+          }),
+        },
+        { errorReason: errorMessage, errorCode: failure.code }
+      );
+    } catch (updateError) {
+      // Cancelled while failing: the cancellation stands
+      if (updateError instanceof OrderCancelledError) {
+        console.log(`[EXECUTOR] Stopped processing cancelled order ${order.id}`);
+        return { success: true, status: 'cancelled' };
+      }
+      throw updateError;
+    }
+
+    return {
+      success: false,
+      error: errorMessage,
+    };
+  }
+
+  /**
+   * Check a route against the order's limit price and sniper max price
+   */
+  private isWithinPriceGuards(order: Order, routeResult: DexRouterResult): boolean {
+    if (
+      order.limitPrice != null &&
+      !this.dexRouter.checkLimitCondition(routeResult.effectivePrice, order.limitPrice, order.side)
+    ) {
+      return false;
+    }
+    return this.isWithinMaxPrice(order, routeResult);
+  }
+
+  /**
+   * Check a route's net price against a sniper's maxPrice: a ceiling for buys,
+   * a floor for sells
+   */
+  protected isWithinMaxPrice(order: Order, routeResult: DexRouterResult): boolean {
+    return (
+      order.maxPrice == null ||
+      this.dexRouter.checkLimitCondition(routeResult.effectivePrice, order.maxPrice, order.side)
+    );
+  }
+
+  /**
+   * Adverse deviation from the quote: positive when buys paid more or sells received less
+   */
+  private getRealizedSlippage(quotedPrice: number, executedPrice: number, side: OrderSide): number {
+    return side === 'BUY' ? executedPrice / quotedPrice - 1 : 1 - executedPrice / quotedPrice;
+  }
+
+  private async recordRoute(order: Order, routeResult: DexRouterResult): Promise<RouteSummary> {
+    const route = this.summarizeRoute(routeResult);
+    await orderService.recordRoute(order.id, route);
+
+    // Routed quotes feed the pair's market-data channel
+    wsManager.publishMarketData({
+      pair: pairOf(order.tokenIn, order.tokenOut),
+      tokenIn: order.tokenIn,
+      tokenOut: order.tokenOut,
+      side: order.side,
+      amount: routeResult.hops[0].amountIn,
+      dex: routeResult.selectedDex,
+      path: routeResult.path,
+      price: routeResult.price,
+      effectivePrice: routeResult.effectivePrice,
+      priceImpact: routeResult.priceImpact,
+      expectedOutput: routeResult.expectedOutput,
+      timestamp: new Date(),
+    });
+
+    return route;
+  }
+
+  /**
+   * Quote fields kept in the order's history
+   */
+  protected snapshotQuote(routeResult: DexRouterResult): QuoteSnapshot {
+    const { selectedDex, price, effectivePrice, priceImpact, expectedOutput, path } = routeResult;
+    return { selectedDex, price, effectivePrice, priceImpact, expectedOutput, path };
+  }
+
+  private summarizeRoute(routeResult: DexRouterResult): RouteSummary {
+    return {
+      path: routeResult.path,
+      effectivePrice: routeResult.effectivePrice,
+      hops: routeResult.hops.map((hop) => ({
+        tokenIn: hop.tokenIn,
+        tokenOut: hop.tokenOut,
+        venues: hop.legs.map((leg) => ({ dex: leg.dex, amountIn: leg.amountIn })),
+      })),
+    };
+  }
+
+  /**
+   * Move order to status, storing update alongside, then emit the WebSocket
+   * status update. The status is persisted first so subscribers never see a
+   * status the database does not hold; an invalid or cancelled transition
+   * throws before anything is emitted. The update's message is the history
+   * entry's reason unless it gives one.
+   */
+  protected async emitStatus(
+    order: OrderRef,
+    status: OrderStatus,
+    data?: WebSocketMessage['data'],
+    update: StatusUpdate = {}
+  ): Promise<void> {
+    await orderService.updateOrderStatus(order.id, status, { reason: data?.message, ...update });
+    await this.emitEvent(order, status, data);
+  }
+
+  /**
+   * Emit WebSocket update without changing the order's status, numbered and persisted for replay
+   */
+  protected async emitEvent(
+    order: OrderRef,
+    status: OrderStatus,
+    data?: WebSocketMessage['data'],
+    event?: WebSocketMessage['event']
+  ): Promise<void> {
+    const message: WebSocketMessage = {
+      orderId: order.id,
+      status,
+      ...(event && { event }),
+      data,
+      timestamp: new Date(),
+    };
+
+    await orderEventService.publish(order, message);
+  }
+
+  /**
+   * Sleep utility
+   */
+  protected sleep(ms: number): Promise<void> {
+    return new Promise((resolve) => setTimeout(resolve, ms));
+  }
+}
@@ -0,0 +1,164 @@
+// src/services/orderManagementService.ts
+
+import { RESIZABLE_STATUSES, orderService } from './orderService';
+import { accountService } from './accountService';
+import { riskService } from './riskService';
+import { sniperOrderService } from './sniperOrderService';
+import { priceTickEngine } from '../market/PriceTickEngine';
+import { removeOrderJobs, updateOrderJobs } from '../queue/orderQueue';
+import { orderEventService } from './orderEventService';
+import { AmendOrderRequest, Order } from '../types';
+
+export type ModifyOrderResult =
+  | { success: true; order: Order }
+  | {
+      success: false;
+      code: 'NOT_FOUND' | 'NOT_MODIFIABLE' | 'INVALID_AMENDMENT' | 'INSUFFICIENT_BALANCE';
+      error: string;
+    };
+
+/**
+ * Cancellation and amendment of orders that have not started executing
+ */
+export class OrderManagementService {
+  /**
+   * Cancel an order and withdraw it from the queue, price books and sniper watch
+   */
+  async cancelOrder(
+    id: string,
+    reason: string = 'Cancelled by user',
+    actor: string = 'system'
+  ): Promise<ModifyOrderResult> {
+    const existing = await orderService.getOrderById(id);
+    if (!existing) {
+      return { success: false, code: 'NOT_FOUND', error: 'Order not found' };
+    }
+
+    const order = await orderService.cancelOrder(id, reason, actor);
+    if (!order) {
+      return this.notModifiable(existing);
+    }
+
+    priceTickEngine.removeOrder(order);
+    sniperOrderService.disarm(order.id);
+    await removeOrderJobs(order.id);
+
+    await orderEventService.publish(order, {
+      orderId: order.id,
+      status: 'cancelled',
+      data: { reason },
+      timestamp: new Date(),
+    });
+
+    console.log(`[ORDERS] Cancelled order ${order.id} (was ${existing.status})`);
+
+    return { success: true, order };
+  }
+
+  /**
+   * Amend order parameters, resize the order's reservation to the amended
+   * remainder and reschedule wherever the order is waiting
+   */
+  async amendOrder(
+    id: string,
+    changes: AmendOrderRequest,
+    actor: string = 'system'
+  ): Promise<ModifyOrderResult> {
+    const existing = await orderService.getOrderById(id);
+    if (!existing) {
+      return { success: false, code: 'NOT_FOUND', error: 'Order not found' };
+    }
+
+    // The route being executed was quoted for the order's size and limit
+    const resizing = changes.amountIn !== undefined || changes.limitPrice !== undefined;
+    if (resizing && !RESIZABLE_STATUSES.includes(existing.status)) {
+      return {
+        success: false,
+        code: 'NOT_MODIFIABLE',
+        error: `amountIn and limitPrice can no longer be amended (status: ${existing.status})`,
+      };
+    }
+
+    const invalid = this.validateAmendment(existing, changes);
+    if (invalid) {
+      return { success: false, code: 'INVALID_AMENDMENT', error: invalid };
+    }
+
+    // Hold more before the amendment lands, give back only after it has
+    const reservation = riskService.getReservation(
+      { ...existing, ...changes },
+      (changes.amountIn ?? existing.amountIn) - existing.filledAmount
+    );
+    const delta = reservation.amount - existing.reservedAmount;
+    const increase = { token: reservation.token, amount: delta };
+    if (delta > 0 && !(await accountService.reserve(existing.accountId, increase))) {
+      return {
+        success: false,
+        code: 'INSUFFICIENT_BALANCE',
+        error: `Insufficient ${reservation.token} balance to hold ${delta} more for the amended order`,
+      };
+    }
+
+    const order = await orderService.amendOrder(id, changes, delta, actor);
+    if (!order) {
+      if (delta > 0) {
+        await accountService.release(existing.accountId, increase);
+      }
+      return this.notModifiable(existing);
+    }
+    if (delta < 0) {
+      await accountService.release(order.accountId, { token: reservation.token, amount: -delta });
+    }
+
+    // Re-rest with the new parameters so the next tick evaluates them
+    priceTickEngine.updateOrder(order);
+    sniperOrderService.rearm(order);
+    await updateOrderJobs(order);
+
+    await orderEventService.publish(order, {
+      orderId: order.id,
+      status: order.status,
+      event: 'amended',
+      data: { changes },
+      timestamp: new Date(),
+    });
+
+    console.log(`[ORDERS] Amended order ${order.id}: ${Object.keys(changes).join(', ')}`);
+
+    return { success: true, order };
+  }
+
+  private validateAmendment(order: Order, changes: AmendOrderRequest): string | null {
+    if (changes.limitPrice !== undefined && order.type !== 'LIMIT') {
+      return 'limitPrice can only be amended on LIMIT orders';
+    }
+
+    if (changes.amountIn !== undefined && changes.amountIn <= order.filledAmount) {
+      return `amountIn must exceed the ${order.filledAmount} already filled`;
+    }
+
+    if (changes.expiresAt !== undefined) {
+      if (order.type === 'LIMIT' && order.timeInForce !== 'GTD') {
+        return 'expiresAt can only be amended on GTD limit orders';
+      }
+      if (order.type === 'MARKET') {
+        return 'MARKET orders have no expiry';
+      }
+      if (changes.expiresAt.getTime() <= Date.now()) {
+        return 'expiresAt must be in the future';
+      }
+    }
+
+    return null;
+  }
+
+  private notModifiable(order: Order): ModifyOrderResult {
+    return {
+      success: false,
+      code: 'NOT_MODIFIABLE',
+      error: `Order can no longer be modified (status: ${order.status})`,
+    };
+  }
+}
+
+export const orderManagementService = new OrderManagementService();
@@ -0,0 +1,227 @@
+// src/services/orderRecoveryService.ts
+
+import { CHAIN_COMMITMENT, OrderExecutor } from './orderExecutor';
+import { IN_FLIGHT_STATUSES, orderService } from './orderService';
+import { priceTickEngine } from '../market/PriceTickEngine';
+import { mockChain } from '../chain/MockChain';
+import { addOrderToQueue, buildJobData, getQueuedOrderIds } from '../queue/orderQueue';
+import { PartialExecutionError, TransactionExpiredError } from '../errors';
+import { ExecutedLeg, ExecutionResult, Order, OrderStatus, OrderTransaction, SwapSettlement } from '../types';
+
+// Statuses in which swaps of an order may already be on chain
+export const EXECUTING_STATUSES: OrderStatus[] = ['building', 'submitted'];
+
+/**
+ * Brings orders whose execution was interrupted, by a crash or a stalled job,
+ * back to a consistent state without sending any swap twice.
+ *
+ * Assumes a single engine instance: an order found in building or submitted
+ * outside a running execution is taken to have been abandoned.
+ */
+export class OrderRecoveryService extends OrderExecutor {
+  /**
+   * Reconcile an order left in building or submitted with the chain by its
+   * recorded transactions. Swaps that landed are stored and settled, and the
+   * order ends confirmed, partially filled or failed. When none landed it moves
+   * back to routing and null is returned for the caller to execute it afresh.
+   * Retryable failures are rethrown while the job has retriesLeft.
+   */
+  async reconcile(order: Order, retriesLeft: number = 0): Promise<ExecutionResult | null> {
+    try {
+      const { landed, unknown } = await this.confirmTransactions(order);
+      if (unknown.length > 0) {
+        throw new PartialExecutionError(
+          `Outcome of swap ${unknown.join(', ')} is not known; settle manually`,
+          'EXECUTION_INTERRUPTED'
+        );
+      }
+
+      const latest = await this.reloadOrder(order);
+
+      if (landed.length === 0) {
+        // Interrupted after the fills were applied
+        if (latest.remainingAmount <= 0) {
+          return await this.confirm(latest);
+        }
+
+        console.log(`[RECOVERY] No swap of order ${order.id} landed, resuming from routing`);
+        await this.emitStatus(latest, 'routing', {
+          message: 'Recovered interrupted execution, none of its swaps landed. Re-routing...',
+        });
+        return null;
+      }
+
+      // Earlier hops cannot be unwound and later ones were never sent
+      if ((latest.route?.hops.length ?? 1) > 1) {
+        throw new PartialExecutionError(
+          'Execution interrupted mid-route after swaps landed; settle manually',
+          'EXECUTION_INTERRUPTED'
+        );
+      }
+
+      const amount = landed.reduce((sum, fill) => sum + fill.amountIn, 0);
+      const price = landed.reduce((sum, fill) => sum + fill.executedPrice * fill.amountIn, 0) / amount;
+      const updated = await orderService.applyFill(order.id, amount, price, landed);
+      console.log(`[RECOVERY] Settled ${amount} ${order.tokenIn} of order ${order.id} that landed`);
+
+      if (updated.remainingAmount <= 0) {
+        return await this.confirm({ ...latest, ...updated });
+      }
+      return await this.settleRemainder({ ...latest, ...updated });
+    } catch (error) {
+      return this.failOrder(order, error, retriesLeft);
+    }
+  }
+
+  /**
+   * Reconcile or re-enqueue every in-flight order that has no queued job.
+   * Run before the worker starts so no execution is underway.
+   */
+  async recoverStuckOrders(): Promise<number> {
+    const [orders, queued] = await Promise.all([
+      orderService.getOrdersByStatus(IN_FLIGHT_STATUSES),
+      getQueuedOrderIds(),
+    ]);
+    const stuck = orders.filter((order) => !queued.has(order.id));
+
+    for (const order of stuck) {
+      try {
+        if (EXECUTING_STATUSES.includes(order.status) && (await this.reconcile(order))) {
+          continue;
+        }
+
+        const latest = (await orderService.getOrderById(order.id)) ?? order;
+        await addOrderToQueue(order.id, buildJobData(latest), `${order.id}-recovery-${Date.now()}`);
+      } catch (error) {
+        console.error(`[RECOVERY] Error recovering order ${order.id}:`, error);
+      }
+    }
+
+    console.log(`[RECOVERY] Recovered ${stuck.length} stuck order(s)`);
+    return stuck.length;
+  }
+
+  /**
+   * Find out what became of every transaction of the order that was sent, or
+   * landed without its fill being applied. Landed ones are taken from their
+   * stored outcome; sent ones are looked up on chain. Returns the fills of
+   * those that landed, and the signatures of transactions that may have landed
+   * with no outcome to settle them by: landed without one stored, or sent and
+   * unknown to the chain, as after a restart. Those are never sent again.
+   */
+  private async confirmTransactions(order: Order): Promise<{ landed: ExecutedLeg[]; unknown: string[] }> {
+    const [transactions, fills] = await Promise.all([
+      orderService.getTransactions(order.id),
+      orderService.getFills(order.id),
+    ]);
+    const unsettled = transactions.filter(
+      (tx) => tx.status === 'sent' || (tx.status === 'landed' && !fills.some((fill) => fill.txHash === tx.signature))
+    );
+
+    const landed: ExecutedLeg[] = [];
+    const unknown: string[] = [];
+    for (const tx of unsettled) {
+      if (tx.status === 'landed') {
+        const outcome = this.getOutcome(tx);
+        if (outcome) {
+          landed.push(this.toFill(tx, outcome));
+        } else {
+          unknown.push(tx.signature);
+        }
+        continue;
+      }
+
+      if (!mockChain.getSignatureStatus(tx.signature)) {
+        unknown.push(tx.signature);
+        continue;
+      }
+
+      try {
+        const confirmed = await mockChain.confirmTransaction(tx.signature, CHAIN_COMMITMENT);
+        const outcome = confirmed.returnData[0] as SwapSettlement;
+        await orderService.updateTransactionStatus(tx.signature, 'landed', outcome);
+        landed.push(this.toFill(tx, outcome));
+      } catch (error) {
+        await orderService.updateTransactionStatus(
+          tx.signature,
+          error instanceof TransactionExpiredError ? 'expired' : 'failed'
+        );
+      }
+    }
+
+    return { landed, unknown };
+  }
+
+  /**
+   * Stored outcome of a landed transaction, if it has one
+   */
+  private getOutcome(tx: OrderTransaction): SwapSettlement | null {
+    const { executedPrice, amountOut, fee, priceImpact } = tx;
+    if (executedPrice == null || amountOut == null || fee == null || priceImpact == null) {
+      return null;
+    }
+    return { executedPrice, amountOut, fee, priceImpact };
+  }
+
+  private toFill(tx: OrderTransaction, outcome: SwapSettlement): ExecutedLeg {
+    return {
+      hop: tx.hop,
+      tokenIn: tx.tokenIn,
+      tokenOut: tx.tokenOut,
+      dex: tx.dex,
+      amountIn: tx.amountIn,
+      ...outcome,
+      txHash: tx.signature,
+    };
+  }
+
+  private async confirm(order: Order): Promise<ExecutionResult> {
+    const fills = await orderService.getFills(order.id);
+    const txHash = fills[fills.length - 1]?.txHash;
+    await this.emitStatus(
+      order,
+      'confirmed',
+      {
+        message: 'Recovered interrupted execution',
+        price: order.averagePrice,
+        txHash,
+        filledAmount: order.filledAmount,
+      },
+      { executedPrice: order.averagePrice, txHash }
+    );
+
+    return { success: true, filledAmount: order.filledAmount, executedPrice: order.averagePrice, txHash };
+  }
+
+  /**
+   * Treat the unfilled remainder as the order type would after a partial
+   * execution: limit orders rest it or let it lapse, anything else fails
+   */
+  private async settleRemainder(order: Order): Promise<ExecutionResult> {
+    const summary = `filled ${order.filledAmount}/${order.amountIn} ${order.tokenIn}`;
+    if (order.type !== 'LIMIT' || order.timeInForce === 'FOK') {
+      throw new PartialExecutionError(`Execution interrupted after it ${summary}`, 'EXECUTION_INTERRUPTED');
+    }
+
+    await this.emitStatus(order, 'partially_filled', {
+      message: `Recovered interrupted execution that ${summary}`,
+      filledAmount: order.filledAmount,
+      remainingAmount: order.remainingAmount,
+      averagePrice: order.averagePrice,
+    });
+
+    const expired =
+      order.timeInForce === 'IOC' ||
+      (order.timeInForce === 'GTD' && !!order.expiresAt && new Date(order.expiresAt).getTime() <= Date.now());
+    if (expired) {
+      const reason = `${order.timeInForce} remainder of ${order.remainingAmount} ${order.tokenIn} not filled`;
+      await this.emitStatus(order, 'expired', { error: reason }, { errorReason: reason, errorCode: 'ORDER_EXPIRED' });
+      return { success: true, status: 'expired' };
+    }
+
+    priceTickEngine.addOrder({ ...order, status: 'partially_filled' });
+    return { success: true, status: 'partially_filled', filledAmount: order.filledAmount };
+  }
+}
+
+export const orderRecoveryService = new OrderRecoveryService();
@@ -1,29 +1,136 @@
 // src/services/orderService.ts
 
+import crypto from 'crypto';
+import os from 'os';
+import { Prisma } from '@prisma/client';
 import prisma from '../db/prisma';
-import { Order, OrderStatus, OrderType } from '../types';
+import { accountService } from './accountService';
+import { TERMINAL_STATUSES, canTransition } from './orderStateMachine';
+import { InvalidTransitionError, OrderCancelledError } from '../errors';
+import {
+  AmendOrderRequest,
+  CreateOrderRequest,
+  ExecutedLeg,
+  Fill,
+  Order,
+  OrderErrorCode,
+  OrderHistoryEntry,
+  OrderStatus,
+  OrderTransaction,
+  OrderTransactionStatus,
+  QuoteSnapshot,
+  RouteSummary,
+  SwapSettlement,
+} from '../types';
+
+// Orders can be cancelled or amended until a transaction is being built
+export const MODIFIABLE_STATUSES: OrderStatus[] = [
+  'pending',
+  'routing',
+  'limit_check',
+  'resting',
+  'partially_filled',
+  'armed',
+  'triggered',
+];
+
+// Orders whose amountIn and limitPrice may still change: once routing starts,
+// the route being executed was quoted for them
+export const RESIZABLE_STATUSES: OrderStatus[] = ['pending', 'resting', 'partially_filled', 'armed'];
+
+// Limit orders waiting in the price-tick engine's book, with or without earlier fills
+export const RESTING_STATUSES: OrderStatus[] = ['resting', 'partially_filled'];
+
+// Orders a worker is processing or about to; resting and armed orders wait outside the queue
+export const IN_FLIGHT_STATUSES: OrderStatus[] = [
+  'pending',
+  'routing',
+  'limit_check',
+  'triggered',
+  'building',
+  'submitted',
+];
+
+// Fill remainders below this fraction of the order are treated as complete
+const FILL_EPSILON = 1e-9;
+
+// Engine process recorded with the history entries it writes
+export const WORKER_ID = process.env.WORKER_ID || `${os.hostname()}:${process.pid}`;
+
+export interface OrderSubmission {
+  idempotencyKey?: string;
+  requestHash?: string;
+  // Who submitted the order, for its history
+  actor?: string;
+}
+
+export interface StatusUpdate {
+  dex?: string;
+  executedPrice?: number;
+  txHash?: string;
+  errorReason?: string;
+  errorCode?: OrderErrorCode;
+  realizedSlippage?: number;
+  // Only recorded in the order's history
+  actor?: string;
+  reason?: string;
+  quote?: QuoteSnapshot;
+}
+
+// History entry of a change, completed from the order it was applied to
+interface HistoryChange {
+  newStatus: OrderStatus;
+  actor?: string;
+  reason?: string;
+  dex?: string;
+  price?: number;
+  quote?: QuoteSnapshot;
+}
+
+// Update of an order and the history entry describing it
+interface OrderChange {
+  data: Record<string, unknown>;
+  history: HistoryChange;
+  // Return what the order still holds to the account along with the change
+  release?: boolean;
+}
 
 export class OrderService {
   /**
-   * Create a new order in the database
+   * Create a new order in the database, holding reservedAmount of the account's balance
    */
   async createOrder(
-    type: OrderType,
-    tokenIn: string,
-    tokenOut: string,
-    amountIn: number,
-    limitPrice?: number,
-    slippage: number = 0.02
+    request: CreateOrderRequest,
+    reservedAmount: number = 0,
+    submission: OrderSubmission = {}
   ): Promise<Order> {
     const order = await prisma.order.create({
       data: {
-        type,
-        tokenIn,
-        tokenOut,
-        amountIn,
-        limitPrice,
-        slippage,
+        accountId: request.accountId,
+        clientOrderId: request.clientOrderId,
+        idempotencyKey: submission.idempotencyKey,
+        requestHash: submission.requestHash,
+        type: request.type,
+        side: request.side ?? 'BUY',
+        tokenIn: request.tokenIn,
+        tokenOut: request.tokenOut,
+        amountIn: request.amountIn,
+        remainingAmount: request.amountIn,
+        reservedAmount,
+        limitPrice: request.limitPrice,
+        slippage: request.slippage ?? 0.02,
+        maxPrice: request.maxPrice,
+        timeInForce: request.timeInForce ?? 'GTC',
+        expiresAt: request.expiresAt,
         status: 'pending',
+        history: {
+          create: {
+            newStatus: 'pending',
+            actor: submission.actor ?? 'system',
+            reason: 'Order submitted',
+            workerId: WORKER_ID,
+          },
+        },
       },
     });
 
@@ -36,79 +143,346 @@ export class OrderService {
   async getOrderById(id: string): Promise<Order | null> {
     const order = await prisma.order.findUnique({
       where: { id },
+      include: { fills: { orderBy: { timestamp: 'asc' } } },
     });
 
     return order as Order | null;
   }
 
   /**
-   * Update order status
+   * Get an account's order by the caller's own ID
    */
-  async updateOrderStatus(
-    id: string,
-    status: OrderStatus,
-    data?: {
-      dex?: string;
-      executedPrice?: number;
-      txHash?: string;
-      errorReason?: string;
-    }
-  ): Promise<Order> {
-    const order = await prisma.order.update({
-      where: { id },
-      data: {
-        status,
-        ...data,
-      },
+  async getOrderByClientOrderId(accountId: string, clientOrderId: string): Promise<Order | null> {
+    const order = await prisma.order.findUnique({
+      where: { accountId_clientOrderId: { accountId, clientOrderId } },
+      include: { fills: { orderBy: { timestamp: 'asc' } } },
     });
 
-    // Log status change to history
-    if (data) {
-      await prisma.orderHistory.create({
-        data: {
-          orderId: id,
-          previousStatus: (await this.getOrderById(id))?.status || 'unknown',
+    return order as Order | null;
+  }
+
+  /**
+   * Find an earlier submission of an account carrying the same idempotency key or client order ID
+   */
+  async findSubmission(
+    accountId: string,
+    clientOrderId?: string,
+    idempotencyKey?: string
+  ): Promise<Order | null> {
+    const keys = [
+      ...(idempotencyKey ? [{ idempotencyKey }] : []),
+      ...(clientOrderId ? [{ clientOrderId }] : []),
+    ];
+    if (keys.length === 0) {
+      return null;
+    }
+
+    const order = await prisma.order.findFirst({ where: { accountId, OR: keys } });
+    return order as Order | null;
+  }
+
+  /**
+   * Fingerprint of a submission's payload, independent of field order, so a
+   * retry can be told apart from a different order reusing the same key
+   */
+  hashRequest(request: CreateOrderRequest): string {
+    const fields = Object.entries(request)
+      .filter(([, value]) => value !== undefined)
+      .sort(([a], [b]) => a.localeCompare(b));
+
+    return crypto.createHash('sha256').update(JSON.stringify(fields)).digest('hex');
+  }
+
+  /**
+   * Move order to status. Throws OrderCancelledError when it was cancelled in
+   * the meantime and InvalidTransitionError when its status cannot lead there.
+   */
+  async updateOrderStatus(id: string, status: OrderStatus, update: StatusUpdate = {}): Promise<Order> {
+    const { actor, reason, quote, ...data } = update;
+    const order = await this.applyChange(id, (existing) => {
+      if (!canTransition(existing.status, status)) {
+        if (existing.status === 'cancelled') {
+          throw new OrderCancelledError(id);
+        }
+        throw new InvalidTransitionError(id, existing.status, status);
+      }
+
+      return {
+        data: { status, ...data },
+        history: {
           newStatus: status,
+          actor,
+          reason: reason ?? data.errorReason,
           dex: data.dex,
           price: data.executedPrice,
+          quote,
         },
-      });
+        // Funds held for an order that can no longer fill go back to the account
+        release: TERMINAL_STATUSES.includes(status),
+      };
+    });
+    if (!order) {
+      throw new Error(`Order ${id} not found`);
     }
 
-    return order as Order;
+    return order;
+  }
+
+  /**
+   * Cancel order if it is still modifiable. Returns null when it is not.
+   */
+  async cancelOrder(id: string, reason: string, actor: string = 'system'): Promise<Order | null> {
+    return this.applyChange(id, (existing) =>
+      MODIFIABLE_STATUSES.includes(existing.status)
+        ? {
+            data: { status: 'cancelled', errorReason: reason },
+            history: { newStatus: 'cancelled', actor, reason },
+            release: true,
+          }
+        : null
+    );
+  }
+
+  /**
+   * Amend order parameters if it is still modifiable, adjusting the order's
+   * reservation by reservationDelta. Returns null when it is not modifiable.
+   */
+  async amendOrder(
+    id: string,
+    changes: AmendOrderRequest,
+    reservationDelta: number = 0,
+    actor: string = 'system'
+  ): Promise<Order | null> {
+    const format = (value: unknown) =>
+      value instanceof Date ? value.toISOString() : String(value ?? 'none');
+
+    const resizing = changes.amountIn !== undefined || changes.limitPrice !== undefined;
+    return this.applyChange(id, (existing) => {
+      if (
+        !MODIFIABLE_STATUSES.includes(existing.status) ||
+        (resizing && !RESIZABLE_STATUSES.includes(existing.status))
+      ) {
+        return null;
+      }
+
+      const summary = (Object.keys(changes) as Array<keyof AmendOrderRequest>)
+        .map((field) => `${field}: ${format(existing[field])} -> ${format(changes[field])}`)
+        .join(', ');
+      return {
+        data: {
+          ...changes,
+          ...(changes.amountIn !== undefined && {
+            remainingAmount: changes.amountIn - existing.filledAmount,
+          }),
+          ...(reservationDelta !== 0 && { reservedAmount: { increment: reservationDelta } }),
+        },
+        history: { newStatus: existing.status, actor, reason: `amended ${summary}` },
+      };
+    });
+  }
+
+  /**
+   * Put a failed order back to pending with fresh attempts, holding
+   * reservedAmount of the account's balance again. Returns null when the order
+   * is not failed.
+   */
+  async reopenOrder(
+    id: string,
+    reservedAmount: number,
+    reason: string,
+    actor: string = 'system'
+  ): Promise<Order | null> {
+    return this.applyChange(id, (existing) =>
+      existing.status === 'failed' && canTransition(existing.status, 'pending')
+        ? {
+            data: { status: 'pending', attempts: 0, errorReason: null, errorCode: null, reservedAmount },
+            history: { newStatus: 'pending', actor, reason },
+          }
+        : null
+    );
+  }
+
+  /**
+   * Record an action taken on an order's behalf in its history, leaving the
+   * order as it is
+   */
+  async recordAction(id: string, reason: string, actor: string = 'system'): Promise<void> {
+    await this.applyChange(id, (existing) => ({
+      data: {},
+      history: { newStatus: existing.status, actor, reason },
+    }));
+  }
+
+  /**
+   * Status history of an order, oldest first
+   */
+  async getOrderHistory(orderId: string): Promise<OrderHistoryEntry[]> {
+    const history = await prisma.orderHistory.findMany({
+      where: { orderId },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    return history as OrderHistoryEntry[];
+  }
+
+  /**
+   * Store the route selected for execution
+   */
+  async recordRoute(id: string, route: RouteSummary): Promise<void> {
+    await prisma.order.update({
+      where: { id },
+      data: { route },
+    });
+  }
+
+  /**
+   * Store venue fills of a route that are not applied to the order, such as
+   * those of a route that failed after part of it executed
+   */
+  async recordFills(orderId: string, fills: ExecutedLeg[]): Promise<void> {
+    await prisma.fill.createMany({
+      data: fills.map((fill) => ({ orderId, ...fill })),
+    });
+  }
+
+  /**
+   * Add an execution of amount at price to the order's filled and remaining
+   * amounts and average price, in one transaction with storing its venue
+   * fills, marking its landed transactions settled and settling it against the
+   * account's balances. Fails when the order is no longer open or the fill is
+   * larger than what remains of it.
+   */
+  async applyFill(id: string, amount: number, price: number, fills: ExecutedLeg[] = []): Promise<Order> {
+    return prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+      // Increment in place so concurrent fills of the order both count, and
+      // never past its remainder
+      const { count } = await tx.order.updateMany({
+        where: {
+          id,
+          status: { notIn: TERMINAL_STATUSES },
+          remainingAmount: { gte: amount * (1 - FILL_EPSILON) },
+        },
+        data: { filledAmount: { increment: amount }, remainingAmount: { decrement: amount } },
+      });
+      if (count === 0) {
+        throw new Error(`Order ${id} not found, no longer open or with less than ${amount} remaining`);
+      }
+
+      // The update holds the row lock, so this reads the fill just applied
+      const existing = (await tx.order.findUnique({ where: { id } })) as Order;
+      const previousFilled = existing.filledAmount - amount;
+      const averagePrice =
+        ((existing.averagePrice ?? 0) * previousFilled + price * amount) / existing.filledAmount;
+
+      const order = await tx.order.update({
+        where: { id },
+        data: {
+          remainingAmount: existing.remainingAmount > existing.amountIn * FILL_EPSILON ? existing.remainingAmount : 0,
+          averagePrice,
+        },
+      });
+      if (fills.length > 0) {
+        await tx.fill.createMany({ data: fills.map((fill) => ({ orderId: id, ...fill })) });
+      }
+      await tx.orderTransaction.updateMany({
+        where: { orderId: id, status: 'landed' },
+        data: { status: 'settled' },
+      });
+      await accountService.settleFill(existing, amount, price, tx);
+
+      return order as Order;
+    });
+  }
+
+  /**
+   * Fills of an order, oldest first
+   */
+  async getFills(orderId: string): Promise<Fill[]> {
+    const fills = await prisma.fill.findMany({
+      where: { orderId },
+      orderBy: { timestamp: 'asc' },
+    });
+
+    return fills as Fill[];
+  }
+
+  /**
+   * Record a swap transaction of an order before it is sent
+   */
+  async recordTransaction(
+    transaction: Omit<OrderTransaction, 'id' | 'status' | 'createdAt' | 'updatedAt'>
+  ): Promise<void> {
+    await prisma.orderTransaction.create({ data: transaction });
+  }
+
+  /**
+   * Record what became of a sent transaction, with the swap's outcome once it landed
+   */
+  async updateTransactionStatus(
+    signature: string,
+    status: OrderTransactionStatus,
+    outcome?: SwapSettlement
+  ): Promise<void> {
+    await prisma.orderTransaction.update({
+      where: { signature },
+      data: { status, ...outcome },
+    });
+  }
+
+  /**
+   * Swap transactions of an order, optionally only those in a status, oldest first
+   */
+  async getTransactions(orderId: string, status?: OrderTransactionStatus): Promise<OrderTransaction[]> {
+    const transactions = await prisma.orderTransaction.findMany({
+      where: { orderId, ...(status && { status }) },
+      orderBy: { createdAt: 'asc' },
+    });
+
+    return transactions as OrderTransaction[];
   }
 
   /**
-   * Get all orders
+   * Get all orders, or only an account's
    */
   async getAllOrders(
     limit: number = 50,
-    offset: number = 0
+    offset: number = 0,
+    accountId?: string
   ): Promise<{ orders: Order[]; total: number }> {
+    const where = accountId ? { accountId } : {};
     const [orders, total] = await Promise.all([
       prisma.order.findMany({
+        where,
         take: limit,
         skip: offset,
         orderBy: { createdAt: 'desc' },
       }),
-      prisma.order.count(),
+      prisma.order.count({ where }),
     ]);
 
     return { orders: orders as Order[], total };
   }
 
   /**
-   * Get orders by status
+   * Get orders in a status, or in any of several
    */
-  async getOrdersByStatus(status: OrderStatus): Promise<Order[]> {
+  async getOrdersByStatus(status: OrderStatus | OrderStatus[]): Promise<Order[]> {
     const orders = await prisma.order.findMany({
-      where: { status },
+      where: { status: Array.isArray(status) ? { in: status } : status },
       orderBy: { createdAt: 'desc' },
     });
 
     return orders as Order[];
   }
 
+  /**
+   * Get orders by id; ids without an order are left out
+   */
+  async getOrdersByIds(ids: string[]): Promise<Order[]> {
+    const orders = await prisma.order.findMany({ where: { id: { in: ids } } });
+    return orders as Order[];
+  }
+
   /**
    * Increment order attempts
    */
@@ -123,15 +497,81 @@ export class OrderService {
    * Get order statistics
    */
   async getStatistics() {
-    const [pending, routing, confirmed, failed, total] = await Promise.all([
+    const [
+      pending,
+      routing,
+      resting,
+      partiallyFilled,
+      confirmed,
+      failed,
+      expired,
+      cancelled,
+      total,
+    ] = await Promise.all([
       prisma.order.count({ where: { status: 'pending' } }),
       prisma.order.count({ where: { status: 'routing' } }),
+      prisma.order.count({ where: { status: 'resting' } }),
+      prisma.order.count({ where: { status: 'partially_filled' } }),
       prisma.order.count({ where: { status: 'confirmed' } }),
       prisma.order.count({ where: { status: 'failed' } }),
+      prisma.order.count({ where: { status: 'expired' } }),
+      prisma.order.count({ where: { status: 'cancelled' } }),
       prisma.order.count(),
     ]);
 
-    return { pending, routing, confirmed, failed, total };
+    return { pending, routing, resting, partiallyFilled, confirmed, failed, expired, cancelled, total };
+  }
+
+  /**
+   * Apply change to an order and write its history entry in one transaction.
+   * change decides from the order as read in the transaction, returning null
+   * to leave it alone. The update only applies while the order is still in
+   * the status read, so the entry records the status actually left; when the
+   * order moved on concurrently, change decides again. Returns the changed
+   * order, or null when there was no order or nothing to change.
+   */
+  private async applyChange(id: string, change: (existing: Order) => OrderChange | null): Promise<Order | null> {
+    for (;;) {
+      const result = await prisma.$transaction(async (tx: Prisma.TransactionClient) => {
+        const existing = (await tx.order.findUnique({ where: { id } })) as Order | null;
+        const decided = existing && change(existing);
+        if (!existing || !decided) {
+          return { order: null };
+        }
+
+        const { count } = await tx.order.updateMany({
+          where: { id, status: existing.status },
+          data: decided.data,
+        });
+        if (count === 0) {
+          return null;
+        }
+
+        await tx.orderHistory.create({
+          data: {
+            orderId: id,
+            previousStatus: existing.status,
+            ...decided.history,
+            actor: decided.history.actor ?? 'system',
+            attempt: existing.attempts,
+            workerId: WORKER_ID,
+          },
+        });
+        if (decided.release) {
+          await accountService.releaseOrder(existing, tx);
+        }
+
+        const order = await tx.order.findUnique({
+          where: { id },
+          include: { fills: { orderBy: { timestamp: 'asc' } } },
+        });
+        return { order: order as Order };
+      });
+
+      if (result) {
+        return result.order;
+      }
+    }
   }
 }
 
@@ -0,0 +1,43 @@
+// src/services/orderStateMachine.ts
+
+import { OrderStatus } from '../types';
+
+export const TERMINAL_STATUSES: OrderStatus[] = ['confirmed', 'failed', 'expired', 'cancelled'];
+
+/**
+ * Statuses each status may move to. Moving to the current status is allowed
+ * while the order is open, so a worker resuming an order can repeat its last
+ * step; an order that ended cannot end again.
+ *
+ * building and submitted may fall back to routing: recovery resumes an
+ * interrupted execution from routing once the chain shows none of its swaps landed.
+ * A resting limit order whose execution failed transiently, with nothing
+ * executed, goes back to resting or partially_filled from wherever it got to.
+ * An admin retrying a failed order's job puts it back to pending.
+ */
+export const ORDER_TRANSITIONS: Record<OrderStatus, OrderStatus[]> = {
+  pending: ['routing', 'armed', 'failed', 'expired', 'cancelled'],
+  routing: ['limit_check', 'building', 'resting', 'partially_filled', 'failed', 'expired', 'cancelled'],
+  limit_check: ['routing', 'resting', 'failed', 'expired', 'cancelled'],
+  resting: ['routing', 'failed', 'expired', 'cancelled'],
+  partially_filled: ['routing', 'failed', 'expired', 'cancelled'],
+  armed: ['triggered', 'failed', 'cancelled'],
+  triggered: ['routing', 'failed', 'cancelled'],
+  building: ['submitted', 'routing', 'resting', 'partially_filled', 'failed'],
+  submitted: ['confirmed', 'partially_filled', 'routing', 'resting', 'failed'],
+  confirmed: [],
+  failed: ['pending'],
+  expired: [],
+  cancelled: [],
+};
+
+export function canTransition(from: OrderStatus, to: OrderStatus): boolean {
+  return (from === to && !TERMINAL_STATUSES.includes(from)) || ORDER_TRANSITIONS[from].includes(to);
+}
+
+/**
+ * Statuses an order may be in to move to status, itself included
+ */
+export function getSourceStatuses(status: OrderStatus): OrderStatus[] {
+  return (Object.keys(ORDER_TRANSITIONS) as OrderStatus[]).filter((from) => canTransition(from, status));
+}
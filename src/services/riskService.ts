@@ -0,0 +1,127 @@
+// src/services/riskService.ts
+
+import prisma from '../db/prisma';
+import { accountService } from './accountService';
+import { TERMINAL_STATUSES } from './orderStateMachine';
+import { MarketSimulator, marketSimulator } from '../dex/MarketSimulator';
+import { CreateOrderRequest, Order, Reservation, RiskCheckResult } from '../types';
+
+const parseTokens = (value: string | undefined) =>
+  (value || '')
+    .split(',')
+    .map((token) => token.trim().toUpperCase())
+    .filter(Boolean);
+
+// Largest order value, in RISK_NOTIONAL_TOKEN
+export const RISK_MAX_ORDER_NOTIONAL = parseFloat(process.env.RISK_MAX_ORDER_NOTIONAL || '1000000');
+export const RISK_NOTIONAL_TOKEN = (process.env.RISK_NOTIONAL_TOKEN || 'USDC').toUpperCase();
+// Orders per account that may be open at once
+export const RISK_MAX_OPEN_ORDERS = parseInt(process.env.RISK_MAX_OPEN_ORDERS || '50');
+// Tradable tokens (empty allows all) and tokens never traded
+export const RISK_TOKEN_ALLOWLIST = parseTokens(process.env.RISK_TOKEN_ALLOWLIST);
+export const RISK_TOKEN_DENYLIST = parseTokens(process.env.RISK_TOKEN_DENYLIST);
+// Headroom held on top of a buy's worst expected cost for fees and price impact
+export const RISK_BUY_RESERVE_BUFFER = parseFloat(process.env.RISK_BUY_RESERVE_BUFFER || '0.01');
+
+type PricedOrder = Pick<Order, 'side' | 'tokenIn' | 'tokenOut' | 'slippage'> &
+  Partial<Pick<Order, 'limitPrice' | 'maxPrice'>>;
+
+/**
+ * Pre-trade checks run before an order is accepted. An order that passes
+ * reserves the balance it may spend until it fills or leaves the book.
+ */
+export class RiskService {
+  private simulator: MarketSimulator;
+
+  constructor(simulator: MarketSimulator = marketSimulator) {
+    this.simulator = simulator;
+  }
+
+  /**
+   * Check an order against the account's limits and reserve its funds
+   */
+  async checkOrder(request: CreateOrderRequest): Promise<RiskCheckResult> {
+    const { accountId, tokenIn, tokenOut, amountIn } = request;
+
+    const account = await accountService.getAccountById(accountId);
+    if (!account) {
+      return { success: false, code: 'ACCOUNT_NOT_FOUND', error: `Account ${accountId} not found` };
+    }
+
+    const blocked = [tokenIn, tokenOut].find((token) => !this.isTokenAllowed(token));
+    if (blocked) {
+      return { success: false, code: 'TOKEN_NOT_ALLOWED', error: `${blocked} is not tradable` };
+    }
+
+    const notional = this.getNotional(tokenIn, amountIn);
+    if (notional > RISK_MAX_ORDER_NOTIONAL) {
+      return {
+        success: false,
+        code: 'MAX_NOTIONAL_EXCEEDED',
+        error: `Order notional ${notional.toFixed(2)} ${RISK_NOTIONAL_TOKEN} exceeds the maximum of ${RISK_MAX_ORDER_NOTIONAL}`,
+      };
+    }
+
+    const openOrders = await prisma.order.count({
+      where: { accountId, status: { notIn: TERMINAL_STATUSES } },
+    });
+    if (openOrders >= RISK_MAX_OPEN_ORDERS) {
+      return {
+        success: false,
+        code: 'MAX_OPEN_ORDERS',
+        error: `Account already has ${openOrders} open orders (maximum ${RISK_MAX_OPEN_ORDERS})`,
+      };
+    }
+
+    const reservation = this.getReservation(
+      { ...request, side: request.side ?? 'BUY', slippage: request.slippage ?? 0.02 },
+      amountIn
+    );
+    if (!(await accountService.reserve(accountId, reservation))) {
+      const available =
+        account.balances?.find((balance) => balance.token === reservation.token)?.available ?? 0;
+      return {
+        success: false,
+        code: 'INSUFFICIENT_BALANCE',
+        error: `Insufficient ${reservation.token} balance: ${reservation.amount} required, ${available} available`,
+      };
+    }
+
+    return { success: true, reservation };
+  }
+
+  /**
+   * Funds to hold for amount of an order: the tokenIn a sell spends, or what a
+   * buy may pay at its limit, max or current mid price after slippage
+   */
+  getReservation(order: PricedOrder, amount: number): Reservation {
+    const token = accountService.getReservedToken(order);
+    if (order.side === 'SELL') {
+      return { token, amount };
+    }
+
+    const price =
+      order.limitPrice ?? order.maxPrice ?? this.simulator.getMidPrice(order.tokenIn, order.tokenOut);
+    return { token, amount: amount * price * (1 + order.slippage) * (1 + RISK_BUY_RESERVE_BUFFER) };
+  }
+
+  private isTokenAllowed(token: string): boolean {
+    const symbol = token.toUpperCase();
+    if (RISK_TOKEN_DENYLIST.includes(symbol)) {
+      return false;
+    }
+    return RISK_TOKEN_ALLOWLIST.length === 0 || RISK_TOKEN_ALLOWLIST.includes(symbol);
+  }
+
+  /**
+   * Value of amount of token in RISK_NOTIONAL_TOKEN at the current mid price
+   */
+  private getNotional(token: string, amount: number): number {
+    if (token.toUpperCase() === RISK_NOTIONAL_TOKEN) {
+      return amount;
+    }
+    return amount * this.simulator.getMidPrice(token, RISK_NOTIONAL_TOKEN);
+  }
+}
+
+export const riskService = new RiskService();
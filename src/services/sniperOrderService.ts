@@ -0,0 +1,211 @@
+// src/services/sniperOrderService.ts
+
+import { OrderExecutor } from './orderExecutor';
+import { orderService } from './orderService';
+import { poolRegistry } from '../dex/PoolRegistry';
+import { dexRegistry } from '../dex/DexRegistry';
+import { addOrderToQueue, buildJobData } from '../queue/orderQueue';
+import { MaxPriceExceededError, OrderExpiredError } from '../errors';
+import { ExecutionResult, Order, PoolInfo, RouteOptions } from '../types';
+
+export const SNIPER_DEFAULT_EXPIRY_MS = parseInt(
+  process.env.SNIPER_DEFAULT_EXPIRY_MS || '3600000'
+);
+
+const MAX_TIMER_DELAY_MS = 2147483647;
+
+export class SniperOrderService extends OrderExecutor {
+  private armedOrders: Map<string, Order> = new Map();
+  private expiryTimers: Map<string, NodeJS.Timeout> = new Map();
+  private started = false;
+
+  /**
+   * Subscribe to pool events and re-arm orders persisted before a restart
+   */
+  async start(): Promise<void> {
+    if (!this.started) {
+      poolRegistry.on('pool', (pool: PoolInfo) => {
+        this.handlePoolEvent(pool).catch((error) =>
+          console.error('[SNIPER] Error handling pool event:', error)
+        );
+      });
+      this.started = true;
+    }
+
+    const armed = await orderService.getOrdersByStatus('armed');
+    armed.forEach((order) => this.watch(order));
+
+    console.log(`[SNIPER] Restored ${armed.length} armed order(s)`);
+  }
+
+  /**
+   * Process sniper order: fire if a pool exists, otherwise arm and wait for one.
+   * Retryable failures are rethrown while the job has retriesLeft.
+   */
+  async processSniperOrder(order: Order, retriesLeft: number = 0): Promise<ExecutionResult> {
+    try {
+      if (this.isExpired(order)) {
+        throw new OrderExpiredError('Sniper order expired before a pool was created');
+      }
+
+      const pools = poolRegistry.getPools(order.tokenIn, order.tokenOut);
+      if (pools.length === 0) {
+        return await this.arm(order);
+      }
+
+      return await this.fire(order, pools);
+    } catch (error) {
+      return this.failOrder(order, error, retriesLeft);
+    }
+  }
+
+  /**
+   * Stop watching a cancelled order
+   */
+  disarm(orderId: string): boolean {
+    const wasArmed = this.armedOrders.has(orderId);
+    this.unwatch(orderId);
+    return wasArmed;
+  }
+
+  /**
+   * Replace the watched snapshot of an amended armed order, rescheduling its expiry
+   */
+  rearm(order: Order): void {
+    if (this.armedOrders.has(order.id)) {
+      this.watch(order);
+    }
+  }
+
+  /**
+   * Number of orders currently waiting for a pool
+   */
+  getArmedCount(): number {
+    return this.armedOrders.size;
+  }
+
+  /**
+   * Persist armed state and start watching for a matching pool
+   */
+  private async arm(order: Order): Promise<ExecutionResult> {
+    await this.emitStatus(order, 'armed', {
+      message: `Waiting for ${order.tokenIn}/${order.tokenOut} pool...`,
+      maxPrice: order.maxPrice,
+      expiresAt: order.expiresAt,
+    });
+
+    this.watch(order);
+
+    return { success: true, status: 'armed' };
+  }
+
+  /**
+   * Route on the venues that have a pool and execute within the price guards
+   */
+  private async fire(order: Order, pools: PoolInfo[]): Promise<ExecutionResult> {
+    await this.emitStatus(order, 'routing', {
+      message: 'Fetching quotes from pools...',
+    });
+    // Quote the size as of routing, after which it can no longer be amended
+    const routed = await this.reloadOrder(order);
+
+    // Only venues that both have the pool and are enabled for routing
+    const enabledVenues = dexRegistry.getVenuesForPair(order.tokenIn, order.tokenOut);
+    const routeOptions: RouteOptions = {
+      side: order.side,
+      venues: pools.map((pool) => pool.dex).filter((dex) => enabledVenues.includes(dex)),
+      // Snipe the new pool itself rather than a path around it
+      maxHops: 1,
+    };
+    const routeResult = await this.dexRouter.routeOrder(
+      routed.tokenIn,
+      routed.tokenOut,
+      routed.remainingAmount,
+      routeOptions
+    );
+
+    const latest = await this.reloadOrder(routed);
+
+    if (!this.isWithinMaxPrice(latest, routeResult)) {
+      throw new MaxPriceExceededError(routeResult.effectivePrice, latest.maxPrice!, latest.side);
+    }
+
+    return this.executeRoute(latest, routeResult, routeOptions);
+  }
+
+  /**
+   * Trigger all armed orders for the pair of a newly available pool
+   */
+  private async handlePoolEvent(pool: PoolInfo): Promise<void> {
+    const matching = Array.from(this.armedOrders.values()).filter((order) =>
+      poolRegistry.matches(pool, order.tokenIn, order.tokenOut)
+    );
+
+    for (const order of matching) {
+      this.unwatch(order.id);
+
+      try {
+        await this.emitStatus(order, 'triggered', {
+          dex: pool.dex,
+          message: `${pool.event} detected for ${pool.tokenA}/${pool.tokenB}`,
+        });
+      } catch (error) {
+        // Cancelled or failed since it was armed
+        console.error(`[SNIPER] Could not trigger order ${order.id}:`, error);
+        continue;
+      }
+
+      await addOrderToQueue(order.id, buildJobData(order), `${order.id}-trigger`);
+
+      console.log(`[SNIPER] Order ${order.id} triggered by ${pool.event} on ${pool.dex}`);
+    }
+  }
+
+  /**
+   * Track armed order in memory and schedule its expiry
+   */
+  private watch(order: Order): void {
+    this.unwatch(order.id);
+    this.armedOrders.set(order.id, order);
+
+    if (order.expiresAt) {
+      // setTimeout caps at ~24.8 days, so long expiries re-check when the timer fires
+      const delay = Math.min(
+        Math.max(new Date(order.expiresAt).getTime() - Date.now(), 0),
+        MAX_TIMER_DELAY_MS
+      );
+      const timer = setTimeout(() => {
+        if (!this.isExpired(order)) {
+          this.watch(order);
+          return;
+        }
+        this.unwatch(order.id);
+        this.failOrder(
+          order,
+          new OrderExpiredError('Sniper order expired before a pool was created')
+        ).catch((error) => console.error('[SNIPER] Error expiring order:', error));
+      }, delay);
+      timer.unref();
+      this.expiryTimers.set(order.id, timer);
+    }
+  }
+
+  /**
+   * Stop watching an order
+   */
+  private unwatch(orderId: string): void {
+    this.armedOrders.delete(orderId);
+
+    const timer = this.expiryTimers.get(orderId);
+    if (timer) {
+      clearTimeout(timer);
+      this.expiryTimers.delete(orderId);
+    }
+  }
+
+  private isExpired(order: Order): boolean {
+    return !!order.expiresAt && new Date(order.expiresAt).getTime() <= Date.now();
+  }
+}
+
+export const sniperOrderService = new SniperOrderService();
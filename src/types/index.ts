@@ -4,63 +4,499 @@ export type OrderStatus =
   | 'pending' 
   | 'routing' 
   | 'limit_check' 
+  | 'resting'
+  | 'partially_filled'
+  | 'armed'
+  | 'triggered'
   | 'building' 
   | 'submitted' 
   | 'confirmed' 
-  | 'failed';
+  | 'failed'
+  | 'expired'
+  | 'cancelled';
 
 export type OrderType = 'LIMIT' | 'MARKET' | 'SNIPER';
 
-export type DexType = 'RAYDIUM' | 'METEORA';
+export type OrderSide = 'BUY' | 'SELL';
+
+export type TimeInForce = 'GTC' | 'GTD' | 'IOC' | 'FOK';
+
+// Venue name as registered in the DEX registry, e.g. RAYDIUM, METEORA, ORCA
+export type DexType = string;
+
+export type PoolEventType = 'POOL_CREATED' | 'MIGRATION';
 
 export interface CreateOrderRequest {
+  accountId: string;
+  clientOrderId?: string;
   type: OrderType;
+  side?: OrderSide;
   tokenIn: string;
   tokenOut: string;
   amountIn: number;
   limitPrice?: number;
   slippage?: number;
+  maxPrice?: number;
+  timeInForce?: TimeInForce;
+  expiresAt?: Date;
+}
+
+export interface AmendOrderRequest {
+  limitPrice?: number;
+  amountIn?: number;
+  slippage?: number;
+  expiresAt?: Date;
 }
 
 export interface Order {
   id: string;
+  accountId: string;
+  clientOrderId?: string;
+  idempotencyKey?: string;
+  // Fingerprint of the submitted payload; retries must match it
+  requestHash?: string;
   type: OrderType;
+  side: OrderSide;
   tokenIn: string;
   tokenOut: string;
   amountIn: number;
+  // Progress across partial fills, in tokenIn
+  filledAmount: number;
+  remainingAmount: number;
+  // Volume-weighted price of everything filled so far
+  averagePrice?: number;
+  // Balance still held for the order: tokenIn for SELL, tokenOut for BUY
+  reservedAmount: number;
   limitPrice?: number;
   slippage: number;
+  maxPrice?: number;
+  timeInForce: TimeInForce;
+  expiresAt?: Date;
   status: OrderStatus;
+  // Times a worker picked the order up for execution
+  attempts: number;
   dex?: DexType;
   executedPrice?: number;
   txHash?: string;
   errorReason?: string;
+  errorCode?: OrderErrorCode;
+  // Adverse deviation of the executed price from the routed quote
+  realizedSlippage?: number;
+  route?: RouteSummary;
+  // Per-venue fills of every hop of every execution
+  fills?: Fill[];
   createdAt: Date;
   updatedAt: Date;
 }
 
+export interface Account {
+  id: string;
+  name: string;
+  balances?: Balance[];
+  createdAt: Date;
+  updatedAt: Date;
+}
+
+export interface Balance {
+  id: string;
+  accountId: string;
+  token: string;
+  available: number;
+  // Held for open orders
+  reserved: number;
+  updatedAt: Date;
+}
+
+export interface ApiKeyCredentials {
+  id: string;
+  accountId: string | null;
+  admin: boolean;
+  // Returned once at issue time
+  apiKey: string;
+  secret: string;
+}
+
+// Identity of an authenticated request
+export interface AuthContext {
+  keyId: string;
+  accountId: string | null;
+  admin: boolean;
+}
+
+// Balance an order holds while open
+export interface Reservation {
+  token: string;
+  amount: number;
+}
+
+export type RiskErrorCode =
+  | 'ACCOUNT_NOT_FOUND'
+  | 'TOKEN_NOT_ALLOWED'
+  | 'MAX_NOTIONAL_EXCEEDED'
+  | 'MAX_OPEN_ORDERS'
+  | 'INSUFFICIENT_BALANCE';
+
+export type RiskCheckResult =
+  | { success: true; reservation: Reservation }
+  | { success: false; code: RiskErrorCode; error: string };
+
+export type AdmissionErrorCode = 'RATE_LIMITED' | 'QUEUE_FULL' | 'CONCURRENCY_LIMIT';
+
+// Why an order's execution failed, persisted as the order's errorCode
+export type OrderErrorCode =
+  | 'QUOTE_TIMEOUT'
+  | 'VENUE_UNAVAILABLE'
+  | 'INSUFFICIENT_LIQUIDITY'
+  | 'LIMIT_NOT_REACHED'
+  | 'MAX_PRICE_EXCEEDED'
+  | 'SLIPPAGE_EXCEEDED'
+  | 'INSUFFICIENT_FUNDS'
+  | 'PROGRAM_ERROR'
+  | 'TRANSACTION_EXPIRED'
+  | 'ORDER_EXPIRED'
+  | 'PARTIAL_EXECUTION'
+  | 'EXECUTION_INTERRUPTED'
+  | 'INSUFFICIENT_BALANCE'
+  | 'ORDER_AMENDED'
+  | 'INVALID_TRANSITION'
+  | 'INTERNAL_ERROR';
+
+export type AdmissionResult =
+  | { success: true }
+  | { success: false; code: AdmissionErrorCode; error: string; retryAfterMs: number };
+
+export interface ExecutedLeg {
+  // Position of the hop in the route path
+  hop: number;
+  tokenIn: string;
+  tokenOut: string;
+  dex: DexType;
+  amountIn: number;
+  executedPrice: number;
+  amountOut: number;
+  // Venue fee paid, in the hop's tokenOut
+  fee: number;
+  priceImpact: number;
+  txHash: string;
+}
+
+export interface Fill extends ExecutedLeg {
+  id: string;
+  orderId: string;
+  timestamp: Date;
+}
+
+// Routed quote a status transition was decided on
+export type QuoteSnapshot = Pick<
+  DexRouterResult,
+  'selectedDex' | 'price' | 'effectivePrice' | 'priceImpact' | 'expectedOutput' | 'path'
+>;
+
+// One step of an order's audit trail
+export interface OrderHistoryEntry {
+  id: string;
+  orderId: string;
+  // Absent for the order's creation
+  previousStatus?: OrderStatus;
+  newStatus: OrderStatus;
+  // system, or account:<keyId> / admin:<keyId> for API requests
+  actor: string;
+  reason?: string;
+  dex?: DexType;
+  price?: number;
+  quote?: QuoteSnapshot;
+  // Worker attempts at the time of the transition
+  attempt: number;
+  workerId?: string;
+  timestamp: Date;
+}
+
 export interface DexQuote {
+  // Venue spot price before the trade, in tokenOut per tokenIn
   price: number;
   fee: number;
   dex: DexType;
+  side: OrderSide;
+  // Requested amount of tokenIn
+  amount: number;
+  // tokenOut paid (BUY) or received (SELL) for the amount, after fees and impact
+  quoteAmount: number;
+  // What the trader receives: tokenIn for BUY, tokenOut for SELL
+  expectedOutput: number;
+  // quoteAmount / amount
+  effectivePrice: number;
+  // Relative move of the average fill from spot, before fees
+  priceImpact: number;
+  // Pool reserve of the token the trader receives
+  availableLiquidity: number;
+  // False when the pool cannot absorb the full amount
+  fillable: boolean;
+}
+
+export type LiquidityConfig =
+  // Raydium-style x*y=k pool; depth is the tokenOut value of the tokenIn reserve
+  | { model: 'constant_product'; depth: number }
+  // Meteora-style discrete price bins around the active bin
+  | { model: 'bins'; binStep: number; binLiquidity: number; binsPerSide: number };
+
+export interface VenueConfig {
+  name: DexType;
+  enabled: boolean;
+  timeoutMs: number;
+  fee: number;
+  minVariance: number;
+  maxVariance: number;
+  quoteLatencyMs: number;
+  // Extra random latency drawn from the simulator on every quote
+  latencyJitterMs?: number;
+  // Pairs as "TOKENA/TOKENB"; omitted means every pair is supported
+  pairs?: string[];
+  liquidity: LiquidityConfig;
+  // Relative execution noise around the last quoted price (default 0.01)
+  fillJitter?: number;
+}
+
+export type PriceProcess = 'static' | 'random_walk' | 'trending' | 'scripted';
+
+export interface SimulatorConfig {
+  seed: number;
+  process: PriceProcess;
+  // Mid prices keyed by "TOKENIN/TOKENOUT", quoted in tokenOut per tokenIn
+  basePrices: Record<string, number>;
+  defaultBasePrice: number;
+  // Per-step standard deviation of log returns (random_walk, trending)
+  volatility: number;
+  // Per-step log drift (trending)
+  drift: number;
+  // Price paths keyed by pair (scripted); the last price holds once exhausted
+  pricePaths?: Record<string, number[]>;
+  // Auto-advance interval; 0 only advances on explicit calls
+  stepMs: number;
+}
+
+export type Commitment = 'processed' | 'confirmed' | 'finalized';
+
+export type ChainFailure = 'expired' | 'dropped' | 'insufficient_funds' | 'program_error';
+
+export interface ChainConfig {
+  slotMs: number;
+  // Slots after landing until a transaction counts as confirmed / finalized
+  confirmationDepth: number;
+  finalizationDepth: number;
+  // Slots after its blockhash was issued that a transaction may still land
+  blockhashValiditySlots: number;
+  // Probability of each injected failure per submitted transaction
+  failureRates: Partial<Record<ChainFailure, number>>;
+}
+
+export interface ChainInstruction {
+  programId: string;
+  data: Record<string, unknown>;
+}
+
+export interface ChainTransaction {
+  signature: string;
+  feePayer: string;
+  recentBlockhash: string;
+  instructions: ChainInstruction[];
+}
+
+export interface SignatureStatus {
+  signature: string;
+  // Slot the transaction landed in, null while pending
+  slot: number | null;
+  commitment: Commitment | null;
+  err: string | null;
+}
+
+export interface ConfirmedTransaction {
+  signature: string;
+  slot: number;
+  commitment: Commitment;
+  // Value returned by each instruction's program
+  returnData: unknown[];
+}
+
+export interface VenueHealth {
+  name: DexType;
+  status: 'healthy' | 'degraded' | 'down';
+  latencyMs?: number;
+  checkedAt: Date;
+}
+
+// closed: routed to; open: skipped after repeated failures; half_open: one probe request allowed
+export type CircuitState = 'closed' | 'open' | 'half_open';
+
+// Rolling quote statistics and circuit breaker state of a venue
+export interface VenueStats {
+  name: DexType;
+  status: VenueHealth['status'];
+  circuit: CircuitState;
+  // Over the last requests of the rolling window
+  requests: number;
+  errors: number;
+  errorRate: number;
+  avgLatencyMs: number | null;
+  p95LatencyMs: number | null;
+  consecutiveFailures: number;
+  lastError?: string;
+  openedAt?: Date;
+}
+
+export interface PoolInfo {
+  dex: DexType;
+  tokenA: string;
+  tokenB: string;
+  event: PoolEventType;
+  createdAt: Date;
+}
+
+export interface RouteOptions {
+  side?: OrderSide;
+  venues?: DexType[];
+  // 1 restricts routing to the direct pair
+  maxHops?: number;
+  // Route whatever part of the amount the venues can fill instead of failing
+  allowPartial?: boolean;
+}
+
+export interface RouteLeg {
+  dex: DexType;
+  // Share of the order's amountIn routed to this venue
+  amountIn: number;
+  price: number;
+  fee: number;
+  effectivePrice: number;
+  expectedOutput: number;
+  priceImpact: number;
+}
+
+export interface RouteHop {
+  tokenIn: string;
+  tokenOut: string;
+  // Amount of the hop's tokenIn bought (BUY) or sold (SELL); less than
+  // requested when a partial route was allowed
+  amountIn: number;
+  // Venue taking the largest leg
+  selectedDex: DexType;
+  // Spot price, fee and impact are amount-weighted across legs
+  price: number;
+  fee: number;
+  effectivePrice: number;
+  // Hop's tokenOut paid (BUY) or received (SELL) after fees and impact
+  quoteAmount: number;
+  expectedOutput: number;
+  priceImpact: number;
+  legs: RouteLeg[];
 }
 
 export interface DexRouterResult {
+  // Primary venue of the first hop
   selectedDex: DexType;
+  // Product of the hops' spot prices, in tokenOut per tokenIn
   price: number;
+  // Fee and impact compounded over the hops
   fee: number;
   effectivePrice: number;
+  expectedOutput: number;
+  priceImpact: number;
+  // Tokens traversed, e.g. ['BONK', 'SOL', 'USDC']
+  path: string[];
+  hops: RouteHop[];
+}
+
+// Route as stored on the order (a JSON column) and sent with the routing event
+export type RouteSummary = {
+  path: string[];
+  effectivePrice: number;
+  hops: Array<{
+    tokenIn: string;
+    tokenOut: string;
+    venues: Array<{ dex: DexType; amountIn: number }>;
+  }>;
+};
+
+export interface PriceTick {
+  pair: string;
+  buyPrice: number;
+  sellPrice: number;
+  timestamp: Date;
+}
+
+export interface SwapParams {
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  side: OrderSide;
+  // Revert bounds: most a buy may pay per tokenIn, least a sell may receive in total
+  maxPrice?: number;
+  minAmountOut?: number;
+}
+
+export interface SwapOptions {
+  // Commitment to wait for before the swap counts as filled
+  commitment?: Commitment;
+  onCommitment?: (status: SignatureStatus) => void;
+  // Called with the signed transaction before it is sent
+  onSend?: (signature: string, lastValidSlot: number) => Promise<void>;
+}
+
+// settled: landed and applied to the order's filled amount and the account's balances
+export type OrderTransactionStatus = 'sent' | 'landed' | 'settled' | 'failed' | 'expired';
+
+export interface OrderTransaction {
+  id: string;
+  orderId: string;
+  signature: string;
+  hop: number;
+  dex: DexType;
+  tokenIn: string;
+  tokenOut: string;
+  amountIn: number;
+  lastValidSlot: number;
+  status: OrderTransactionStatus;
+  // Outcome of a transaction that landed
+  executedPrice?: number | null;
+  amountOut?: number | null;
+  fee?: number | null;
+  priceImpact?: number | null;
+  createdAt: Date;
+  updatedAt: Date;
 }
 
+// What the venue program returns when a swap lands
+export type SwapSettlement = Pick<SwapResult, 'executedPrice' | 'amountOut' | 'fee' | 'priceImpact'>;
+
 export interface SwapResult {
   txHash: string;
+  // Slot the transaction landed in and the commitment it reached
+  slot: number;
+  commitment: Commitment;
+  // Average fill price after fees and impact, in tokenOut per tokenIn
   executedPrice: number;
+  amountOut: number;
+  // Fee paid, in tokenOut
+  fee: number;
+  priceImpact: number;
   timestamp: Date;
 }
 
+export interface ExecutionResult {
+  success: boolean;
+  status?: OrderStatus;
+  // Amount filled by this execution, in tokenIn
+  filledAmount?: number;
+  executedPrice?: number;
+  txHash?: string;
+  error?: string;
+}
+
 export interface WebSocketMessage {
   orderId: string;
+  // Position in the order's event log; absent if the event could not be persisted
+  seq?: number;
   status: OrderStatus;
+  event?: 'amended' | 'commitment' | 'retry';
   data?: {
     dex?: DexType;
     price?: number;
@@ -71,12 +507,76 @@ export interface WebSocketMessage {
   timestamp: Date;
 }
 
+// Order fields the WebSocket channels filter on
+export type OrderRef = Pick<Order, 'id' | 'accountId' | 'tokenIn' | 'tokenOut'>;
+
+// A WebSocket channel subscription. accountId scopes pair and status
+// channels to one account; admins may leave it out to see every account.
+export type Subscription =
+  | { channel: 'order'; orderId: string }
+  | { channel: 'account'; accountId: string }
+  | { channel: 'pair'; pair: string; accountId?: string }
+  | { channel: 'status'; statuses: OrderStatus[]; accountId?: string }
+  | { channel: 'market'; pair: string };
+
+// Routed quote streamed on the market channel of its pair
+export interface MarketDataMessage {
+  pair: string;
+  tokenIn: string;
+  tokenOut: string;
+  side: OrderSide;
+  amount: number;
+  dex: DexType;
+  path: string[];
+  price: number;
+  effectivePrice: number;
+  priceImpact: number;
+  expectedOutput: number;
+  timestamp: Date;
+}
+
 export interface JobData {
   orderId: string;
   type: OrderType;
+  side: OrderSide;
   tokenIn: string;
   tokenOut: string;
   amountIn: number;
   limitPrice?: number;
   slippage: number;
+  maxPrice?: number;
+}
+
+// Job whose last attempt failed, parked in the dead-letter queue until an admin retries or purges it
+export interface DeadLetterData extends JobData {
+  jobId: string;
+  jobName: string;
+  attempts: number;
+  attemptsMade: number;
+  failedReason: string;
+  stacktrace: string[];
+  enqueuedAt: number;
+  failedAt: number;
+}
+
+// dead: in the dead-letter queue
+export type QueueJobState = 'waiting' | 'active' | 'delayed' | 'failed' | 'dead';
+
+export interface QueueJobSummary {
+  id: string;
+  name: string;
+  state: QueueJobState;
+  orderId: string;
+  attemptsMade: number;
+  attempts: number;
+  failedReason?: string;
+  createdAt: Date;
+  processedAt?: Date;
+  finishedAt?: Date;
+  order: Pick<Order, 'id' | 'type' | 'status' | 'errorCode' | 'errorReason'> | null;
+}
+
+export interface QueueJobDetail extends QueueJobSummary {
+  data: JobData;
+  stacktrace: string[];
 }
@@ -0,0 +1,112 @@
+// src/websocket/protocol.ts
+
+import { z } from 'zod';
+
+// Version announced in the hello message. Version 1 messages (subscribe or
+// unsubscribe with only an orderId) are still accepted as order channel requests.
+export const PROTOCOL_VERSION = 2;
+
+export const CHANNELS = ['order', 'account', 'pair', 'status', 'market'] as const;
+
+const OrderStatusSchema = z.enum([
+  'pending',
+  'routing',
+  'limit_check',
+  'resting',
+  'partially_filled',
+  'armed',
+  'triggered',
+  'building',
+  'submitted',
+  'confirmed',
+  'failed',
+  'expired',
+  'cancelled',
+]);
+
+// "BASE/QUOTE"; either orientation matches
+const PairSchema = z
+  .string()
+  .regex(/^[^/\s]+\/[^/\s]+$/, 'Expected a pair like SOL/USDC')
+  .transform((pair) => pair.toUpperCase());
+
+const base = z.object({ v: z.literal(PROTOCOL_VERSION).optional() });
+const subscribe = base.extend({ action: z.literal('subscribe') });
+
+const SubscribeMessageSchema = z.preprocess(
+  (value) =>
+    value && typeof value === 'object' && !('channel' in value) && 'orderId' in value
+      ? { ...value, channel: 'order' }
+      : value,
+  z.discriminatedUnion('channel', [
+    subscribe
+      .extend({
+        channel: z.literal('order'),
+        orderId: z.string().min(1),
+        // Replay persisted events from this seq on before streaming live ones
+        fromSeq: z.number().int().nonnegative().optional(),
+      })
+      .strict(),
+    subscribe.extend({ channel: z.literal('account'), accountId: z.string().min(1).optional() }).strict(),
+    subscribe
+      .extend({ channel: z.literal('pair'), pair: PairSchema, accountId: z.string().min(1).optional() })
+      .strict(),
+    subscribe
+      .extend({
+        channel: z.literal('status'),
+        statuses: z.array(OrderStatusSchema).min(1),
+        accountId: z.string().min(1).optional(),
+      })
+      .strict(),
+    subscribe.extend({ channel: z.literal('market'), pair: PairSchema }).strict(),
+  ])
+);
+
+const UnsubscribeMessageSchema = base
+  .extend({
+    action: z.literal('unsubscribe'),
+    subscriptionId: z.string().min(1).optional(),
+    // Version 1: drop the order channel subscriptions of an order
+    orderId: z.string().min(1).optional(),
+  })
+  .strict()
+  .refine((message) => !message.subscriptionId !== !message.orderId, {
+    message: 'Exactly one of subscriptionId or orderId is required',
+  });
+
+export type SubscribeMessage = z.infer<typeof SubscribeMessageSchema>;
+export type UnsubscribeMessage = z.infer<typeof UnsubscribeMessageSchema>;
+export type ClientMessage = SubscribeMessage | UnsubscribeMessage;
+
+export type ParseResult =
+  | { success: true; message: ClientMessage }
+  | { success: false; error: string; details?: z.ZodIssue[] };
+
+/**
+ * Parse and validate a message received from a client
+ */
+export function parseClientMessage(raw: string): ParseResult {
+  let value: unknown;
+  try {
+    value = JSON.parse(raw);
+  } catch {
+    return { success: false, error: 'Invalid JSON' };
+  }
+
+  const { v, action } = (value ?? {}) as { v?: unknown; action?: unknown };
+  if (v !== undefined && v !== PROTOCOL_VERSION) {
+    return { success: false, error: `Unsupported protocol version ${v}; this server speaks ${PROTOCOL_VERSION}` };
+  }
+
+  const schema =
+    action === 'subscribe' ? SubscribeMessageSchema : action === 'unsubscribe' ? UnsubscribeMessageSchema : null;
+  if (!schema) {
+    return { success: false, error: 'action must be subscribe or unsubscribe' };
+  }
+
+  const result = schema.safeParse(value);
+  if (!result.success) {
+    return { success: false, error: 'Invalid message', details: result.error.errors };
+  }
+  return { success: true, message: result.data };
+}
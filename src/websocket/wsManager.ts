@@ -1,74 +1,275 @@
 // src/websocket/wsManager.ts
 
 import { WebSocket } from 'ws';
-import { WebSocketMessage } from '../types';
+import { MarketDataMessage, OrderRef, OrderStatus, Subscription, WebSocketMessage } from '../types';
 
-class WebSocketManager {
-  private connections: Map<string, Set<WebSocket>> = new Map();
+export const pairOf = (tokenA: string, tokenB: string) => `${tokenA}/${tokenB}`.toUpperCase();
+
+const matchesPair = (pair: string, tokenIn: string, tokenOut: string) =>
+  pair === pairOf(tokenIn, tokenOut) || pair === pairOf(tokenOut, tokenIn);
+
+/**
+ * Whether an update of the order belongs on the subscription's channel
+ */
+function matchesOrder(subscription: Subscription, order: OrderRef, status: OrderStatus): boolean {
+  switch (subscription.channel) {
+    case 'order':
+      return subscription.orderId === order.id;
+    case 'account':
+      return subscription.accountId === order.accountId;
+    case 'pair':
+      return (
+        matchesPair(subscription.pair, order.tokenIn, order.tokenOut) &&
+        (!subscription.accountId || subscription.accountId === order.accountId)
+      );
+    case 'status':
+      return (
+        subscription.statuses.includes(status) &&
+        (!subscription.accountId || subscription.accountId === order.accountId)
+      );
+    case 'market':
+      return false;
+  }
+}
+
+interface SocketState {
+  subscriptions: Map<string, Subscription>;
+  // Replays in progress; live order updates wait in buffer until they finish
+  replays: number;
+  buffer: Array<{ order: OrderRef; message: WebSocketMessage; subscriptionIds: string[] }>;
+  // Highest seq delivered per order, so replayed and live events never repeat
+  lastSeq: Map<string, number>;
+}
+
+export class WebSocketManager {
+  private sockets: Map<WebSocket, SocketState> = new Map();
+  private nextSubscriptionId = 0;
 
   /**
-   * Register a WebSocket connection for an order
+   * Track a newly opened socket
    */
-  register(orderId: string, socket: WebSocket): void {
-    if (!this.connections.has(orderId)) {
-      this.connections.set(orderId, new Set());
-    }
-    this.connections.get(orderId)!.add(socket);
-    console.log(`[WS] Client subscribed to order ${orderId}`);
+  connect(socket: WebSocket): void {
+    this.getState(socket);
   }
 
   /**
-   * Unregister a WebSocket connection
+   * Subscribe a socket to a channel. Returns the subscription ID to unsubscribe with.
+   * With replay, live order updates are held back until completeReplay.
    */
-  unregister(orderId: string, socket: WebSocket): void {
-    const sockets = this.connections.get(orderId);
-    if (sockets) {
-      sockets.delete(socket);
-      if (sockets.size === 0) {
-        this.connections.delete(orderId);
-      }
+  subscribe(socket: WebSocket, subscription: Subscription, replay: boolean = false): string {
+    const state = this.getState(socket);
+
+    const id = `sub-${++this.nextSubscriptionId}`;
+    state.subscriptions.set(id, subscription);
+    if (replay) {
+      state.replays++;
     }
+    console.log(`[WS] Client subscribed to ${subscription.channel} channel (${id})`);
+    return id;
   }
 
   /**
-   * Emit status update to all connected clients for an order
+   * Send the persisted events a subscription missed, then release the live
+   * updates held back meanwhile. Events the socket already has are skipped.
    */
-  emit(orderId: string, message: WebSocketMessage): void {
-    const sockets = this.connections.get(orderId);
-    if (!sockets) {
-      console.log(`[WS] No active connections for order ${orderId}`);
+  completeReplay(
+    socket: WebSocket,
+    subscriptionId: string,
+    order: OrderRef,
+    events: WebSocketMessage[]
+  ): void {
+    const state = this.sockets.get(socket);
+    if (!state) {
       return;
     }
 
-    const payload = JSON.stringify(message);
-    sockets.forEach((socket) => {
-      if (socket.readyState === WebSocket.OPEN) {
-        socket.send(payload);
+    let replayed = 0;
+    events.forEach((message) => {
+      replayed += this.deliver(socket, state, order, message, [subscriptionId], true) ? 1 : 0;
+    });
+    if (socket.readyState === WebSocket.OPEN) {
+      socket.send(
+        JSON.stringify({
+          type: 'replayed',
+          subscriptionId,
+          orderId: order.id,
+          count: replayed,
+          lastSeq: state.lastSeq.get(order.id) ?? 0,
+        })
+      );
+    }
+
+    this.releaseReplay(socket, state);
+  }
+
+  /**
+   * Give up on a replay that could not be loaded and release the held updates
+   */
+  abortReplay(socket: WebSocket): void {
+    const state = this.sockets.get(socket);
+    if (state) {
+      this.releaseReplay(socket, state);
+    }
+  }
+
+  /**
+   * Remove one subscription of a socket. Returns false when it does not exist.
+   */
+  unsubscribe(socket: WebSocket, subscriptionId: string): boolean {
+    return this.sockets.get(socket)?.subscriptions.delete(subscriptionId) ?? false;
+  }
+
+  /**
+   * Remove a socket's order channel subscriptions of an order
+   */
+  unsubscribeOrder(socket: WebSocket, orderId: string): void {
+    const subscriptions = this.sockets.get(socket)?.subscriptions;
+    subscriptions?.forEach((subscription, id) => {
+      if (subscription.channel === 'order' && subscription.orderId === orderId) {
+        subscriptions.delete(id);
       }
     });
+  }
 
-    console.log(`[WS] Emitted ${message.status} to ${sockets.size} client(s) for order ${orderId}`);
+  /**
+   * Forget a closed socket and all its subscriptions
+   */
+  disconnect(socket: WebSocket): void {
+    this.sockets.delete(socket);
   }
 
   /**
-   * Get number of active connections for an order
+   * Emit a status update to every socket with a matching subscription. Each
+   * socket receives it once, listing the subscriptions it matched.
+   */
+  emit(order: OrderRef, message: WebSocketMessage): void {
+    let delivered = 0;
+
+    this.sockets.forEach((state, socket) => {
+      const subscriptionIds = [...state.subscriptions]
+        .filter(([, subscription]) => matchesOrder(subscription, order, message.status))
+        .map(([id]) => id);
+      if (subscriptionIds.length === 0) {
+        return;
+      }
+
+      if (state.replays > 0) {
+        state.buffer.push({ order, message, subscriptionIds });
+      } else {
+        this.deliver(socket, state, order, message, subscriptionIds);
+      }
+      delivered++;
+    });
+
+    if (delivered === 0) {
+      console.log(`[WS] No active connections for order ${order.id}`);
+      return;
+    }
+    console.log(`[WS] Emitted ${message.status} to ${delivered} client(s) for order ${order.id}`);
+  }
+
+  /**
+   * Stream a routed quote to the market channel of its pair
+   */
+  publishMarketData(quote: MarketDataMessage): void {
+    this.sockets.forEach(({ subscriptions }, socket) => {
+      const subscriptionIds = [...subscriptions]
+        .filter(
+          ([, subscription]) =>
+            subscription.channel === 'market' && matchesPair(subscription.pair, quote.tokenIn, quote.tokenOut)
+        )
+        .map(([id]) => id);
+
+      if (subscriptionIds.length > 0 && socket.readyState === WebSocket.OPEN) {
+        socket.send(JSON.stringify({ type: 'market', subscriptionIds, ...quote }));
+      }
+    });
+  }
+
+  /**
+   * Get number of sockets subscribed to an order's own channel
    */
   getConnectionCount(orderId: string): number {
-    return this.connections.get(orderId)?.size || 0;
+    return [...this.sockets.values()].filter(({ subscriptions }) =>
+      [...subscriptions.values()].some(
+        (subscription) => subscription.channel === 'order' && subscription.orderId === orderId
+      )
+    ).length;
+  }
+
+  getStats() {
+    const channels: Record<string, number> = {};
+    this.sockets.forEach(({ subscriptions }) =>
+      subscriptions.forEach(({ channel }) => {
+        channels[channel] = (channels[channel] ?? 0) + 1;
+      })
+    );
+    return { connections: this.sockets.size, channels };
   }
 
   /**
    * Clean up all connections
    */
   cleanup(): void {
-    this.connections.forEach((sockets) => {
-      sockets.forEach((socket) => {
-        if (socket.readyState === WebSocket.OPEN) {
-          socket.close();
-        }
-      });
+    this.sockets.forEach((_state, socket) => {
+      if (socket.readyState === WebSocket.OPEN) {
+        socket.close();
+      }
     });
-    this.connections.clear();
+    this.sockets.clear();
+  }
+
+  private releaseReplay(socket: WebSocket, state: SocketState): void {
+    state.replays = Math.max(0, state.replays - 1);
+    if (state.replays === 0) {
+      state.buffer.splice(0).forEach(({ order, message, subscriptionIds }) =>
+        this.deliver(socket, state, order, message, subscriptionIds)
+      );
+    }
+  }
+
+  private getState(socket: WebSocket): SocketState {
+    let state = this.sockets.get(socket);
+    if (!state) {
+      state = { subscriptions: new Map(), replays: 0, buffer: [], lastSeq: new Map() };
+      this.sockets.set(socket, state);
+    }
+    return state;
+  }
+
+  /**
+   * Send an order update unless the socket already has its seq. Returns whether it was sent.
+   */
+  private deliver(
+    socket: WebSocket,
+    state: SocketState,
+    order: OrderRef,
+    message: WebSocketMessage,
+    subscriptionIds: string[],
+    replay: boolean = false
+  ): boolean {
+    if (socket.readyState !== WebSocket.OPEN) {
+      return false;
+    }
+    if (message.seq !== undefined) {
+      if (message.seq <= (state.lastSeq.get(order.id) ?? 0)) {
+        return false;
+      }
+      state.lastSeq.set(order.id, message.seq);
+    }
+
+    socket.send(
+      JSON.stringify({
+        type: 'order',
+        subscriptionIds,
+        ...message,
+        ...(replay && { replay: true }),
+        accountId: order.accountId,
+        tokenIn: order.tokenIn,
+        tokenOut: order.tokenOut,
+      })
+    );
+    return true;
   }
 }
 
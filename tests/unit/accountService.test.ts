@@ -0,0 +1,119 @@
+// tests/unit/accountService.test.ts
+
+jest.mock('../../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+import { Prisma } from '@prisma/client';
+import { AccountService } from '../../src/services/accountService';
+import { InsufficientBalanceError } from '../../src/errors';
+import { Order } from '../../src/types';
+
+const order = {
+  id: 'order-1',
+  accountId: 'account-1',
+  type: 'MARKET',
+  side: 'BUY',
+  tokenIn: 'SOL',
+  tokenOut: 'USDC',
+  amountIn: 2,
+  reservedAmount: 360,
+} as Order;
+
+describe('AccountService settleFill', () => {
+  const accounts = new AccountService();
+  let tx: { order: { updateMany: jest.Mock }; balance: { updateMany: jest.Mock; upsert: jest.Mock } };
+
+  beforeEach(() => {
+    tx = {
+      order: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+      balance: { updateMany: jest.fn().mockResolvedValue({ count: 1 }), upsert: jest.fn() },
+    };
+  });
+
+  const settle = (amount: number, price: number) =>
+    accounts.settleFill(order, amount, price, tx as unknown as Prisma.TransactionClient);
+
+  it('should pay a buy from its reservation and credit what was bought', async () => {
+    await settle(2, 180);
+
+    expect(tx.order.updateMany).toHaveBeenCalledWith({
+      where: { id: 'order-1', reservedAmount: { gte: 360 } },
+      data: { reservedAmount: { decrement: 360 } },
+    });
+    expect(tx.balance.updateMany).toHaveBeenCalledWith({
+      where: { accountId: 'account-1', token: 'USDC', reserved: { gte: 360 }, available: { gte: 0 } },
+      data: { reserved: { decrement: 360 }, available: { decrement: 0 } },
+    });
+    expect(tx.balance.upsert).toHaveBeenCalledWith(
+      expect.objectContaining({ update: { available: { increment: 2 } } })
+    );
+  });
+
+  it('should take a fill costing more than was held from the available balance', async () => {
+    await settle(2, 181);
+
+    expect(tx.balance.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ reserved: { gte: 360 }, available: { gte: 2 } }),
+        data: { reserved: { decrement: 360 }, available: { decrement: 2 } },
+      })
+    );
+  });
+
+  it('should refuse a fill the balance cannot pay for', async () => {
+    tx.balance.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(settle(2, 181)).rejects.toBeInstanceOf(InsufficientBalanceError);
+    expect(tx.balance.upsert).not.toHaveBeenCalled();
+  });
+});
+
+describe('AccountService releaseOrder', () => {
+  const accounts = new AccountService();
+  let tx: { order: { updateMany: jest.Mock; findUnique: jest.Mock }; balance: { updateMany: jest.Mock } };
+
+  beforeEach(() => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    tx = {
+      order: { updateMany: jest.fn().mockResolvedValue({ count: 1 }), findUnique: jest.fn() },
+      balance: { updateMany: jest.fn().mockResolvedValue({ count: 1 }) },
+    };
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  const release = (held: Order) => accounts.releaseOrder(held, tx as unknown as Prisma.TransactionClient);
+
+  it('should return what the order holds once, without overdrawing the reserve', async () => {
+    await release(order);
+
+    expect(tx.order.updateMany).toHaveBeenCalledWith({
+      where: { id: 'order-1', reservedAmount: 360 },
+      data: { reservedAmount: 0 },
+    });
+    expect(tx.balance.updateMany).toHaveBeenCalledWith({
+      where: { accountId: 'account-1', token: 'USDC', reserved: { gte: 360 } },
+      data: { available: { increment: 360 }, reserved: { decrement: 360 } },
+    });
+  });
+
+  it('should release what is left after a fill settled concurrently', async () => {
+    tx.order.updateMany.mockResolvedValueOnce({ count: 0 });
+    tx.order.findUnique.mockResolvedValue({ ...order, reservedAmount: 180 });
+
+    await release(order);
+
+    expect(tx.balance.updateMany).toHaveBeenCalledTimes(1);
+    expect(tx.balance.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({ data: { available: { increment: 180 }, reserved: { decrement: 180 } } })
+    );
+  });
+
+  it('should release nothing for an order that holds nothing', async () => {
+    await release({ ...order, reservedAmount: 0 });
+
+    expect(tx.order.updateMany).not.toHaveBeenCalled();
+    expect(tx.balance.updateMany).not.toHaveBeenCalled();
+  });
+});
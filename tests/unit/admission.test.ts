@@ -0,0 +1,88 @@
+// tests/unit/admission.test.ts
+
+jest.mock('../../src/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    order: { count: jest.fn() },
+  },
+}));
+
+jest.mock('../../src/queue/orderQueue', () => ({
+  getQueueStats: jest.fn(),
+}));
+
+import prisma from '../../src/db/prisma';
+import { getQueueStats } from '../../src/queue/orderQueue';
+import {
+  ACCOUNT_MAX_INFLIGHT_ORDERS,
+  AdmissionService,
+  QUEUE_MAX_DEPTH,
+  RATE_LIMIT_ORDERS_BURST,
+  TokenBucket,
+} from '../../src/services/admissionService';
+
+const db = prisma as unknown as { order: { count: jest.Mock } };
+const queueStats = getQueueStats as jest.Mock;
+
+describe('TokenBucket', () => {
+  it('should allow a burst and then wait for the refill', () => {
+    const bucket = new TokenBucket(2, 3, 0);
+
+    expect([bucket.take(0), bucket.take(0), bucket.take(0)]).toEqual([0, 0, 0]);
+    expect(bucket.take(0)).toBe(500);
+    expect(bucket.take(250)).toBe(250);
+    expect(bucket.take(500)).toBe(0);
+  });
+
+  it('should not refill beyond the burst', () => {
+    const bucket = new TokenBucket(10, 2, 0);
+    bucket.take(0);
+
+    expect([bucket.take(60_000), bucket.take(60_000)]).toEqual([0, 0]);
+    expect(bucket.take(60_000)).toBeGreaterThan(0);
+  });
+});
+
+describe('AdmissionService', () => {
+  let admission: AdmissionService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    admission = new AdmissionService();
+    queueStats.mockResolvedValue({ waiting: 0, delayed: 0 });
+    db.order.count.mockResolvedValue(0);
+  });
+
+  it('should rate limit order submissions per key', async () => {
+    for (let i = 0; i < RATE_LIMIT_ORDERS_BURST; i++) {
+      expect(await admission.admitOrder('key-1', 'account-1')).toEqual({ success: true });
+    }
+
+    const limited = await admission.admitOrder('key-1', 'account-1');
+    expect(limited).toMatchObject({ success: false, code: 'RATE_LIMITED' });
+    expect(await admission.admitOrder('key-2', 'account-1')).toEqual({ success: true });
+    expect(admission.getStats()).toMatchObject({ rateLimited: 1 });
+  });
+
+  it('should turn orders away while the queue is too deep', async () => {
+    queueStats.mockResolvedValue({ waiting: QUEUE_MAX_DEPTH, delayed: 0 });
+
+    const result = await admission.admitOrder('key-1', 'account-1');
+    expect(result).toMatchObject({ success: false, code: 'QUEUE_FULL' });
+    expect(admission.getStats()).toMatchObject({ queueFull: 1, queueDepth: QUEUE_MAX_DEPTH });
+  });
+
+  it('should reuse the queue depth reading', async () => {
+    await admission.admitOrder('key-1', 'account-1');
+    await admission.admitOrder('key-1', 'account-1');
+    expect(queueStats).toHaveBeenCalledTimes(1);
+  });
+
+  it('should cap in-flight orders per account', async () => {
+    db.order.count.mockResolvedValue(ACCOUNT_MAX_INFLIGHT_ORDERS);
+
+    const result = await admission.admitOrder('key-1', 'account-1');
+    expect(result).toMatchObject({ success: false, code: 'CONCURRENCY_LIMIT' });
+    expect(db.order.count.mock.calls[0][0].where.accountId).toBe('account-1');
+  });
+});
@@ -0,0 +1,139 @@
+// tests/unit/auth.test.ts
+
+jest.mock('../../src/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    apiKey: { findUnique: jest.fn() },
+  },
+}));
+
+import crypto from 'crypto';
+import Fastify, { FastifyInstance } from 'fastify';
+import prisma from '../../src/db/prisma';
+import { authPlugin } from '../../src/plugins/auth';
+import { signRequest } from '../../src/services/authService';
+
+const db = prisma as unknown as { apiKey: { findUnique: jest.Mock } };
+
+const KEYS: Record<string, { id: string; accountId: string | null; admin: boolean }> = {
+  'trader-key': { id: 'key-1', accountId: 'account-1', admin: false },
+  'admin-key': { id: 'key-2', accountId: null, admin: true },
+};
+const hash = (key: string) => crypto.createHash('sha256').update(key).digest('hex');
+
+describe('authPlugin', () => {
+  let app: FastifyInstance;
+
+  beforeAll(async () => {
+    db.apiKey.findUnique.mockImplementation(async ({ where }: { where: { keyHash: string } }) => {
+      const entry = Object.entries(KEYS).find(([key]) => hash(key) === where.keyHash);
+      return entry ? { ...entry[1], secret: `${entry[0]}-secret`, revokedAt: null } : null;
+    });
+
+    app = Fastify();
+    await app.register(authPlugin);
+    app.get('/health', async () => ({ status: 'ok' }));
+    app.post('/api/orders', async (request) => ({ auth: request.auth, body: request.body }));
+    app.get('/api/stats', { config: { auth: 'admin' } }, async () => ({ ok: true }));
+    app.get('/api/admin/pools', async () => ({ ok: true }));
+    await app.ready();
+  });
+
+  afterAll(() => app.close());
+
+  it('should leave routes outside the API public', async () => {
+    const response = await app.inject({ method: 'GET', url: '/health' });
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should require an API key', async () => {
+    const response = await app.inject({ method: 'POST', url: '/api/orders', payload: {} });
+    expect(response.statusCode).toBe(401);
+    expect(response.json().error).toBe('API key required');
+  });
+
+  it('should reject unknown keys', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/orders',
+      headers: { 'x-api-key': 'nope' },
+      payload: {},
+    });
+    expect(response.statusCode).toBe(401);
+  });
+
+  it('should attach the caller to the request', async () => {
+    const response = await app.inject({
+      method: 'POST',
+      url: '/api/orders',
+      headers: { 'x-api-key': 'trader-key' },
+      payload: { amountIn: 1 },
+    });
+    expect(response.statusCode).toBe(200);
+    expect(response.json()).toEqual({
+      auth: { keyId: 'key-1', accountId: 'account-1', admin: false },
+      body: { amountIn: 1 },
+    });
+  });
+
+  it('should accept the key as a query parameter on WebSocket upgrades', async () => {
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/stats?apiKey=admin-key',
+      headers: { connection: 'Upgrade', upgrade: 'websocket' },
+    });
+    expect(response.statusCode).toBe(200);
+  });
+
+  it('should not accept the key as a query parameter elsewhere', async () => {
+    const response = await app.inject({ method: 'GET', url: '/api/stats?apiKey=admin-key' });
+    expect(response.statusCode).toBe(401);
+    expect(response.json().error).toBe('API key required');
+  });
+
+  it('should require admin keys for admin routes', async () => {
+    for (const url of ['/api/stats', '/api/admin/pools']) {
+      const trader = await app.inject({ method: 'GET', url, headers: { 'x-api-key': 'trader-key' } });
+      const admin = await app.inject({ method: 'GET', url, headers: { 'x-api-key': 'admin-key' } });
+      expect(trader.statusCode).toBe(403);
+      expect(admin.statusCode).toBe(200);
+    }
+  });
+
+  it('should verify signed requests over the raw body', async () => {
+    const body = JSON.stringify({ amountIn: 2 });
+    const timestamp = Date.now().toString();
+    const signature = signRequest('trader-key-secret', timestamp, 'POST', '/api/orders', body);
+    const headers = {
+      'content-type': 'application/json',
+      'x-api-key': 'trader-key',
+      'x-timestamp': timestamp,
+      'x-signature': signature,
+    };
+
+    const signed = await app.inject({ method: 'POST', url: '/api/orders', headers, payload: body });
+    const tampered = await app.inject({
+      method: 'POST',
+      url: '/api/orders',
+      headers,
+      payload: JSON.stringify({ amountIn: 200 }),
+    });
+
+    expect(signed.statusCode).toBe(200);
+    expect(tampered.statusCode).toBe(401);
+  });
+
+  it('should reject stale signatures', async () => {
+    const timestamp = (Date.now() - 60_000).toString();
+    const response = await app.inject({
+      method: 'GET',
+      url: '/api/stats',
+      headers: {
+        'x-api-key': 'admin-key',
+        'x-timestamp': timestamp,
+        'x-signature': signRequest('admin-key-secret', timestamp, 'GET', '/api/stats'),
+      },
+    });
+    expect(response.statusCode).toBe(401);
+  });
+});
@@ -1,6 +1,21 @@
 // tests/unit/dexRouter.test.ts
 
 import { MockDexRouter } from '../../src/dex/MockDexRouter';
+import { DexRegistry } from '../../src/dex/DexRegistry';
+import { MockDexAdapter } from '../../src/dex/MockDexAdapter';
+import { VenueHealthTracker } from '../../src/dex/VenueHealthTracker';
+import { DexQuote, OrderSide, VenueConfig } from '../../src/types';
+
+const venue: VenueConfig = {
+  name: 'TEST',
+  enabled: true,
+  timeoutMs: 1000,
+  fee: 0.003,
+  minVariance: 0.99,
+  maxVariance: 1.01,
+  quoteLatencyMs: 10,
+  liquidity: { model: 'constant_product', depth: 2_000_000 },
+};
 
 describe('MockDexRouter', () => {
   let router: MockDexRouter;
@@ -9,9 +24,44 @@ describe('MockDexRouter', () => {
     router = new MockDexRouter();
   });
 
-  describe('getRaydiumQuote', () => {
+  function mockQuotes(prices: Record<string, number>, fillable: Record<string, boolean> = {}) {
+    jest
+      .spyOn(router, 'getQuoteLadder')
+      .mockImplementation(async (dex, tokenIn, tokenOut, amounts, side: OrderSide = 'BUY') => {
+        if (`${tokenIn}/${tokenOut}` !== 'SOL/USDC') {
+          throw new Error(`No ${tokenIn}/${tokenOut} pool`);
+        }
+        return amounts.map((amount): DexQuote => {
+          const fee = dex === 'RAYDIUM' ? 0.003 : 0.002;
+          const quoteAmount = prices[dex] * amount * (side === 'BUY' ? 1 + fee : 1 - fee);
+          return {
+            price: prices[dex],
+            fee,
+            dex,
+            side,
+            amount,
+            quoteAmount,
+            expectedOutput: side === 'BUY' ? amount : quoteAmount,
+            effectivePrice: quoteAmount / amount,
+            priceImpact: 0,
+            availableLiquidity: 1000,
+            fillable: fillable[dex] ?? true,
+          };
+        });
+      });
+  }
+
+  function makeSplitRouter(): MockDexRouter {
+    const registry = new DexRegistry();
+    const pool = { ...venue, minVariance: 1, maxVariance: 1, quoteLatencyMs: 0 };
+    registry.register(new MockDexAdapter({ ...pool, name: 'DEEP', liquidity: { model: 'constant_product', depth: 3_000_000 } }));
+    registry.register(new MockDexAdapter({ ...pool, name: 'SHALLOW', liquidity: { model: 'constant_product', depth: 1_000_000 } }));
+    return new MockDexRouter(registry, 10);
+  }
+
+  describe('getQuote (RAYDIUM)', () => {
     it('should return a quote with price and fee', async () => {
-      const quote = await router.getRaydiumQuote('SOL', 'USDC', 1);
+      const quote = await router.getQuote('RAYDIUM', 'SOL', 'USDC', 1);
       expect(quote).toHaveProperty('price');
       expect(quote).toHaveProperty('fee');
       expect(quote.dex).toBe('RAYDIUM');
@@ -20,16 +70,16 @@ describe('MockDexRouter', () => {
 
     it('should return price within variance range', async () => {
       const basePrice = 185.5;
-      const quote = await router.getRaydiumQuote('SOL', 'USDC', 1);
+      const quote = await router.getQuote('RAYDIUM', 'SOL', 'USDC', 1);
       const variance = quote.price / basePrice;
       expect(variance).toBeGreaterThanOrEqual(0.98);
       expect(variance).toBeLessThanOrEqual(1.02);
     });
   });
 
-  describe('getMeteorQuote', () => {
+  describe('getQuote (METEORA)', () => {
     it('should return a quote with price and fee', async () => {
-      const quote = await router.getMeteorQuote('SOL', 'USDC', 1);
+      const quote = await router.getQuote('METEORA', 'SOL', 'USDC', 1);
       expect(quote).toHaveProperty('price');
       expect(quote).toHaveProperty('fee');
       expect(quote.dex).toBe('METEORA');
@@ -37,8 +87,8 @@ describe('MockDexRouter', () => {
     });
 
     it('should have lower fee than Raydium', async () => {
-      const raydiumQuote = await router.getRaydiumQuote('SOL', 'USDC', 1);
-      const meteoraQuote = await router.getMeteorQuote('SOL', 'USDC', 1);
+      const raydiumQuote = await router.getQuote('RAYDIUM', 'SOL', 'USDC', 1);
+      const meteoraQuote = await router.getQuote('METEORA', 'SOL', 'USDC', 1);
       expect(meteoraQuote.fee).toBeLessThan(raydiumQuote.fee);
     });
   });
@@ -53,10 +103,106 @@ describe('MockDexRouter', () => {
       expect(['RAYDIUM', 'METEORA']).toContain(result.selectedDex);
     });
 
-    it('should select DEX with lower effective price', async () => {
+    it('should add fees and impact to the effective price for buys', async () => {
       const result = await router.routeOrder('SOL', 'USDC', 1);
-      const effectivePrice = result.price * (1 - result.fee);
-      expect(result.effectivePrice).toBe(effectivePrice);
+      expect(result.effectivePrice).toBeGreaterThanOrEqual(result.price * (1 + result.fee) - 1e-9);
+      expect(result.effectivePrice).toBeCloseTo(result.price * (1 + result.fee), 1);
+      expect(result.expectedOutput).toBe(1);
+    });
+
+    it('should deduct fees and impact from the effective price for sells', async () => {
+      const result = await router.routeOrder('SOL', 'USDC', 1, { side: 'SELL' });
+      expect(result.effectivePrice).toBeLessThanOrEqual(result.price * (1 - result.fee) + 1e-9);
+      expect(result.effectivePrice).toBeCloseTo(result.price * (1 - result.fee), 1);
+      expect(result.expectedOutput).toBeCloseTo(result.effectivePrice, 6);
+    });
+
+    it('should report larger price impact for larger orders', async () => {
+      const small = await router.routeOrder('SOL', 'USDC', 1, { venues: ['RAYDIUM'] });
+      const large = await router.routeOrder('SOL', 'USDC', 1000, { venues: ['RAYDIUM'] });
+      expect(large.priceImpact).toBeGreaterThan(small.priceImpact);
+      expect(large.priceImpact).toBeGreaterThan(0.05);
+    });
+
+    it('should skip venues that cannot fill the amount', async () => {
+      mockQuotes({ RAYDIUM: 180, METEORA: 190 }, { RAYDIUM: false });
+
+      const result = await router.routeOrder('SOL', 'USDC', 1, { side: 'BUY' });
+      expect(result.selectedDex).toBe('METEORA');
+    });
+
+    it('should split large orders across venues when it improves net output', async () => {
+      const splitRouter = makeSplitRouter();
+      const result = await splitRouter.routeOrder('SOL', 'USDC', 2000, { venues: ['DEEP'] });
+      const split = await splitRouter.routeOrder('SOL', 'USDC', 2000);
+
+      const [hop] = split.hops;
+      expect(hop.legs.map((leg) => leg.dex).sort()).toEqual(['DEEP', 'SHALLOW']);
+      expect(hop.legs.reduce((sum, leg) => sum + leg.amountIn, 0)).toBeCloseTo(2000, 6);
+      expect(split.selectedDex).toBe('DEEP');
+      expect(split.effectivePrice).toBeLessThan(result.effectivePrice);
+    });
+
+    it('should keep small orders on a single venue', async () => {
+      const result = await makeSplitRouter().routeOrder('SOL', 'USDC', 1, { maxHops: 1 });
+      expect(result.hops[0].legs).toHaveLength(1);
+      expect(result.hops[0].legs[0].amountIn).toBe(1);
+    });
+
+    it('should not split when a single venue is strictly better', async () => {
+      mockQuotes({ RAYDIUM: 180, METEORA: 190 });
+
+      const result = await router.routeOrder('SOL', 'USDC', 10);
+      expect(result.hops[0].legs).toEqual([expect.objectContaining({ dex: 'RAYDIUM', amountIn: 10 })]);
+    });
+
+    it('should reject when no venue can fill the amount', async () => {
+      await expect(router.routeOrder('SOL', 'USDC', 1_000_000)).rejects.toThrow('Insufficient liquidity');
+    });
+
+    it('should route the fillable part when partial fills are allowed', async () => {
+      const registry = new DexRegistry();
+      registry.register(
+        new MockDexAdapter({
+          ...venue,
+          name: 'BINS',
+          minVariance: 1,
+          maxVariance: 1,
+          quoteLatencyMs: 0,
+          liquidity: { model: 'bins', binStep: 0.001, binLiquidity: 20_000, binsPerSide: 5 },
+        })
+      );
+      const binRouter = new MockDexRouter(registry, 10);
+
+      await expect(binRouter.routeOrder('SOL', 'USDC', 1000, { maxHops: 1 })).rejects.toThrow(
+        'Insufficient liquidity'
+      );
+      const result = await binRouter.routeOrder('SOL', 'USDC', 1000, { maxHops: 1, allowPartial: true });
+      expect(result.hops[0].amountIn).toBe(500);
+      expect(result.expectedOutput).toBeCloseTo(500, 6);
+    });
+
+    it('should select lowest cost venue for buys', async () => {
+      mockQuotes({ RAYDIUM: 180, METEORA: 190 });
+
+      const result = await router.routeOrder('SOL', 'USDC', 1, { side: 'BUY' });
+      expect(result.selectedDex).toBe('RAYDIUM');
+    });
+
+    it('should select highest proceeds venue for sells', async () => {
+      mockQuotes({ RAYDIUM: 180, METEORA: 190 });
+
+      const result = await router.routeOrder('SOL', 'USDC', 1, { side: 'SELL' });
+      expect(result.selectedDex).toBe('METEORA');
+    });
+
+    it('should only route to the given venues', async () => {
+      const result = await router.routeOrder('SOL', 'USDC', 1, { venues: ['METEORA'] });
+      expect(result.selectedDex).toBe('METEORA');
+    });
+
+    it('should reject when no venues are given', async () => {
+      await expect(router.routeOrder('SOL', 'USDC', 1, { venues: [] })).rejects.toThrow();
     });
 
     it('should run in reasonable time', async () => {
@@ -67,6 +213,116 @@ describe('MockDexRouter', () => {
     });
   });
 
+  describe('multi-hop routing', () => {
+    function makeHopRouter(pairs: Record<string, string[]>): MockDexRouter {
+      const registry = new DexRegistry();
+      Object.entries(pairs).forEach(([name, venuePairs]) =>
+        registry.register(
+          new MockDexAdapter({ ...venue, name, minVariance: 1, maxVariance: 1, quoteLatencyMs: 0, pairs: venuePairs })
+        )
+      );
+      return new MockDexRouter(registry);
+    }
+
+    it('should route through an intermediate token when there is no direct pool', async () => {
+      const hopRouter = makeHopRouter({ BONKPOOL: ['BONK/SOL'], SOLPOOL: ['SOL/USDC'] });
+
+      const result = await hopRouter.routeOrder('BONK', 'USDC', 1_000_000, { side: 'SELL' });
+      expect(result.path).toEqual(['BONK', 'SOL', 'USDC']);
+      expect(result.hops.map((hop) => hop.selectedDex)).toEqual(['BONKPOOL', 'SOLPOOL']);
+      expect(result.hops[1].amountIn).toBeCloseTo(result.hops[0].quoteAmount, 10);
+      // Two fees are paid on the way
+      expect(result.effectivePrice).toBeLessThan(result.price * (1 - venue.fee));
+    });
+
+    it('should size buy hops by the cost of the previous hop', async () => {
+      const hopRouter = makeHopRouter({ BONKPOOL: ['BONK/SOL'], SOLPOOL: ['SOL/USDC'] });
+
+      const result = await hopRouter.routeOrder('BONK', 'USDC', 1_000_000, { side: 'BUY' });
+      expect(result.expectedOutput).toBe(1_000_000);
+      expect(result.hops[1].amountIn).toBeCloseTo(result.hops[0].quoteAmount, 10);
+      expect(result.effectivePrice).toBeGreaterThan(result.price * (1 + venue.fee));
+    });
+
+    it('should prefer the direct pair when it nets more', async () => {
+      const hopRouter = makeHopRouter({ ALL: ['BONK/SOL', 'SOL/USDC', 'BONK/USDC'] });
+
+      const result = await hopRouter.routeOrder('BONK', 'USDC', 1_000_000, { side: 'SELL' });
+      expect(result.path).toEqual(['BONK', 'USDC']);
+    });
+
+    it('should only consider the direct pair with maxHops 1', async () => {
+      const hopRouter = makeHopRouter({ BONKPOOL: ['BONK/SOL'], SOLPOOL: ['SOL/USDC'] });
+
+      await expect(hopRouter.routeOrder('BONK', 'USDC', 1, { maxHops: 1 })).rejects.toThrow(
+        'No DEX venues available for BONK/USDC'
+      );
+    });
+  });
+
+  describe('venue registry', () => {
+    it('should only quote enabled venues', async () => {
+      const registry = new DexRegistry();
+      registry.register(new MockDexAdapter({ ...venue, name: 'ORCA' }));
+      registry.register(new MockDexAdapter({ ...venue, name: 'PHOENIX' }), { enabled: false });
+
+      const quotes = await new MockDexRouter(registry).getQuotes('SOL', 'USDC', 1);
+      expect(quotes.map((q) => q.dex)).toEqual(['ORCA']);
+    });
+
+    it('should skip venues that do not trade the pair', async () => {
+      const registry = new DexRegistry();
+      registry.register(new MockDexAdapter({ ...venue, name: 'ORCA' }));
+      registry.register(new MockDexAdapter({ ...venue, name: 'PHOENIX', pairs: ['SOL/USDC'] }));
+
+      const quotes = await new MockDexRouter(registry).getQuotes('BONK', 'SOL', 1);
+      expect(quotes.map((q) => q.dex)).toEqual(['ORCA']);
+    });
+
+    it('should time out slow venues', async () => {
+      const registry = new DexRegistry();
+      registry.register(new MockDexAdapter({ ...venue, name: 'SLOW', quoteLatencyMs: 500 }), {
+        timeoutMs: 50,
+      });
+
+      await expect(new MockDexRouter(registry).getQuote('SLOW', 'SOL', 'USDC', 1)).rejects.toThrow(
+        'SLOW quote timed out after 50ms'
+      );
+    });
+  });
+
+  describe('venue health', () => {
+    function makeHealthRouter(health: VenueHealthTracker): MockDexRouter {
+      const registry = new DexRegistry();
+      registry.register(new MockDexAdapter({ ...venue, name: 'ORCA' }));
+      registry.register(new MockDexAdapter({ ...venue, name: 'SLOW', quoteLatencyMs: 500 }), { timeoutMs: 50 });
+      return new MockDexRouter(registry, 10, undefined, health);
+    }
+
+    it('should route on the venues that answered when another times out', async () => {
+      const health = new VenueHealthTracker(50, 5, 30_000);
+      const result = await makeHealthRouter(health).routeOrder('SOL', 'USDC', 1, { maxHops: 1 });
+
+      expect(result.hops[0].legs.map((leg) => leg.dex)).toEqual(['ORCA']);
+      expect(health.getStats('SLOW')).toMatchObject({ requests: 1, errors: 1, consecutiveFailures: 1 });
+      expect(health.getStats('ORCA')).toMatchObject({ requests: 1, errors: 0, status: 'healthy' });
+    });
+
+    it('should stop quoting a venue once its circuit opens', async () => {
+      const health = new VenueHealthTracker(50, 1, 30_000);
+      const router = makeHealthRouter(health);
+      await router.getQuotes('SOL', 'USDC', 1);
+      expect(health.getStats('SLOW').circuit).toBe('open');
+
+      const spy = jest.spyOn(MockDexAdapter.prototype, 'getQuoteLadder');
+      const quotes = await router.getQuotes('SOL', 'USDC', 1);
+
+      expect(quotes.map((q) => q.dex)).toEqual(['ORCA']);
+      expect(spy).toHaveBeenCalledTimes(1);
+      spy.mockRestore();
+    });
+  });
+
   describe('checkLimitCondition', () => {
     it('should return true when best price <= limit price', () => {
       const result = router.checkLimitCondition(180, 185);
@@ -82,6 +338,32 @@ describe('MockDexRouter', () => {
       const result = router.checkLimitCondition(185, 185);
       expect(result).toBe(true);
     });
+
+    it('should return true for sells when best price >= limit price', () => {
+      expect(router.checkLimitCondition(190, 185, 'SELL')).toBe(true);
+      expect(router.checkLimitCondition(185, 185, 'SELL')).toBe(true);
+    });
+
+    it('should return false for sells when best price < limit price', () => {
+      expect(router.checkLimitCondition(180, 185, 'SELL')).toBe(false);
+    });
+  });
+
+  describe('checkSlippage', () => {
+    it('should return true when deviation is within tolerance', () => {
+      expect(router.checkSlippage(100, 101.5, 0.02)).toBe(true);
+      expect(router.checkSlippage(100, 98.5, 0.02)).toBe(true);
+    });
+
+    it('should return false when deviation exceeds tolerance', () => {
+      expect(router.checkSlippage(100, 103, 0.02)).toBe(false);
+      expect(router.checkSlippage(100, 97, 0.02)).toBe(false);
+    });
+
+    it('should reject any deviation with zero tolerance', () => {
+      expect(router.checkSlippage(100, 100, 0)).toBe(true);
+      expect(router.checkSlippage(100, 100.01, 0)).toBe(false);
+    });
   });
 
   describe('executeSwap', () => {
@@ -94,12 +376,79 @@ describe('MockDexRouter', () => {
       expect(result.txHash.length).toBe(88);
     });
 
-    it('should simulate execution time', async () => {
-      const start = Date.now();
-      await router.executeSwap('METEORA', 'test-order-2');
-      const duration = Date.now() - start;
-      expect(duration).toBeGreaterThanOrEqual(2000);
-      expect(duration).toBeLessThan(4000);
+    it('should move the pool price after a swap', async () => {
+      const registry = new DexRegistry();
+      registry.register(
+        new MockDexAdapter({ ...venue, name: 'POOL', minVariance: 1, maxVariance: 1, quoteLatencyMs: 0 })
+      );
+      const poolRouter = new MockDexRouter(registry);
+
+      const before = await poolRouter.getQuote('POOL', 'SOL', 'USDC', 1);
+      const swap = await poolRouter.executeSwap('POOL', 'test-order-3', {
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: 500,
+        side: 'BUY',
+      });
+      const after = await poolRouter.getQuote('POOL', 'SOL', 'USDC', 1);
+
+      expect(swap.amountOut).toBe(500);
+      expect(swap.priceImpact).toBeGreaterThan(0);
+      expect(after.price).toBeGreaterThan(before.price);
+    }, 10000);
+
+    it('should revert buys above maxPrice without moving the pool', async () => {
+      const registry = new DexRegistry();
+      registry.register(
+        new MockDexAdapter({ ...venue, name: 'POOL', minVariance: 1, maxVariance: 1, quoteLatencyMs: 0 })
+      );
+      const poolRouter = new MockDexRouter(registry);
+
+      const before = await poolRouter.getQuote('POOL', 'SOL', 'USDC', 1);
+      await expect(
+        poolRouter.executeSwap('POOL', 'test-order-4', {
+          tokenIn: 'SOL',
+          tokenOut: 'USDC',
+          amountIn: 500,
+          side: 'BUY',
+          maxPrice: before.effectivePrice,
+        })
+      ).rejects.toMatchObject({ code: 'SLIPPAGE_EXCEEDED', boundPrice: before.effectivePrice });
+      const after = await poolRouter.getQuote('POOL', 'SOL', 'USDC', 1);
+
+      expect(after.price).toBeCloseTo(before.price, 10);
+    }, 10000);
+
+    it('should fill sells near the quote within their minimum output', async () => {
+      const registry = new DexRegistry();
+      registry.register(
+        new MockDexAdapter({ ...venue, name: 'POOL', quoteLatencyMs: 0, fillJitter: 0.01 })
+      );
+      const poolRouter = new MockDexRouter(registry);
+
+      const quote = await poolRouter.getQuote('POOL', 'SOL', 'USDC', 10, 'SELL');
+      const swap = await poolRouter.executeSwap('POOL', 'test-order-5', {
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        amountIn: 10,
+        side: 'SELL',
+        minAmountOut: quote.quoteAmount * 0.98,
+      });
+
+      expect(swap.amountOut).toBeGreaterThanOrEqual(quote.quoteAmount * 0.98);
+      expect(Math.abs(swap.executedPrice / quote.effectivePrice - 1)).toBeLessThanOrEqual(0.0101);
+    }, 10000);
+
+    it('should wait for the swap to reach the requested commitment', async () => {
+      const levels: string[] = [];
+      const result = await router.executeSwap('METEORA', 'test-order-2', undefined, {
+        commitment: 'confirmed',
+        onCommitment: (status) => levels.push(status.commitment!),
+      });
+
+      expect(levels).toEqual(['processed', 'confirmed']);
+      expect(result.commitment).toBe('confirmed');
+      expect(result.slot).toBeGreaterThan(0);
     });
   });
 });
@@ -0,0 +1,237 @@
+// tests/unit/jobManagement.test.ts
+
+jest.mock('../../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../../src/queue/orderQueue', () => ({
+  addOrderToQueue: jest.fn(),
+  buildJobData: jest.fn((order) => ({ orderId: order.id })),
+  getQueuedOrderIds: jest.fn(),
+  ordersQueue: { getJob: jest.fn(), getJobs: jest.fn(), pause: jest.fn(), resume: jest.fn() },
+  deadLetterQueue: { getJob: jest.fn(), getJobs: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderService', () => ({
+  IN_FLIGHT_STATUSES: ['pending', 'routing', 'limit_check', 'triggered', 'building', 'submitted'],
+  orderService: {
+    getOrderById: jest.fn(),
+    getOrdersByIds: jest.fn(),
+    recordAction: jest.fn(),
+    reopenOrder: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/services/accountService', () => ({
+  accountService: { reserve: jest.fn(), release: jest.fn() },
+}));
+
+jest.mock('../../src/services/riskService', () => ({
+  riskService: { getReservation: jest.fn() },
+}));
+
+import { orderService } from '../../src/services/orderService';
+import { accountService } from '../../src/services/accountService';
+import { riskService } from '../../src/services/riskService';
+import { addOrderToQueue, deadLetterQueue, getQueuedOrderIds, ordersQueue } from '../../src/queue/orderQueue';
+import { JobManagementService } from '../../src/services/jobManagementService';
+import { Order } from '../../src/types';
+
+const service = orderService as unknown as Record<keyof typeof orderService, jest.Mock>;
+const queue = ordersQueue as unknown as Record<'getJob' | 'getJobs' | 'pause' | 'resume', jest.Mock>;
+const deadLetters = deadLetterQueue as unknown as { getJob: jest.Mock; getJobs: jest.Mock };
+const accounts = accountService as unknown as Record<'reserve' | 'release', jest.Mock>;
+const getReservation = riskService.getReservation as jest.Mock;
+
+// Dead-lettered jobs belong to orders the worker failed on their last attempt
+const order = {
+  id: 'order-1',
+  accountId: 'account-1',
+  type: 'MARKET',
+  side: 'BUY',
+  tokenIn: 'SOL',
+  tokenOut: 'USDC',
+  amountIn: 2,
+  remainingAmount: 2,
+  reservedAmount: 0,
+  status: 'failed',
+  errorCode: 'QUOTE_TIMEOUT',
+  errorReason: 'Quote from raydium timed out',
+  attempts: 3,
+} as Order;
+
+const deadLetter = (failedAt: number) => ({
+  id: 'order-1',
+  name: 'process-market-order',
+  timestamp: failedAt,
+  opts: {},
+  attemptsMade: 0,
+  data: {
+    orderId: 'order-1',
+    jobId: 'order-1',
+    jobName: 'process-market-order',
+    attempts: 3,
+    attemptsMade: 3,
+    failedReason: 'Quote from raydium timed out',
+    stacktrace: ['QuoteTimeoutError: Quote from raydium timed out'],
+    enqueuedAt: failedAt - 5000,
+    failedAt,
+  },
+  remove: jest.fn(),
+});
+
+describe('JobManagementService', () => {
+  let jobs: JobManagementService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jobs = new JobManagementService();
+    queue.getJob.mockResolvedValue(undefined);
+    (getQueuedOrderIds as jest.Mock).mockResolvedValue(new Set());
+    service.getOrderById.mockResolvedValue(order);
+    service.reopenOrder.mockImplementation(async (_id, reservedAmount) => ({
+      ...order,
+      status: 'pending',
+      attempts: 0,
+      errorCode: null,
+      errorReason: null,
+      reservedAmount,
+    }));
+    getReservation.mockReturnValue({ token: 'USDC', amount: 370 });
+    accounts.reserve.mockResolvedValue(true);
+  });
+
+  it('should describe a dead-lettered job with its original failure and order', async () => {
+    deadLetters.getJob.mockResolvedValue(deadLetter(Date.now()));
+
+    const job = await jobs.getJob('order-1');
+
+    expect(job).toMatchObject({
+      state: 'dead',
+      attemptsMade: 3,
+      attempts: 3,
+      failedReason: 'Quote from raydium timed out',
+      stacktrace: ['QuoteTimeoutError: Quote from raydium timed out'],
+      data: { orderId: 'order-1' },
+      order: { id: 'order-1', status: 'failed', errorCode: 'QUOTE_TIMEOUT' },
+    });
+    expect(job?.data).not.toHaveProperty('stacktrace');
+  });
+
+  it('should reopen the failed order of a dead-lettered job and re-enqueue it', async () => {
+    const job = deadLetter(Date.now());
+    deadLetters.getJob.mockResolvedValue(job);
+
+    const result = await jobs.retryJob('order-1', 'admin:key-1');
+
+    expect(result).toMatchObject({
+      success: true,
+      jobId: expect.stringMatching(/^order-1-retry-/),
+      order: { status: 'pending', attempts: 0 },
+    });
+    expect(getReservation).toHaveBeenCalledWith(order, 2);
+    expect(accounts.reserve).toHaveBeenCalledWith('account-1', { token: 'USDC', amount: 370 });
+    expect(service.reopenOrder).toHaveBeenCalledWith(
+      'order-1',
+      370,
+      expect.stringContaining('Job order-1 retried'),
+      'admin:key-1'
+    );
+    expect(service.reopenOrder.mock.invocationCallOrder[0]).toBeLessThan(
+      (addOrderToQueue as jest.Mock).mock.invocationCallOrder[0]
+    );
+    expect(addOrderToQueue).toHaveBeenCalledWith('order-1', { orderId: 'order-1' }, expect.any(String));
+    expect(job.remove).toHaveBeenCalled();
+  });
+
+  it('should re-enqueue an order still waiting to execute as it is and audit the retry', async () => {
+    deadLetters.getJob.mockResolvedValue(deadLetter(Date.now()));
+    service.getOrderById.mockResolvedValue({ ...order, status: 'routing', errorCode: undefined });
+
+    const result = await jobs.retryJob('order-1', 'admin:key-1');
+
+    expect(result).toMatchObject({ success: true, order: { status: 'routing' } });
+    expect(accounts.reserve).not.toHaveBeenCalled();
+    expect(service.reopenOrder).not.toHaveBeenCalled();
+    expect(service.recordAction).toHaveBeenCalledWith(
+      'order-1',
+      expect.stringContaining('Job order-1 retried'),
+      'admin:key-1'
+    );
+    expect(addOrderToQueue).toHaveBeenCalled();
+  });
+
+  it('should not retry an order whose balance no longer covers it', async () => {
+    deadLetters.getJob.mockResolvedValue(deadLetter(Date.now()));
+    accounts.reserve.mockResolvedValue(false);
+
+    const result = await jobs.retryJob('order-1');
+
+    expect(result).toMatchObject({ success: false, code: 'INSUFFICIENT_BALANCE' });
+    expect(service.reopenOrder).not.toHaveBeenCalled();
+    expect(addOrderToQueue).not.toHaveBeenCalled();
+  });
+
+  it('should give the hold back when the order stopped being failed', async () => {
+    deadLetters.getJob.mockResolvedValue(deadLetter(Date.now()));
+    service.reopenOrder.mockResolvedValue(null);
+
+    const result = await jobs.retryJob('order-1');
+
+    expect(result).toMatchObject({ success: false, code: 'NOT_RETRYABLE' });
+    expect(accounts.release).toHaveBeenCalledWith('account-1', { token: 'USDC', amount: 370 });
+    expect(addOrderToQueue).not.toHaveBeenCalled();
+  });
+
+  it('should not retry orders that need manual settlement or are otherwise done', async () => {
+    deadLetters.getJob.mockResolvedValue(deadLetter(Date.now()));
+
+    for (const done of [
+      { ...order, errorCode: 'EXECUTION_INTERRUPTED' },
+      { ...order, errorCode: 'PARTIAL_EXECUTION' },
+      { ...order, status: 'cancelled', errorCode: undefined },
+      { ...order, status: 'resting', errorCode: undefined },
+    ]) {
+      service.getOrderById.mockResolvedValue(done);
+      await expect(jobs.retryJob('order-1')).resolves.toMatchObject({ success: false, code: 'NOT_RETRYABLE' });
+    }
+    expect(accounts.reserve).not.toHaveBeenCalled();
+    expect(addOrderToQueue).not.toHaveBeenCalled();
+  });
+
+  it('should purge only dead letters older than the cutoff', async () => {
+    const old = deadLetter(Date.now() - 60_000);
+    const recent = deadLetter(Date.now());
+    deadLetters.getJobs.mockResolvedValue([old, recent]);
+
+    const purged = await jobs.purgeJobs('dead', 30_000, 'admin:key-1');
+
+    expect(purged).toBe(1);
+    expect(old.remove).toHaveBeenCalled();
+    expect(recent.remove).not.toHaveBeenCalled();
+    expect(service.recordAction).toHaveBeenCalledTimes(1);
+  });
+
+  it('should record pausing and resuming in the history of every queued order', async () => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    queue.getJobs.mockResolvedValue([
+      { id: 'order-1', data: { orderId: 'order-1' } },
+      { id: 'order-1-retry-1', data: { orderId: 'order-1' } },
+      { id: 'order-2', data: { orderId: 'order-2' } },
+    ]);
+
+    await jobs.pauseQueue('admin:key-1');
+
+    expect(queue.pause).toHaveBeenCalled();
+    expect(queue.getJobs).toHaveBeenCalledWith(['waiting', 'prioritized', 'delayed']);
+    expect(service.recordAction.mock.calls).toEqual([
+      ['order-1', 'Order queue paused', 'admin:key-1'],
+      ['order-2', 'Order queue paused', 'admin:key-1'],
+    ]);
+
+    service.recordAction.mockClear();
+    await jobs.resumeQueue('admin:key-1');
+
+    expect(queue.resume).toHaveBeenCalled();
+    expect(service.recordAction).toHaveBeenCalledWith('order-2', 'Order queue resumed', 'admin:key-1');
+    expect(service.recordAction).toHaveBeenCalledTimes(2);
+  });
+});
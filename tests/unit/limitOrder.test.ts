@@ -0,0 +1,180 @@
+// tests/unit/limitOrder.test.ts
+
+jest.mock('../../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../../src/market/PriceTickEngine', () => ({
+  priceTickEngine: { addOrder: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderEventService', () => ({
+  orderEventService: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderService', () => ({
+  RESTING_STATUSES: ['resting', 'partially_filled'],
+  orderService: {
+    getOrderById: jest.fn(),
+    updateOrderStatus: jest.fn(),
+  },
+}));
+
+import { LimitOrderService } from '../../src/services/limitOrderService';
+import { MockDexRouter } from '../../src/dex/MockDexRouter';
+import { priceTickEngine } from '../../src/market/PriceTickEngine';
+import { orderService } from '../../src/services/orderService';
+import { QuoteTimeoutError } from '../../src/errors';
+import { DexRouterResult, ExecutionResult, Order } from '../../src/types';
+
+const service = orderService as unknown as Record<keyof typeof orderService, jest.Mock>;
+const addOrder = priceTickEngine.addOrder as jest.Mock;
+
+const limitOrder = (overrides: Partial<Order> = {}) =>
+  ({
+    id: 'order-1',
+    accountId: 'account-1',
+    type: 'LIMIT',
+    side: 'BUY',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amountIn: 2,
+    filledAmount: 0,
+    remainingAmount: 2,
+    limitPrice: 180,
+    slippage: 0.02,
+    timeInForce: 'GTC',
+    status: 'pending',
+    ...overrides,
+  }) as Order;
+
+const quote = (effectivePrice: number) =>
+  ({ selectedDex: 'RAYDIUM', price: effectivePrice, effectivePrice, path: [], hops: [] }) as unknown as DexRouterResult;
+
+describe('LimitOrderService', () => {
+  const router = new MockDexRouter();
+  const limitService = new LimitOrderService(router);
+  let routeOrder: jest.SpyInstance;
+  let executeRoute: jest.SpyInstance;
+
+  // Serve reloads from the order as it was submitted, in its latest status
+  const given = (order: Order) => {
+    service.getOrderById.mockImplementation(async () => order);
+    service.updateOrderStatus.mockImplementation(async (_id, status) => {
+      order.status = status;
+    });
+    return order;
+  };
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    routeOrder = jest.spyOn(router, 'routeOrder');
+    executeRoute = jest.spyOn(
+      limitService as unknown as { executeRoute: () => Promise<ExecutionResult> },
+      'executeRoute'
+    );
+  });
+
+  afterEach(() => {
+    jest.restoreAllMocks();
+  });
+
+  it.each(['IOC', 'FOK'] as const)('should expire %s orders whose limit is not reached', async (timeInForce) => {
+    const order = given(limitOrder({ timeInForce }));
+    routeOrder.mockResolvedValue(quote(181));
+
+    const result = await limitService.processLimitOrder(order);
+
+    expect(result).toEqual({ success: true, status: 'expired' });
+    expect(routeOrder.mock.calls[0][3]).toMatchObject({ allowPartial: timeInForce === 'IOC' });
+    expect(service.updateOrderStatus).toHaveBeenLastCalledWith(
+      'order-1',
+      'expired',
+      expect.objectContaining({ errorCode: 'LIMIT_NOT_REACHED' })
+    );
+    expect(addOrder).not.toHaveBeenCalled();
+  });
+
+  it('should expire a GTD order past its expiry', async () => {
+    const order = given(limitOrder({ timeInForce: 'GTD', expiresAt: new Date(Date.now() - 1000) }));
+    routeOrder.mockResolvedValue(quote(181));
+
+    await expect(limitService.processLimitOrder(order)).resolves.toEqual({ success: true, status: 'expired' });
+    expect(service.updateOrderStatus).toHaveBeenLastCalledWith(
+      'order-1',
+      'expired',
+      expect.objectContaining({ errorCode: 'ORDER_EXPIRED' })
+    );
+  });
+
+  it('should rest a GTC order whose limit is not reached', async () => {
+    const order = given(limitOrder());
+    routeOrder.mockResolvedValue(quote(181));
+
+    await expect(limitService.processLimitOrder(order)).resolves.toEqual({ success: true, status: 'resting' });
+    expect(service.updateOrderStatus).toHaveBeenLastCalledWith('order-1', 'resting', expect.anything());
+    expect(addOrder).toHaveBeenCalledWith(expect.objectContaining({ id: 'order-1', status: 'resting' }));
+    expect(executeRoute).not.toHaveBeenCalled();
+  });
+
+  it('should rest the remainder of a partially filled GTC order', async () => {
+    const order = given(limitOrder());
+    routeOrder.mockResolvedValue(quote(179));
+    executeRoute.mockImplementation(async () => {
+      Object.assign(order, { status: 'partially_filled', filledAmount: 1, remainingAmount: 1 });
+      return { success: true, status: 'partially_filled', filledAmount: 1 };
+    });
+
+    const result = await limitService.processLimitOrder(order);
+
+    expect(result).toMatchObject({ success: true, status: 'partially_filled' });
+    expect(addOrder).toHaveBeenCalledWith(expect.objectContaining({ id: 'order-1', remainingAmount: 1 }));
+  });
+
+  it('should expire the remainder of a partially filled IOC order', async () => {
+    const order = given(limitOrder({ timeInForce: 'IOC' }));
+    routeOrder.mockResolvedValue(quote(179));
+    executeRoute.mockImplementation(async () => {
+      Object.assign(order, { status: 'partially_filled', filledAmount: 1, remainingAmount: 1 });
+      return { success: true, status: 'partially_filled', filledAmount: 1 };
+    });
+
+    await expect(limitService.processLimitOrder(order)).resolves.toEqual({ success: true, status: 'expired' });
+    expect(addOrder).not.toHaveBeenCalled();
+  });
+
+  it('should return a resting order to the book on a transient failure', async () => {
+    const order = given(limitOrder({ status: 'resting' }));
+    routeOrder.mockResolvedValue(quote(179));
+    executeRoute.mockImplementation(async () => {
+      order.status = 'submitted';
+      throw new QuoteTimeoutError('RAYDIUM', 2000);
+    });
+
+    const result = await limitService.processLimitOrder(order, 0);
+
+    expect(result).toEqual({ success: true, status: 'resting' });
+    expect(service.updateOrderStatus).not.toHaveBeenCalledWith('order-1', 'failed', expect.anything());
+    expect(service.updateOrderStatus).toHaveBeenLastCalledWith(
+      'order-1',
+      'resting',
+      expect.objectContaining({ reason: expect.stringContaining('QUOTE_TIMEOUT') })
+    );
+    expect(addOrder).toHaveBeenCalledWith(expect.objectContaining({ id: 'order-1', status: 'resting' }));
+  });
+
+  it('should rest a resting order again rather than execute a size amended while quoting', async () => {
+    const stored = limitOrder({ status: 'resting' });
+    service.getOrderById.mockImplementation(async () => ({ ...stored }));
+    routeOrder.mockImplementation(async () => {
+      Object.assign(stored, { amountIn: 3, remainingAmount: 3 });
+      return quote(179);
+    });
+
+    const result = await limitService.processLimitOrder(limitOrder({ status: 'resting' }), 0);
+
+    expect(routeOrder.mock.calls[0][2]).toBe(2);
+    expect(executeRoute).not.toHaveBeenCalled();
+    expect(result).toEqual({ success: true, status: 'resting' });
+    expect(addOrder).toHaveBeenCalledWith(expect.objectContaining({ remainingAmount: 3, status: 'resting' }));
+  });
+});
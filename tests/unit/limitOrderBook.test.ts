@@ -0,0 +1,93 @@
+// tests/unit/limitOrderBook.test.ts
+
+import { LimitOrderBook } from '../../src/market/LimitOrderBook';
+import { Order, OrderSide } from '../../src/types';
+
+function makeOrder(id: string, side: OrderSide, limitPrice: number, expiresAt?: Date): Order {
+  return {
+    id,
+    accountId: 'account-1',
+    type: 'LIMIT',
+    side,
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amountIn: 1,
+    filledAmount: 0,
+    remainingAmount: 1,
+    reservedAmount: 0,
+    limitPrice,
+    slippage: 0.02,
+    timeInForce: expiresAt ? 'GTD' : 'GTC',
+    expiresAt,
+    status: 'resting',
+    attempts: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('LimitOrderBook', () => {
+  let book: LimitOrderBook;
+
+  beforeEach(() => {
+    book = new LimitOrderBook();
+  });
+
+  it('should only take buys whose limit is at or above the price', () => {
+    book.add(makeOrder('b1', 'BUY', 180));
+    book.add(makeOrder('b2', 'BUY', 186));
+    book.add(makeOrder('b3', 'BUY', 185));
+
+    const crossed = book.takeCrossed(185, 0);
+
+    expect(crossed.map((o) => o.id)).toEqual(['b2', 'b3']);
+    expect(book.size).toBe(1);
+    expect(book.has('b1')).toBe(true);
+  });
+
+  it('should only take sells whose limit is at or below the price', () => {
+    book.add(makeOrder('s1', 'SELL', 190));
+    book.add(makeOrder('s2', 'SELL', 184));
+    book.add(makeOrder('s3', 'SELL', 185));
+
+    const crossed = book.takeCrossed(Infinity, 185);
+
+    expect(crossed.map((o) => o.id)).toEqual(['s2', 's3']);
+    expect(book.has('s1')).toBe(true);
+  });
+
+  it('should keep time priority for equal limits', () => {
+    book.add(makeOrder('first', 'BUY', 185));
+    book.add(makeOrder('second', 'BUY', 185));
+
+    expect(book.takeCrossed(185, 0).map((o) => o.id)).toEqual(['first', 'second']);
+  });
+
+  it('should report top of book', () => {
+    book.add(makeOrder('b1', 'BUY', 180));
+    book.add(makeOrder('b2', 'BUY', 182));
+    book.add(makeOrder('s1', 'SELL', 190));
+
+    expect(book.getTopOfBook()).toEqual({ bestBid: 182, bestAsk: 190 });
+  });
+
+  it('should remove and replace orders', () => {
+    book.add(makeOrder('b1', 'BUY', 180));
+    book.add(makeOrder('b1', 'BUY', 190));
+
+    expect(book.size).toBe(1);
+    expect(book.getTopOfBook().bestBid).toBe(190);
+    expect(book.remove('b1')?.id).toBe('b1');
+    expect(book.remove('b1')).toBeUndefined();
+    expect(book.size).toBe(0);
+  });
+
+  it('should take expired orders', () => {
+    const now = new Date();
+    book.add(makeOrder('old', 'BUY', 100, new Date(now.getTime() - 1000)));
+    book.add(makeOrder('gtc', 'BUY', 100));
+
+    expect(book.takeExpired(now).map((o) => o.id)).toEqual(['old']);
+    expect(book.size).toBe(1);
+  });
+});
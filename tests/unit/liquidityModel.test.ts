@@ -0,0 +1,65 @@
+// tests/unit/liquidityModel.test.ts
+
+import {
+  BinLiquidityModel,
+  ConstantProductModel,
+  createLiquidityModel,
+} from '../../src/dex/LiquidityModel';
+
+describe('ConstantProductModel', () => {
+  const pool = new ConstantProductModel(1_000_000);
+
+  it('should grow price impact with trade size', () => {
+    const small = pool.fill(100, 10, 'BUY');
+    const large = pool.fill(100, 1000, 'BUY');
+    expect(small.averagePrice).toBeGreaterThan(100);
+    expect(large.averagePrice).toBeGreaterThan(small.averagePrice);
+  });
+
+  it('should pay sellers less than spot and move the price down', () => {
+    const fill = pool.fill(100, 1000, 'SELL');
+    expect(fill.filledAmount).toBe(1000);
+    expect(fill.averagePrice).toBeLessThan(100);
+    expect(fill.newSpotPrice).toBeLessThan(fill.averagePrice);
+  });
+
+  it('should never drain the pool on buys', () => {
+    const fill = pool.fill(100, 1_000_000, 'BUY');
+    expect(fill.filledAmount).toBeLessThan(10_000);
+  });
+});
+
+describe('BinLiquidityModel', () => {
+  const pool = new BinLiquidityModel(0.01, 1000, 5);
+
+  it('should fill inside the active bin at spot', () => {
+    const fill = pool.fill(100, 5, 'BUY');
+    expect(fill.averagePrice).toBe(100);
+    expect(fill.filledAmount).toBe(5);
+  });
+
+  it('should walk bins up for buys and down for sells', () => {
+    const buy = pool.fill(100, 25, 'BUY');
+    const sell = pool.fill(100, 25, 'SELL');
+    expect(buy.averagePrice).toBeGreaterThan(100);
+    expect(buy.newSpotPrice).toBeCloseTo(100 * Math.pow(1.01, 2.5), 6);
+    expect(sell.averagePrice).toBeLessThan(100);
+  });
+
+  it('should only partially fill once the bins are exhausted', () => {
+    const fill = pool.fill(100, 100, 'BUY');
+    expect(fill.filledAmount).toBeCloseTo(50, 6);
+    expect(fill.availableLiquidity).toBeCloseTo(50, 6);
+  });
+});
+
+describe('createLiquidityModel', () => {
+  it('should build the configured model', () => {
+    expect(createLiquidityModel({ model: 'constant_product', depth: 1000 })).toBeInstanceOf(
+      ConstantProductModel
+    );
+    expect(
+      createLiquidityModel({ model: 'bins', binStep: 0.001, binLiquidity: 1000, binsPerSide: 10 })
+    ).toBeInstanceOf(BinLiquidityModel);
+  });
+});
@@ -0,0 +1,134 @@
+// tests/unit/marketSimulator.test.ts
+
+import { DEFAULT_BASE_PRICES, MarketSimulator, loadSimulatorConfig } from '../../src/dex/MarketSimulator';
+import { DexRegistry } from '../../src/dex/DexRegistry';
+import { MockDexAdapter } from '../../src/dex/MockDexAdapter';
+import { MockDexRouter } from '../../src/dex/MockDexRouter';
+import { SimulatorConfig } from '../../src/types';
+
+function makeConfig(overrides: Partial<SimulatorConfig> = {}): SimulatorConfig {
+  return {
+    seed: 42,
+    process: 'static',
+    basePrices: { ...DEFAULT_BASE_PRICES },
+    defaultBasePrice: 185.5,
+    volatility: 0.01,
+    drift: 0,
+    stepMs: 0,
+    ...overrides,
+  };
+}
+
+function makeRouter(simulator: MarketSimulator): MockDexRouter {
+  const registry = new DexRegistry();
+  const venue = {
+    enabled: true,
+    timeoutMs: 1000,
+    quoteLatencyMs: 1,
+    minVariance: 0.97,
+    maxVariance: 1.03,
+    liquidity: { model: 'constant_product' as const, depth: 2_000_000 },
+  };
+  registry.register(new MockDexAdapter({ ...venue, name: 'RAYDIUM', fee: 0.003 }, simulator));
+  registry.register(new MockDexAdapter({ ...venue, name: 'METEORA', fee: 0.002 }, simulator));
+  return new MockDexRouter(registry);
+}
+
+describe('MarketSimulator', () => {
+  it('should use per-pair base prices and invert reverse pairs', () => {
+    const simulator = new MarketSimulator(makeConfig());
+    expect(simulator.getMidPrice('SOL', 'USDC')).toBe(185.5);
+    expect(simulator.getMidPrice('JUP', 'USDC')).toBe(0.92);
+    expect(simulator.getMidPrice('USDC', 'SOL')).toBeCloseTo(1 / 185.5, 10);
+  });
+
+  it('should price unlisted pairs through a shared token', () => {
+    const simulator = new MarketSimulator(makeConfig());
+    expect(simulator.getMidPrice('BONK', 'USDC')).toBeCloseTo(0.00000012 * 185.5, 15);
+    expect(simulator.getMidPrice('JUP', 'SOL')).toBeCloseTo(0.92 / 185.5, 10);
+  });
+
+  it('should replay the same random walk for the same seed', () => {
+    const a = new MarketSimulator(makeConfig({ process: 'random_walk' }));
+    const b = new MarketSimulator(makeConfig({ process: 'random_walk' }));
+    a.getMidPrice('SOL', 'USDC');
+    b.getMidPrice('SOL', 'USDC');
+
+    a.advance(25);
+    b.advance(25);
+
+    expect(a.getMidPrice('SOL', 'USDC')).toBe(b.getMidPrice('SOL', 'USDC'));
+    expect(a.getMidPrice('SOL', 'USDC')).not.toBe(185.5);
+  });
+
+  it('should diverge for different seeds', () => {
+    const a = new MarketSimulator(makeConfig({ process: 'random_walk', seed: 1 }));
+    const b = new MarketSimulator(makeConfig({ process: 'random_walk', seed: 2 }));
+    a.getMidPrice('SOL', 'USDC');
+    b.getMidPrice('SOL', 'USDC');
+
+    a.advance(5);
+    b.advance(5);
+
+    expect(a.getMidPrice('SOL', 'USDC')).not.toBe(b.getMidPrice('SOL', 'USDC'));
+  });
+
+  it('should trend in the drift direction without noise', () => {
+    const simulator = new MarketSimulator(makeConfig({ process: 'trending', volatility: 0, drift: 0.01 }));
+    simulator.getMidPrice('SOL', 'USDC');
+
+    simulator.advance(10);
+
+    expect(simulator.getMidPrice('SOL', 'USDC')).toBeCloseTo(185.5 * Math.exp(0.1), 8);
+  });
+
+  it('should follow a scripted path and hold its last price', () => {
+    const simulator = new MarketSimulator(
+      makeConfig({ process: 'scripted', pricePaths: { 'SOL/USDC': [190, 186, 183] } })
+    );
+
+    const prices = [simulator.getMidPrice('SOL', 'USDC')];
+    for (let i = 0; i < 3; i++) {
+      simulator.advance();
+      prices.push(simulator.getMidPrice('SOL', 'USDC'));
+    }
+
+    expect(prices).toEqual([190, 186, 183, 183]);
+  });
+
+  it('should reset to base prices', () => {
+    const simulator = new MarketSimulator(makeConfig({ process: 'random_walk' }));
+    simulator.getMidPrice('SOL', 'USDC');
+    simulator.advance(3);
+
+    simulator.reset();
+
+    expect(simulator.getMidPrice('SOL', 'USDC')).toBe(185.5);
+  });
+
+  it('should make routing reproducible for a seed', async () => {
+    const first = await makeRouter(new MarketSimulator(makeConfig())).routeOrder('SOL', 'USDC', 1);
+    const second = await makeRouter(new MarketSimulator(makeConfig())).routeOrder('SOL', 'USDC', 1);
+
+    expect(second).toEqual(first);
+  });
+
+  describe('loadSimulatorConfig', () => {
+    it('should read seed, process and base price overrides', () => {
+      const config = loadSimulatorConfig({
+        SIM_SEED: '7',
+        SIM_PROCESS: 'trending',
+        SIM_BASE_PRICES: '{"SOL/USDC": 200}',
+      });
+
+      expect(config.seed).toBe(7);
+      expect(config.process).toBe('trending');
+      expect(config.basePrices['SOL/USDC']).toBe(200);
+      expect(config.basePrices['JUP/USDC']).toBe(0.92);
+    });
+
+    it('should reject unknown processes', () => {
+      expect(() => loadSimulatorConfig({ SIM_PROCESS: 'chaos' })).toThrow('Unknown SIM_PROCESS');
+    });
+  });
+});
@@ -0,0 +1,122 @@
+// tests/unit/mockChain.test.ts
+
+import { MockChain, loadChainConfig } from '../../src/chain/MockChain';
+import { DEFAULT_BASE_PRICES, MarketSimulator } from '../../src/dex/MarketSimulator';
+import { TransactionExpiredError, TransactionFailedError } from '../../src/errors';
+import { ChainConfig, ChainTransaction, Commitment } from '../../src/types';
+
+function makeChain(overrides: Partial<ChainConfig> = {}): MockChain {
+  const simulator = new MarketSimulator({
+    seed: 42,
+    process: 'static',
+    basePrices: { ...DEFAULT_BASE_PRICES },
+    defaultBasePrice: 185.5,
+    volatility: 0,
+    drift: 0,
+    stepMs: 0,
+  });
+  return new MockChain(
+    {
+      slotMs: 5,
+      confirmationDepth: 1,
+      finalizationDepth: 3,
+      blockhashValiditySlots: 4,
+      failureRates: {},
+      ...overrides,
+    },
+    simulator
+  );
+}
+
+let nextSignature = 0;
+function makeTransaction(chain: MockChain, blockhash?: string): ChainTransaction {
+  return {
+    signature: `sig-${nextSignature++}`,
+    feePayer: 'payer',
+    recentBlockhash: blockhash ?? chain.getLatestBlockhash().blockhash,
+    instructions: [{ programId: 'TEST', data: { amount: 1 } }],
+  };
+}
+
+describe('MockChain', () => {
+  it('should land transactions in a later slot and run their programs', async () => {
+    const chain = makeChain();
+    const program = jest.fn(() => 'filled');
+    const transaction = makeTransaction(chain);
+    const submittedAt = chain.getSlot();
+
+    chain.sendTransaction(transaction, program);
+    expect(chain.getSignatureStatus(transaction.signature)).toMatchObject({ slot: null, commitment: null });
+
+    const confirmed = await chain.confirmTransaction(transaction.signature, 'processed');
+    expect(confirmed.slot).toBeGreaterThan(submittedAt);
+    expect(confirmed.returnData).toEqual(['filled']);
+    expect(program).toHaveBeenCalledWith(transaction.instructions[0]);
+  });
+
+  it('should report every commitment level up to the requested one', async () => {
+    const chain = makeChain();
+    const transaction = makeTransaction(chain);
+    const levels: Array<Commitment | null> = [];
+
+    chain.sendTransaction(transaction, () => undefined);
+    const confirmed = await chain.confirmTransaction(transaction.signature, 'finalized', (status) =>
+      levels.push(status.commitment)
+    );
+
+    expect(levels).toEqual(['processed', 'confirmed', 'finalized']);
+    expect(confirmed.commitment).toBe('finalized');
+  });
+
+  it('should reject transactions with an expired blockhash', async () => {
+    const chain = makeChain();
+    const { blockhash } = chain.getLatestBlockhash();
+    await new Promise((resolve) => setTimeout(resolve, 40));
+
+    expect(() => chain.sendTransaction(makeTransaction(chain, blockhash), () => undefined)).toThrow(
+      TransactionExpiredError
+    );
+  });
+
+  it('should expire dropped transactions once their blockhash is no longer valid', async () => {
+    const chain = makeChain({ failureRates: { dropped: 1 } });
+    const program = jest.fn();
+    const transaction = makeTransaction(chain);
+
+    chain.sendTransaction(transaction, program);
+    await expect(chain.confirmTransaction(transaction.signature)).rejects.toThrow('block height exceeded');
+    expect(program).not.toHaveBeenCalled();
+  });
+
+  it('should reject underfunded fee payers before landing', () => {
+    const chain = makeChain({ failureRates: { insufficient_funds: 1 } });
+    expect(() => chain.sendTransaction(makeTransaction(chain), () => undefined)).toThrow(
+      expect.objectContaining({ code: 'INSUFFICIENT_FUNDS' })
+    );
+  });
+
+  it('should fail transactions whose program errors', async () => {
+    const chain = makeChain();
+    const transaction = makeTransaction(chain);
+
+    chain.sendTransaction(transaction, () => {
+      throw new Error('slippage exceeded');
+    });
+    await expect(chain.confirmTransaction(transaction.signature)).rejects.toThrow('slippage exceeded');
+    expect(chain.getSignatureStatus(transaction.signature)?.err).toBe('slippage exceeded');
+  });
+
+  it('should fail transactions with injected program errors without running them', async () => {
+    const chain = makeChain({ failureRates: { program_error: 1 } });
+    const program = jest.fn();
+    const transaction = makeTransaction(chain);
+
+    chain.sendTransaction(transaction, program);
+    await expect(chain.confirmTransaction(transaction.signature)).rejects.toBeInstanceOf(TransactionFailedError);
+    expect(program).not.toHaveBeenCalled();
+  });
+
+  it('should reject unknown failure kinds in the environment', () => {
+    expect(() => loadChainConfig({ CHAIN_FAILURE_RATES: '{"reorg":0.1}' })).toThrow('reorg');
+  });
+});
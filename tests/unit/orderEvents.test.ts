@@ -0,0 +1,103 @@
+// tests/unit/orderEvents.test.ts
+
+jest.mock('../../src/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    order: { update: jest.fn() },
+    orderEvent: { create: jest.fn(), findMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+jest.mock('../../src/websocket/wsManager', () => ({
+  wsManager: { emit: jest.fn() },
+}));
+
+import prisma from '../../src/db/prisma';
+import { wsManager } from '../../src/websocket/wsManager';
+import { OrderEventService } from '../../src/services/orderEventService';
+import { OrderRef, OrderStatus } from '../../src/types';
+
+const db = prisma as unknown as {
+  order: { update: jest.Mock };
+  orderEvent: { create: jest.Mock; findMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+const emit = wsManager.emit as jest.Mock;
+
+const order: OrderRef = { id: 'order-1', accountId: 'account-1', tokenIn: 'SOL', tokenOut: 'USDC' };
+const update = (status: OrderStatus) => ({ orderId: order.id, status, timestamp: new Date() });
+
+describe('OrderEventService', () => {
+  let events: OrderEventService;
+  let seq: number;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    events = new OrderEventService();
+    seq = 0;
+    // Slow allocations would reorder concurrent publishes if they were not chained
+    db.order.update.mockImplementation(async () => {
+      const eventSeq = ++seq;
+      await new Promise((resolve) => setTimeout(resolve, 10 - eventSeq));
+      return { eventSeq };
+    });
+    db.orderEvent.create.mockResolvedValue({});
+    // A failed transaction rolls the sequence back
+    db.$transaction.mockImplementation(async (run: (tx: typeof db) => unknown) => {
+      const before = seq;
+      try {
+        return await run(db);
+      } catch (error) {
+        seq = before;
+        throw error;
+      }
+    });
+  });
+
+  it('should number, persist and emit events in publish order', async () => {
+    await Promise.all([
+      events.publish(order, update('routing')),
+      events.publish(order, update('building')),
+      events.publish(order, update('submitted')),
+    ]);
+
+    expect(emit.mock.calls.map(([, message]) => [message.seq, message.status])).toEqual([
+      [1, 'routing'],
+      [2, 'building'],
+      [3, 'submitted'],
+    ]);
+    expect(db.orderEvent.create.mock.calls[0][0].data).toMatchObject({ orderId: 'order-1', seq: 1 });
+    expect(db.orderEvent.create.mock.invocationCallOrder[0]).toBeLessThan(emit.mock.invocationCallOrder[0]);
+  });
+
+  it('should still emit live when an event cannot be persisted', async () => {
+    db.orderEvent.create.mockRejectedValueOnce(new Error('db down'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const message = await events.publish(order, update('routing'));
+
+    expect(message.seq).toBeUndefined();
+    expect(emit).toHaveBeenCalledWith(order, expect.objectContaining({ status: 'routing' }));
+  });
+
+  it('should number and store an event in one transaction', async () => {
+    db.orderEvent.create.mockRejectedValueOnce(new Error('db down'));
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    await events.publish(order, update('routing'));
+    const message = await events.publish(order, update('building'));
+
+    expect(db.$transaction).toHaveBeenCalledTimes(2);
+    expect(message.seq).toBe(1);
+  });
+
+  it('should load events from a seq on', async () => {
+    db.orderEvent.findMany.mockResolvedValue([]);
+    await events.getEvents('order-1', 3);
+    expect(db.orderEvent.findMany.mock.calls[0][0]).toMatchObject({
+      where: { orderId: 'order-1', seq: { gte: 3 } },
+      orderBy: { seq: 'asc' },
+    });
+  });
+});
@@ -0,0 +1,174 @@
+// tests/unit/orderFailures.test.ts
+
+jest.mock('../../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../../src/services/orderEventService', () => ({
+  orderEventService: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderService', () => ({
+  orderService: {
+    getOrderById: jest.fn(),
+    updateOrderStatus: jest.fn(),
+    applyFill: jest.fn(),
+  },
+}));
+
+import { MarketOrderService } from '../../src/services/marketOrderService';
+import { MockDexRouter } from '../../src/dex/MockDexRouter';
+import { orderService } from '../../src/services/orderService';
+import { orderEventService } from '../../src/services/orderEventService';
+import {
+  InsufficientLiquidityError,
+  QuoteTimeoutError,
+  SlippageExceededError,
+  TransactionExpiredError,
+  toOrderExecutionError,
+} from '../../src/errors';
+import { DexRouterResult, Order, RouteSummary, SwapResult } from '../../src/types';
+
+const updateOrderStatus = orderService.updateOrderStatus as jest.Mock;
+const publish = orderEventService.publish as jest.Mock;
+
+const order = {
+  id: 'order-1',
+  accountId: 'account-1',
+  type: 'MARKET',
+  side: 'BUY',
+  tokenIn: 'SOL',
+  tokenOut: 'USDC',
+  amountIn: 1,
+  remainingAmount: 1,
+  status: 'pending',
+} as Order;
+
+describe('order failure handling', () => {
+  const routeOrder = jest.fn();
+  const service = new MarketOrderService({ routeOrder } as unknown as MockDexRouter);
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    (orderService.getOrderById as jest.Mock).mockResolvedValue({ ...order, status: 'routing' });
+  });
+
+  it('should only retry errors outside the taxonomy that are known to be transient', () => {
+    const transient = (message: string, code: string) => Object.assign(new Error(message), { code });
+
+    expect(toOrderExecutionError(new Error('undefined is not a function'))).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      retryable: false,
+    });
+    expect(toOrderExecutionError('boom').retryable).toBe(false);
+    expect(toOrderExecutionError(transient('connection reset', 'ECONNRESET'))).toMatchObject({
+      code: 'INTERNAL_ERROR',
+      retryable: true,
+    });
+    expect(toOrderExecutionError(transient("Can't reach database server", 'P1001')).retryable).toBe(true);
+    expect(toOrderExecutionError(transient('Unique constraint failed', 'P2002')).retryable).toBe(false);
+    expect(new QuoteTimeoutError('RAYDIUM', 2000).retryable).toBe(true);
+    expect(new SlippageExceededError('slipped', 186, 185).retryable).toBe(false);
+  });
+
+  it('should hand retryable failures back to the queue without failing the order', async () => {
+    routeOrder.mockRejectedValue(new QuoteTimeoutError('RAYDIUM', 2000));
+
+    await expect(service.processMarketOrder(order, 2)).rejects.toBeInstanceOf(QuoteTimeoutError);
+
+    expect(updateOrderStatus).not.toHaveBeenCalledWith('order-1', 'failed', expect.anything());
+    expect(publish).toHaveBeenLastCalledWith(
+      order,
+      expect.objectContaining({
+        status: 'routing',
+        event: 'retry',
+        data: expect.objectContaining({ code: 'QUOTE_TIMEOUT', retriesLeft: 2 }),
+      })
+    );
+  });
+
+  it('should fail the order on the last attempt with its error code', async () => {
+    routeOrder.mockRejectedValue(new QuoteTimeoutError('RAYDIUM', 2000));
+
+    const result = await service.processMarketOrder(order, 0);
+
+    expect(result).toMatchObject({ success: false, error: 'RAYDIUM quote timed out after 2000ms' });
+    expect(updateOrderStatus).toHaveBeenCalledWith(
+      'order-1',
+      'failed',
+      expect.objectContaining({ errorCode: 'QUOTE_TIMEOUT' })
+    );
+  });
+
+  it('should fail terminal errors immediately', async () => {
+    routeOrder.mockRejectedValue(new InsufficientLiquidityError('Insufficient liquidity for 1 SOL/USDC'));
+
+    const result = await service.processMarketOrder(order, 2);
+
+    expect(result.success).toBe(false);
+    expect(updateOrderStatus).toHaveBeenCalledWith(
+      'order-1',
+      'failed',
+      expect.objectContaining({ errorCode: 'INSUFFICIENT_LIQUIDITY' })
+    );
+    expect(publish).toHaveBeenLastCalledWith(
+      order,
+      expect.objectContaining({ status: 'failed', data: expect.objectContaining({ code: 'INSUFFICIENT_LIQUIDITY' }) })
+    );
+  });
+
+  it('should route the size the order had once routing began', async () => {
+    (orderService.getOrderById as jest.Mock).mockResolvedValue({ ...order, status: 'routing', remainingAmount: 0.5 });
+    routeOrder.mockRejectedValue(new InsufficientLiquidityError('Insufficient liquidity for 0.5 SOL/USDC'));
+
+    await service.processMarketOrder(order, 0);
+
+    expect(routeOrder).toHaveBeenCalledWith('SOL', 'USDC', 0.5, { side: 'BUY' });
+  });
+
+  it('should not retry a market order once some of its legs filled', async () => {
+    const leg = { amountIn: 0.5, price: 180, fee: 0, effectivePrice: 180, expectedOutput: 90, priceImpact: 0 };
+    routeOrder.mockResolvedValue({
+      selectedDex: 'RAYDIUM',
+      price: 180,
+      effectivePrice: 180,
+      path: ['SOL', 'USDC'],
+      hops: [
+        {
+          tokenIn: 'SOL',
+          tokenOut: 'USDC',
+          amountIn: 1,
+          legs: [
+            { ...leg, dex: 'RAYDIUM' },
+            { ...leg, dex: 'METEORA' },
+          ],
+        },
+      ],
+    } as unknown as DexRouterResult);
+    const executor = service as unknown as Record<'recordRoute' | 'sleep' | 'submitSwap', () => Promise<unknown>>;
+    jest.spyOn(executor, 'recordRoute').mockResolvedValue({ path: ['SOL', 'USDC'] } as RouteSummary);
+    jest.spyOn(executor, 'sleep').mockResolvedValue(undefined);
+    jest
+      .spyOn(executor, 'submitSwap')
+      .mockResolvedValueOnce({ executedPrice: 180, amountOut: 90, fee: 0, priceImpact: 0, txHash: 'tx-1' } as SwapResult)
+      .mockRejectedValueOnce(new TransactionExpiredError('signature-2', 'blockhash not found'));
+    (orderService.applyFill as jest.Mock).mockResolvedValue({
+      ...order,
+      filledAmount: 0.5,
+      remainingAmount: 0.5,
+      averagePrice: 180,
+    });
+
+    const result = await service.processMarketOrder(order, 2);
+
+    expect(result.success).toBe(false);
+    expect(orderService.applyFill).toHaveBeenCalledWith('order-1', 0.5, 180, [
+      expect.objectContaining({ dex: 'RAYDIUM', amountIn: 0.5 }),
+    ]);
+    expect(updateOrderStatus).toHaveBeenCalledWith(
+      'order-1',
+      'failed',
+      expect.objectContaining({ errorCode: 'PARTIAL_EXECUTION' })
+    );
+    expect(publish).not.toHaveBeenCalledWith(order, expect.objectContaining({ event: 'retry' }));
+  });
+});
@@ -0,0 +1,196 @@
+// tests/unit/orderManagement.test.ts
+
+jest.mock('../../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../../src/queue/orderQueue', () => ({
+  removeOrderJobs: jest.fn(),
+  updateOrderJobs: jest.fn(),
+}));
+
+jest.mock('../../src/market/PriceTickEngine', () => ({
+  priceTickEngine: { removeOrder: jest.fn(), updateOrder: jest.fn() },
+}));
+
+jest.mock('../../src/services/sniperOrderService', () => ({
+  sniperOrderService: { disarm: jest.fn(), rearm: jest.fn() },
+}));
+
+jest.mock('../../src/services/riskService', () => ({
+  riskService: { getReservation: jest.fn() },
+}));
+
+jest.mock('../../src/services/accountService', () => ({
+  accountService: { reserve: jest.fn(), release: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderEventService', () => ({
+  orderEventService: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderService', () => ({
+  RESIZABLE_STATUSES: ['pending', 'resting', 'partially_filled', 'armed'],
+  orderService: {
+    getOrderById: jest.fn(),
+    cancelOrder: jest.fn(),
+    amendOrder: jest.fn(),
+  },
+}));
+
+import { OrderManagementService } from '../../src/services/orderManagementService';
+import { orderService } from '../../src/services/orderService';
+import { accountService } from '../../src/services/accountService';
+import { riskService } from '../../src/services/riskService';
+import { priceTickEngine } from '../../src/market/PriceTickEngine';
+import { removeOrderJobs, updateOrderJobs } from '../../src/queue/orderQueue';
+import { orderEventService } from '../../src/services/orderEventService';
+import { Order } from '../../src/types';
+
+const service = orderService as unknown as Record<keyof typeof orderService, jest.Mock>;
+const accounts = accountService as unknown as Record<'reserve' | 'release', jest.Mock>;
+const getReservation = riskService.getReservation as jest.Mock;
+const publish = orderEventService.publish as jest.Mock;
+
+const resting = {
+  id: 'order-1',
+  accountId: 'account-1',
+  type: 'LIMIT',
+  side: 'BUY',
+  tokenIn: 'SOL',
+  tokenOut: 'USDC',
+  amountIn: 2,
+  filledAmount: 0,
+  remainingAmount: 2,
+  reservedAmount: 360,
+  limitPrice: 180,
+  slippage: 0,
+  timeInForce: 'GTC',
+  status: 'resting',
+} as Order;
+
+describe('OrderManagementService', () => {
+  const management = new OrderManagementService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    service.getOrderById.mockResolvedValue(resting);
+    accounts.reserve.mockResolvedValue(true);
+  });
+
+  describe('cancelOrder', () => {
+    it('should cancel a resting order and withdraw it everywhere it waits', async () => {
+      const cancelled = { ...resting, status: 'cancelled' } as Order;
+      service.cancelOrder.mockResolvedValue(cancelled);
+
+      const result = await management.cancelOrder('order-1', 'Cancelled by user', 'account:key-1');
+
+      expect(result).toEqual({ success: true, order: cancelled });
+      expect(service.cancelOrder).toHaveBeenCalledWith('order-1', 'Cancelled by user', 'account:key-1');
+      expect(priceTickEngine.removeOrder).toHaveBeenCalledWith(cancelled);
+      expect(removeOrderJobs).toHaveBeenCalledWith('order-1');
+      expect(publish).toHaveBeenCalledWith(cancelled, expect.objectContaining({ status: 'cancelled' }));
+    });
+
+    it('should refuse orders that are already executing', async () => {
+      service.getOrderById.mockResolvedValue({ ...resting, status: 'submitted' });
+      service.cancelOrder.mockResolvedValue(null);
+
+      const result = await management.cancelOrder('order-1');
+
+      expect(result).toMatchObject({ success: false, code: 'NOT_MODIFIABLE', error: expect.stringContaining('submitted') });
+      expect(priceTickEngine.removeOrder).not.toHaveBeenCalled();
+      expect(removeOrderJobs).not.toHaveBeenCalled();
+      expect(publish).not.toHaveBeenCalled();
+    });
+
+    it('should report unknown orders', async () => {
+      service.getOrderById.mockResolvedValue(null);
+
+      await expect(management.cancelOrder('missing')).resolves.toMatchObject({ success: false, code: 'NOT_FOUND' });
+      expect(service.cancelOrder).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('amendOrder', () => {
+    it('should amend a resting order and re-rest it', async () => {
+      const amended = { ...resting, limitPrice: 179 } as Order;
+      getReservation.mockReturnValue({ token: 'USDC', amount: 360 });
+      service.amendOrder.mockResolvedValue(amended);
+
+      const result = await management.amendOrder('order-1', { limitPrice: 179 }, 'account:key-1');
+
+      expect(result).toEqual({ success: true, order: amended });
+      expect(service.amendOrder).toHaveBeenCalledWith('order-1', { limitPrice: 179 }, 0, 'account:key-1');
+      expect(accounts.reserve).not.toHaveBeenCalled();
+      expect(priceTickEngine.updateOrder).toHaveBeenCalledWith(amended);
+      expect(updateOrderJobs).toHaveBeenCalledWith(amended);
+      expect(publish).toHaveBeenCalledWith(amended, expect.objectContaining({ event: 'amended' }));
+    });
+
+    it('should hold more before a larger amount is amended', async () => {
+      getReservation.mockReturnValue({ token: 'USDC', amount: 540 });
+      service.amendOrder.mockResolvedValue({ ...resting, amountIn: 3, reservedAmount: 540 });
+
+      await management.amendOrder('order-1', { amountIn: 3 });
+
+      expect(getReservation).toHaveBeenCalledWith(expect.objectContaining({ amountIn: 3 }), 3);
+      expect(accounts.reserve).toHaveBeenCalledWith('account-1', { token: 'USDC', amount: 180 });
+      expect(service.amendOrder).toHaveBeenCalledWith('order-1', { amountIn: 3 }, 180, 'system');
+      expect(accounts.reserve.mock.invocationCallOrder[0]).toBeLessThan(service.amendOrder.mock.invocationCallOrder[0]);
+    });
+
+    it('should give back the difference after a smaller amount is amended', async () => {
+      getReservation.mockReturnValue({ token: 'USDC', amount: 180 });
+      service.amendOrder.mockResolvedValue({ ...resting, amountIn: 1, reservedAmount: 180 });
+
+      await management.amendOrder('order-1', { amountIn: 1 });
+
+      expect(service.amendOrder).toHaveBeenCalledWith('order-1', { amountIn: 1 }, -180, 'system');
+      expect(accounts.release).toHaveBeenCalledWith('account-1', { token: 'USDC', amount: 180 });
+    });
+
+    it('should refuse an increase the balance cannot cover', async () => {
+      getReservation.mockReturnValue({ token: 'USDC', amount: 540 });
+      accounts.reserve.mockResolvedValue(false);
+
+      const result = await management.amendOrder('order-1', { amountIn: 3 });
+
+      expect(result).toMatchObject({ success: false, code: 'INSUFFICIENT_BALANCE' });
+      expect(service.amendOrder).not.toHaveBeenCalled();
+    });
+
+    it('should return the extra hold when the order stopped being modifiable', async () => {
+      getReservation.mockReturnValue({ token: 'USDC', amount: 540 });
+      service.amendOrder.mockResolvedValue(null);
+
+      const result = await management.amendOrder('order-1', { amountIn: 3 });
+
+      expect(result).toMatchObject({ success: false, code: 'NOT_MODIFIABLE' });
+      expect(accounts.release).toHaveBeenCalledWith('account-1', { token: 'USDC', amount: 180 });
+      expect(priceTickEngine.updateOrder).not.toHaveBeenCalled();
+    });
+
+    it('should not resize an order whose route is already being quoted', async () => {
+    service.getOrderById.mockResolvedValue({ ...resting, status: 'limit_check' });
+
+    for (const changes of [{ amountIn: 3 }, { limitPrice: 179 }]) {
+      await expect(management.amendOrder('order-1', changes)).resolves.toMatchObject({
+        success: false,
+        code: 'NOT_MODIFIABLE',
+      });
+    }
+    expect(accounts.reserve).not.toHaveBeenCalled();
+    expect(service.amendOrder).not.toHaveBeenCalled();
+  });
+
+  it('should reject amendments the order type does not support', async () => {
+      service.getOrderById.mockResolvedValue({ ...resting, type: 'MARKET' });
+
+      const result = await management.amendOrder('order-1', { limitPrice: 179 });
+
+      expect(result).toMatchObject({ success: false, code: 'INVALID_AMENDMENT' });
+      expect(accounts.reserve).not.toHaveBeenCalled();
+      expect(service.amendOrder).not.toHaveBeenCalled();
+    });
+  });
+});
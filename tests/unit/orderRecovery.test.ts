@@ -0,0 +1,219 @@
+// tests/unit/orderRecovery.test.ts
+
+jest.mock('../../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../../src/queue/orderQueue', () => ({
+  addOrderToQueue: jest.fn(),
+  buildJobData: jest.fn(),
+  getQueuedOrderIds: jest.fn(),
+}));
+
+jest.mock('../../src/market/PriceTickEngine', () => ({
+  priceTickEngine: { addOrder: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderEventService', () => ({
+  orderEventService: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderService', () => ({
+  IN_FLIGHT_STATUSES: ['pending', 'routing', 'limit_check', 'triggered', 'building', 'submitted'],
+  orderService: {
+    getOrderById: jest.fn(),
+    getOrdersByStatus: jest.fn(),
+    getTransactions: jest.fn(),
+    updateTransactionStatus: jest.fn(),
+    getFills: jest.fn(),
+    recordFills: jest.fn(),
+    applyFill: jest.fn(),
+    updateOrderStatus: jest.fn(),
+  },
+}));
+
+import { mockChain } from '../../src/chain/MockChain';
+import { orderService } from '../../src/services/orderService';
+import { addOrderToQueue, getQueuedOrderIds } from '../../src/queue/orderQueue';
+import { OrderRecoveryService } from '../../src/services/orderRecoveryService';
+import { TransactionExpiredError } from '../../src/errors';
+import { Fill, Order, OrderTransaction } from '../../src/types';
+
+const service = orderService as unknown as Record<keyof typeof orderService, jest.Mock>;
+
+const order = {
+  id: 'order-1',
+  accountId: 'account-1',
+  type: 'MARKET',
+  side: 'SELL',
+  tokenIn: 'SOL',
+  tokenOut: 'USDC',
+  amountIn: 2,
+  filledAmount: 0,
+  remainingAmount: 2,
+  status: 'submitted',
+  route: { path: ['SOL', 'USDC'], effectivePrice: 180, hops: [{ tokenIn: 'SOL', tokenOut: 'USDC', venues: [] }] },
+} as unknown as Order;
+
+const tx = {
+  signature: 'sig-1',
+  orderId: 'order-1',
+  hop: 0,
+  dex: 'raydium',
+  tokenIn: 'SOL',
+  tokenOut: 'USDC',
+  amountIn: 2,
+  lastValidSlot: 150,
+  status: 'sent',
+} as OrderTransaction;
+
+describe('OrderRecoveryService', () => {
+  let recovery: OrderRecoveryService;
+  let confirmTransaction: jest.SpyInstance;
+  let getSignatureStatus: jest.SpyInstance;
+  let transactions: OrderTransaction[];
+  let fills: Fill[];
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    recovery = new OrderRecoveryService();
+    confirmTransaction = jest.spyOn(mockChain, 'confirmTransaction');
+    getSignatureStatus = jest
+      .spyOn(mockChain, 'getSignatureStatus')
+      .mockReturnValue({ signature: 'sig-1', slot: 120, commitment: 'confirmed', err: null });
+
+    transactions = [{ ...tx }];
+    fills = [];
+    service.getOrderById.mockResolvedValue(order);
+    service.getTransactions.mockImplementation(async (_id, status) =>
+      transactions.filter((t) => !status || t.status === status)
+    );
+    service.updateTransactionStatus.mockImplementation(async (signature, status, outcome) => {
+      Object.assign(transactions.find((t) => t.signature === signature)!, { status, ...outcome });
+    });
+    service.getFills.mockImplementation(async () => fills);
+    service.recordFills.mockImplementation(async (_id, legs) => {
+      fills.push(...legs);
+    });
+  });
+
+  it('should not apply a swap again once its fill is stored', async () => {
+    transactions[0].status = 'settled';
+    fills = [{ txHash: 'sig-1', hop: 0, amountIn: 2, executedPrice: 181 } as Fill];
+    service.getOrderById.mockResolvedValue({ ...order, filledAmount: 2, remainingAmount: 0, averagePrice: 181 });
+
+    const result = await recovery.reconcile(order);
+
+    expect(confirmTransaction).not.toHaveBeenCalled();
+    expect(service.applyFill).not.toHaveBeenCalled();
+    expect(result).toMatchObject({ success: true, filledAmount: 2, txHash: 'sig-1' });
+  });
+
+  it('should resume from routing when no swap landed', async () => {
+    getSignatureStatus.mockReturnValue({ signature: 'sig-1', slot: null, commitment: null, err: null });
+    confirmTransaction.mockRejectedValue(new TransactionExpiredError('sig-1', 'block height exceeded'));
+
+    await expect(recovery.reconcile(order)).resolves.toBeNull();
+
+    expect(transactions[0].status).toBe('expired');
+    expect(service.applyFill).not.toHaveBeenCalled();
+    expect(service.updateOrderStatus).toHaveBeenCalledWith(
+      'order-1',
+      'routing',
+      expect.objectContaining({ reason: expect.stringContaining('none of its swaps landed') })
+    );
+  });
+
+  it('should settle a swap that landed instead of sending it again', async () => {
+    confirmTransaction.mockResolvedValue({
+      signature: 'sig-1',
+      slot: 120,
+      commitment: 'confirmed',
+      returnData: [{ executedPrice: 181, amountOut: 362, fee: 1, priceImpact: 0.001 }],
+    });
+    service.applyFill.mockImplementation(async (_id, _amount, _price, legs) => {
+      fills.push(...legs);
+      return { ...order, filledAmount: 2, remainingAmount: 0, averagePrice: 181 };
+    });
+
+    const result = await recovery.reconcile(order);
+
+    expect(service.applyFill).toHaveBeenCalledWith('order-1', 2, 181, [
+      expect.objectContaining({ txHash: 'sig-1', amountIn: 2, executedPrice: 181 }),
+    ]);
+    expect(service.recordFills).not.toHaveBeenCalled();
+    expect(transactions[0]).toMatchObject({ status: 'landed', executedPrice: 181, amountOut: 362 });
+    expect(service.updateOrderStatus).toHaveBeenCalledWith(
+      'order-1',
+      'confirmed',
+      expect.objectContaining({ executedPrice: 181, txHash: 'sig-1' })
+    );
+    expect(result).toMatchObject({ success: true, filledAmount: 2 });
+  });
+
+  it('should settle a landed swap from its stored outcome without the chain', async () => {
+    transactions[0] = { ...tx, status: 'landed', executedPrice: 181, amountOut: 362, fee: 1, priceImpact: 0.001 };
+    getSignatureStatus.mockReturnValue(null);
+    service.applyFill.mockResolvedValue({ ...order, filledAmount: 2, remainingAmount: 0, averagePrice: 181 });
+
+    const result = await recovery.reconcile(order);
+
+    expect(getSignatureStatus).not.toHaveBeenCalled();
+    expect(confirmTransaction).not.toHaveBeenCalled();
+    expect(service.applyFill).toHaveBeenCalledWith('order-1', 2, 181, [
+      expect.objectContaining({ txHash: 'sig-1', amountOut: 362, fee: 1 }),
+    ]);
+    expect(result).toMatchObject({ success: true, filledAmount: 2 });
+  });
+
+  it('should not resend a swap whose outcome the chain no longer knows', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    getSignatureStatus.mockReturnValue(null);
+
+    const result = await recovery.reconcile(order);
+
+    expect(confirmTransaction).not.toHaveBeenCalled();
+    expect(transactions[0].status).toBe('sent');
+    expect(service.applyFill).not.toHaveBeenCalled();
+    expect(service.updateOrderStatus).not.toHaveBeenCalledWith('order-1', 'routing', expect.anything());
+    expect(service.updateOrderStatus).toHaveBeenCalledWith(
+      'order-1',
+      'failed',
+      expect.objectContaining({ errorCode: 'EXECUTION_INTERRUPTED', errorReason: expect.stringContaining('sig-1') })
+    );
+    expect(result).toMatchObject({ success: false });
+  });
+
+  it('should fail a multi-hop route interrupted after a swap landed', async () => {
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    const multiHop = {
+      ...order,
+      route: { ...order.route!, hops: [order.route!.hops[0], order.route!.hops[0]] },
+    } as Order;
+    service.getOrderById.mockResolvedValue(multiHop);
+    transactions[0] = { ...tx, status: 'landed', executedPrice: 181, amountOut: 362, fee: 1, priceImpact: 0.001 };
+
+    const result = await recovery.reconcile(multiHop);
+
+    expect(confirmTransaction).not.toHaveBeenCalled();
+    expect(service.applyFill).not.toHaveBeenCalled();
+    expect(transactions[0].status).toBe('landed');
+    expect(service.updateOrderStatus).toHaveBeenCalledWith(
+      'order-1',
+      'failed',
+      expect.objectContaining({ errorReason: expect.stringContaining('mid-route') })
+    );
+    expect(result).toMatchObject({ success: false });
+  });
+
+  it('should re-enqueue stuck orders that have no queued job', async () => {
+    const pending = { ...order, id: 'order-2', status: 'pending' } as Order;
+    const queued = { ...order, id: 'order-3', status: 'routing' } as Order;
+    service.getOrdersByStatus.mockResolvedValue([pending, queued]);
+    (getQueuedOrderIds as jest.Mock).mockResolvedValue(new Set(['order-3']));
+
+    await expect(recovery.recoverStuckOrders()).resolves.toBe(1);
+
+    expect(addOrderToQueue).toHaveBeenCalledTimes(1);
+    expect((addOrderToQueue as jest.Mock).mock.calls[0][0]).toBe('order-2');
+  });
+});
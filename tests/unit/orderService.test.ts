@@ -0,0 +1,84 @@
+// tests/unit/orderService.test.ts
+
+jest.mock('../../src/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    order: { findFirst: jest.fn(), updateMany: jest.fn() },
+    $transaction: jest.fn(),
+  },
+}));
+
+import prisma from '../../src/db/prisma';
+import { OrderService } from '../../src/services/orderService';
+import { CreateOrderRequest } from '../../src/types';
+
+const db = prisma as unknown as {
+  order: { findFirst: jest.Mock; updateMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+const request: CreateOrderRequest = {
+  accountId: 'account-1',
+  clientOrderId: 'client-1',
+  type: 'LIMIT',
+  side: 'BUY',
+  tokenIn: 'SOL',
+  tokenOut: 'USDC',
+  amountIn: 2,
+  limitPrice: 180,
+  slippage: 0.02,
+};
+
+describe('OrderService idempotency', () => {
+  const service = new OrderService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.order.findFirst.mockResolvedValue(null);
+  });
+
+  it('should fingerprint payloads independently of field order', () => {
+    const reordered = Object.fromEntries(Object.entries(request).reverse()) as CreateOrderRequest;
+    expect(service.hashRequest(reordered)).toBe(service.hashRequest(request));
+    expect(service.hashRequest({ ...request, expiresAt: undefined })).toBe(service.hashRequest(request));
+  });
+
+  it('should fingerprint different payloads differently', () => {
+    expect(service.hashRequest({ ...request, amountIn: 3 })).not.toBe(service.hashRequest(request));
+    expect(service.hashRequest({ ...request, clientOrderId: 'client-2' })).not.toBe(
+      service.hashRequest(request)
+    );
+  });
+
+  it('should look submissions up by either key within the account', async () => {
+    await service.findSubmission('account-1', 'client-1', 'key-1');
+    expect(db.order.findFirst).toHaveBeenCalledWith({
+      where: { accountId: 'account-1', OR: [{ idempotencyKey: 'key-1' }, { clientOrderId: 'client-1' }] },
+    });
+  });
+
+  it('should not look anything up without keys', async () => {
+    expect(await service.findSubmission('account-1')).toBeNull();
+    expect(db.order.findFirst).not.toHaveBeenCalled();
+  });
+});
+
+describe('OrderService fills', () => {
+  const service = new OrderService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.$transaction.mockImplementation(async (fn: (tx: unknown) => unknown) => fn(db));
+  });
+
+  it('should reject a fill larger than what remains of the order', async () => {
+    db.order.updateMany.mockResolvedValue({ count: 0 });
+
+    await expect(service.applyFill('order-1', 3, 180)).rejects.toThrow('less than 3 remaining');
+    expect(db.order.updateMany).toHaveBeenCalledWith(
+      expect.objectContaining({
+        where: expect.objectContaining({ id: 'order-1', remainingAmount: { gte: expect.any(Number) } }),
+      })
+    );
+  });
+});
@@ -0,0 +1,187 @@
+// tests/unit/orderStateMachine.test.ts
+
+jest.mock('../../src/db/prisma', () => {
+  const db = {
+    order: { updateMany: jest.fn(), findUnique: jest.fn() },
+    orderHistory: { create: jest.fn() },
+    balance: { updateMany: jest.fn() },
+    $transaction: jest.fn(),
+  };
+  db.$transaction.mockImplementation((run: (tx: typeof db) => unknown) => run(db));
+  return { __esModule: true, default: db };
+});
+
+import prisma from '../../src/db/prisma';
+import { canTransition, getSourceStatuses } from '../../src/services/orderStateMachine';
+import { OrderService } from '../../src/services/orderService';
+import { InvalidTransitionError, OrderCancelledError } from '../../src/errors';
+
+const db = prisma as unknown as {
+  order: { updateMany: jest.Mock; findUnique: jest.Mock };
+  orderHistory: { create: jest.Mock };
+  balance: { updateMany: jest.Mock };
+  $transaction: jest.Mock;
+};
+
+describe('order state machine', () => {
+  it('should allow the execution path and repeated steps', () => {
+    expect(canTransition('pending', 'routing')).toBe(true);
+    expect(canTransition('routing', 'building')).toBe(true);
+    expect(canTransition('building', 'submitted')).toBe(true);
+    expect(canTransition('submitted', 'confirmed')).toBe(true);
+    expect(canTransition('submitted', 'submitted')).toBe(true);
+  });
+
+  it('should reject skipped steps and leaving terminal statuses', () => {
+    expect(canTransition('pending', 'confirmed')).toBe(false);
+    expect(canTransition('submitted', 'cancelled')).toBe(false);
+    expect(canTransition('confirmed', 'failed')).toBe(false);
+    expect(canTransition('cancelled', 'routing')).toBe(false);
+    expect(canTransition('failed', 'routing')).toBe(false);
+  });
+
+  it('should not let an order end twice', () => {
+    expect(canTransition('failed', 'failed')).toBe(false);
+    expect(canTransition('confirmed', 'confirmed')).toBe(false);
+    expect(canTransition('expired', 'expired')).toBe(false);
+    expect(canTransition('cancelled', 'cancelled')).toBe(false);
+    expect(getSourceStatuses('failed')).not.toContain('failed');
+  });
+
+  it('should list the statuses an order may move from', () => {
+    expect(getSourceStatuses('submitted').sort()).toEqual(['building', 'submitted']);
+    expect(getSourceStatuses('pending').sort()).toEqual(['failed', 'pending']);
+  });
+});
+
+describe('OrderService.updateOrderStatus', () => {
+  const service = new OrderService();
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    db.order.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should record the status left, in the same transaction as the update', async () => {
+    db.order.findUnique
+      .mockResolvedValueOnce({ id: 'order-1', status: 'building', attempts: 2 })
+      .mockResolvedValueOnce({ id: 'order-1', status: 'submitted', reservedAmount: 0 });
+
+    await service.updateOrderStatus('order-1', 'submitted', { reason: 'Submitting to network...' });
+
+    expect(db.order.updateMany.mock.calls[0][0]).toEqual({
+      where: { id: 'order-1', status: 'building' },
+      data: { status: 'submitted' },
+    });
+    expect(db.orderHistory.create.mock.calls[0][0].data).toMatchObject({
+      orderId: 'order-1',
+      previousStatus: 'building',
+      newStatus: 'submitted',
+      actor: 'system',
+      reason: 'Submitting to network...',
+      attempt: 2,
+      workerId: expect.any(String),
+    });
+  });
+
+  it('should decide again when the order moved on concurrently', async () => {
+    db.order.updateMany.mockResolvedValueOnce({ count: 0 });
+    db.order.findUnique
+      .mockResolvedValueOnce({ id: 'order-1', status: 'routing', attempts: 1 })
+      .mockResolvedValueOnce({ id: 'order-1', status: 'cancelled', attempts: 1 });
+
+    await expect(service.updateOrderStatus('order-1', 'building')).rejects.toBeInstanceOf(
+      OrderCancelledError
+    );
+    expect(db.orderHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('should reject invalid transitions without writing anything', async () => {
+    db.order.findUnique.mockResolvedValueOnce({ id: 'order-1', status: 'confirmed', attempts: 1 });
+
+    await expect(service.updateOrderStatus('order-1', 'routing')).rejects.toBeInstanceOf(
+      InvalidTransitionError
+    );
+    expect(db.order.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should not fail an order that already failed again', async () => {
+    db.order.findUnique.mockResolvedValueOnce({ id: 'order-1', status: 'failed', attempts: 3 });
+
+    await expect(service.updateOrderStatus('order-1', 'failed', { errorReason: 'boom' })).rejects.toBeInstanceOf(
+      InvalidTransitionError
+    );
+    expect(db.order.updateMany).not.toHaveBeenCalled();
+    expect(db.orderHistory.create).not.toHaveBeenCalled();
+  });
+
+  it('should record who cancelled an order', async () => {
+    db.order.findUnique
+      .mockResolvedValueOnce({ id: 'order-1', status: 'resting', attempts: 1, reservedAmount: 0 })
+      .mockResolvedValueOnce({ id: 'order-1', status: 'cancelled', reservedAmount: 0 });
+
+    await service.cancelOrder('order-1', 'Cancelled by user', 'account:key-1');
+
+    expect(db.orderHistory.create.mock.calls[0][0].data).toMatchObject({
+      previousStatus: 'resting',
+      newStatus: 'cancelled',
+      actor: 'account:key-1',
+      reason: 'Cancelled by user',
+    });
+  });
+
+  it('should release what a failed order holds in the transaction that fails it', async () => {
+    db.balance.updateMany.mockResolvedValue({ count: 1 });
+    db.order.findUnique
+      .mockResolvedValueOnce({
+        id: 'order-1',
+        accountId: 'account-1',
+        side: 'BUY',
+        tokenIn: 'SOL',
+        tokenOut: 'USDC',
+        status: 'routing',
+        attempts: 3,
+        reservedAmount: 370,
+      })
+      .mockResolvedValueOnce({ id: 'order-1', status: 'failed', reservedAmount: 0 });
+
+    await expect(service.updateOrderStatus('order-1', 'failed', { errorReason: 'boom' })).resolves.toMatchObject({
+      reservedAmount: 0,
+    });
+
+    expect(db.$transaction).toHaveBeenCalledTimes(1);
+    expect(db.order.updateMany).toHaveBeenLastCalledWith({
+      where: { id: 'order-1', reservedAmount: 370 },
+      data: { reservedAmount: 0 },
+    });
+    expect(db.balance.updateMany).toHaveBeenCalledWith({
+      where: { accountId: 'account-1', token: 'USDC', reserved: { gte: 370 } },
+      data: { available: { increment: 370 }, reserved: { decrement: 370 } },
+    });
+  });
+
+  it('should reopen only failed orders, with fresh attempts and a recorded reason', async () => {
+    db.order.findUnique
+      .mockResolvedValueOnce({ id: 'order-1', status: 'failed', attempts: 3 })
+      .mockResolvedValueOnce({ id: 'order-1', status: 'pending', attempts: 0 })
+      .mockResolvedValueOnce({ id: 'order-2', status: 'confirmed', attempts: 1 });
+
+    await expect(service.reopenOrder('order-1', 370, 'Job order-1 retried', 'admin:key-1')).resolves.toMatchObject({
+      status: 'pending',
+    });
+    await expect(service.reopenOrder('order-2', 370, 'Job order-2 retried')).resolves.toBeNull();
+
+    expect(db.order.updateMany).toHaveBeenCalledTimes(1);
+    expect(db.order.updateMany.mock.calls[0][0]).toEqual({
+      where: { id: 'order-1', status: 'failed' },
+      data: { status: 'pending', attempts: 0, errorReason: null, errorCode: null, reservedAmount: 370 },
+    });
+    expect(db.orderHistory.create.mock.calls[0][0].data).toMatchObject({
+      previousStatus: 'failed',
+      newStatus: 'pending',
+      actor: 'admin:key-1',
+      reason: 'Job order-1 retried',
+      attempt: 3,
+    });
+  });
+});
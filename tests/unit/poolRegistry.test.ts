@@ -0,0 +1,40 @@
+// tests/unit/poolRegistry.test.ts
+
+import { PoolRegistry } from '../../src/dex/PoolRegistry';
+
+describe('PoolRegistry', () => {
+  let registry: PoolRegistry;
+
+  beforeEach(() => {
+    registry = new PoolRegistry([['SOL', 'USDC']]);
+  });
+
+  it('should seed pools on both venues', () => {
+    const pools = registry.getPools('SOL', 'USDC');
+    expect(pools.map((p) => p.dex).sort()).toEqual(['METEORA', 'RAYDIUM']);
+  });
+
+  it('should match pairs in either direction', () => {
+    expect(registry.hasPool('USDC', 'SOL')).toBe(true);
+    expect(registry.hasPool('BONK', 'SOL')).toBe(false);
+  });
+
+  it('should emit pool event when a new pool is added', () => {
+    const listener = jest.fn();
+    registry.on('pool', listener);
+
+    const pool = registry.addPool('POOL_CREATED', 'RAYDIUM', 'BONK', 'SOL');
+
+    expect(listener).toHaveBeenCalledWith(pool);
+    expect(registry.hasPool('SOL', 'BONK')).toBe(true);
+  });
+
+  it('should not emit again for an existing pool', () => {
+    const listener = jest.fn();
+    registry.on('pool', listener);
+
+    registry.addPool('MIGRATION', 'METEORA', 'SOL', 'USDC');
+
+    expect(listener).not.toHaveBeenCalled();
+  });
+});
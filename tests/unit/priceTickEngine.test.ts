@@ -0,0 +1,160 @@
+// tests/unit/priceTickEngine.test.ts
+
+jest.mock('../../src/queue/orderQueue', () => ({
+  addOrderToQueue: jest.fn(),
+  buildJobData: jest.fn(),
+}));
+
+import { MockDexRouter } from '../../src/dex/MockDexRouter';
+import { DexRegistry } from '../../src/dex/DexRegistry';
+import { MockDexAdapter } from '../../src/dex/MockDexAdapter';
+import { MarketSimulator } from '../../src/dex/MarketSimulator';
+import { PriceTickEngine } from '../../src/market/PriceTickEngine';
+import { DexQuote, Order, OrderSide } from '../../src/types';
+
+function makeQuote(dex: string, price: number): DexQuote {
+  return {
+    price,
+    fee: 0,
+    dex,
+    side: 'BUY',
+    amount: 1,
+    quoteAmount: price,
+    expectedOutput: 1,
+    effectivePrice: price,
+    priceImpact: 0,
+    availableLiquidity: 1000,
+    fillable: true,
+  };
+}
+
+function makeOrder(id: string, side: OrderSide, limitPrice: number, tokenIn = 'SOL'): Order {
+  return {
+    id,
+    accountId: 'account-1',
+    type: 'LIMIT',
+    side,
+    tokenIn,
+    tokenOut: 'USDC',
+    amountIn: 1,
+    filledAmount: 0,
+    remainingAmount: 1,
+    reservedAmount: 0,
+    limitPrice,
+    slippage: 0.02,
+    timeInForce: 'GTC',
+    status: 'resting',
+    attempts: 0,
+    createdAt: new Date(),
+    updatedAt: new Date(),
+  };
+}
+
+describe('PriceTickEngine', () => {
+  let router: MockDexRouter;
+  let enqueue: jest.Mock;
+  let engine: PriceTickEngine;
+
+  beforeEach(() => {
+    router = new MockDexRouter();
+    jest.spyOn(router, 'getQuotes').mockResolvedValue([
+      makeQuote('RAYDIUM', 100),
+      makeQuote('METEORA', 102),
+    ]);
+    enqueue = jest.fn().mockResolvedValue(undefined);
+    engine = new PriceTickEngine(router, 1000, enqueue);
+  });
+
+  it('should fetch quotes once per pair regardless of resting order count', async () => {
+    for (let i = 0; i < 50; i++) {
+      engine.addOrder(makeOrder(`o${i}`, 'BUY', 50));
+    }
+    engine.addOrder(makeOrder('bonk', 'BUY', 50, 'BONK'));
+
+    await engine.tick();
+
+    expect(router.getQuotes).toHaveBeenCalledTimes(2);
+    expect(enqueue).not.toHaveBeenCalled();
+  });
+
+  it('should enqueue only crossed orders', async () => {
+    engine.addOrder(makeOrder('buy-hit', 'BUY', 101));
+    engine.addOrder(makeOrder('buy-miss', 'BUY', 99));
+    engine.addOrder(makeOrder('sell-hit', 'SELL', 101));
+    engine.addOrder(makeOrder('sell-miss', 'SELL', 103));
+
+    await engine.tick();
+
+    expect(enqueue.mock.calls.map(([order]) => order.id).sort()).toEqual(['buy-hit', 'sell-hit']);
+    expect(engine.getStats()[0].resting).toBe(2);
+  });
+
+  it('should put orders back when enqueueing fails', async () => {
+    enqueue.mockRejectedValueOnce(new Error('redis down'));
+    engine.addOrder(makeOrder('buy-hit', 'BUY', 101));
+
+    await engine.tick();
+
+    expect(engine.getStats()[0].resting).toBe(1);
+  });
+
+  it('should re-evaluate amended orders on the next tick', async () => {
+    const order = makeOrder('o1', 'BUY', 50);
+    engine.addOrder(order);
+
+    expect(engine.updateOrder({ ...order, limitPrice: 101 })).toBe(true);
+    await engine.tick();
+
+    expect(enqueue).toHaveBeenCalledWith(expect.objectContaining({ id: 'o1', limitPrice: 101 }));
+  });
+
+  it('should not add orders that are not resting when amended', () => {
+    expect(engine.updateOrder(makeOrder('o1', 'BUY', 50))).toBe(false);
+    expect(engine.getStats()).toEqual([]);
+  });
+
+  it('should remove resting orders', () => {
+    const order = makeOrder('o1', 'BUY', 50);
+    engine.addOrder(order);
+
+    expect(engine.removeOrder(order)).toBe(true);
+    expect(engine.getStats()).toEqual([]);
+  });
+
+  it('should trigger exactly when a scripted price path crosses the limit', async () => {
+    const simulator = new MarketSimulator({
+      seed: 1,
+      process: 'scripted',
+      basePrices: {},
+      defaultBasePrice: 185.5,
+      volatility: 0,
+      drift: 0,
+      pricePaths: { 'SOL/USDC': [190, 186, 184.5, 190] },
+      stepMs: 0,
+    });
+    const registry = new DexRegistry();
+    registry.register(
+      new MockDexAdapter(
+        {
+          name: 'RAYDIUM', enabled: true, timeoutMs: 1000, fee: 0, minVariance: 1, maxVariance: 1, quoteLatencyMs: 1,
+          liquidity: { model: 'constant_product', depth: 1_000_000 },
+        },
+        simulator
+      )
+    );
+    engine = new PriceTickEngine(new MockDexRouter(registry), 1000, enqueue);
+    engine.addOrder(makeOrder('buy', 'BUY', 185));
+
+    const triggeredAt: number[] = [];
+    for (let step = 0; step < 4; step++) {
+      await engine.tick();
+      if (enqueue.mock.calls.length > 0 && triggeredAt.length === 0) {
+        triggeredAt.push(step);
+      }
+      simulator.advance();
+    }
+
+    expect(triggeredAt).toEqual([2]);
+    expect(enqueue).toHaveBeenCalledTimes(1);
+  });
+});
@@ -0,0 +1,100 @@
+// tests/unit/riskService.test.ts
+
+jest.mock('../../src/db/prisma', () => ({
+  __esModule: true,
+  default: {
+    account: { findUnique: jest.fn() },
+    order: { count: jest.fn() },
+    balance: { updateMany: jest.fn() },
+  },
+}));
+
+import prisma from '../../src/db/prisma';
+import { RISK_BUY_RESERVE_BUFFER, RISK_MAX_OPEN_ORDERS, RiskService } from '../../src/services/riskService';
+import { DEFAULT_BASE_PRICES, MarketSimulator } from '../../src/dex/MarketSimulator';
+import { CreateOrderRequest } from '../../src/types';
+
+const db = prisma as unknown as {
+  account: { findUnique: jest.Mock };
+  order: { count: jest.Mock };
+  balance: { updateMany: jest.Mock };
+};
+
+function makeRequest(overrides: Partial<CreateOrderRequest> = {}): CreateOrderRequest {
+  return {
+    accountId: 'account-1',
+    type: 'MARKET',
+    side: 'BUY',
+    tokenIn: 'SOL',
+    tokenOut: 'USDC',
+    amountIn: 2,
+    slippage: 0.02,
+    ...overrides,
+  };
+}
+
+describe('RiskService', () => {
+  let risk: RiskService;
+
+  beforeEach(() => {
+    jest.clearAllMocks();
+    risk = new RiskService(
+      new MarketSimulator({
+        seed: 42,
+        process: 'static',
+        basePrices: { ...DEFAULT_BASE_PRICES },
+        defaultBasePrice: 185.5,
+        volatility: 0,
+        drift: 0,
+        stepMs: 0,
+      })
+    );
+    db.account.findUnique.mockResolvedValue({
+      id: 'account-1',
+      name: 'test',
+      balances: [{ token: 'USDC', available: 100, reserved: 0 }],
+    });
+    db.order.count.mockResolvedValue(0);
+    db.balance.updateMany.mockResolvedValue({ count: 1 });
+  });
+
+  it('should reserve what a buy may pay at the limit price after slippage', async () => {
+    const result = await risk.checkOrder(makeRequest({ type: 'LIMIT', limitPrice: 180 }));
+
+    const amount = 2 * 180 * 1.02 * (1 + RISK_BUY_RESERVE_BUFFER);
+    expect(result).toEqual({ success: true, reservation: { token: 'USDC', amount } });
+    expect(db.balance.updateMany).toHaveBeenCalledWith({
+      where: { accountId: 'account-1', token: 'USDC', available: { gte: amount } },
+      data: { available: { decrement: amount }, reserved: { increment: amount } },
+    });
+  });
+
+  it('should reserve the tokenIn a sell spends', async () => {
+    const result = await risk.checkOrder(makeRequest({ side: 'SELL' }));
+    expect(result).toEqual({ success: true, reservation: { token: 'SOL', amount: 2 } });
+  });
+
+  it('should reject unknown accounts', async () => {
+    db.account.findUnique.mockResolvedValue(null);
+    const result = await risk.checkOrder(makeRequest());
+    expect(result).toMatchObject({ success: false, code: 'ACCOUNT_NOT_FOUND' });
+  });
+
+  it('should reject orders above the maximum notional', async () => {
+    const result = await risk.checkOrder(makeRequest({ amountIn: 100_000 }));
+    expect(result).toMatchObject({ success: false, code: 'MAX_NOTIONAL_EXCEEDED' });
+    expect(db.balance.updateMany).not.toHaveBeenCalled();
+  });
+
+  it('should reject accounts at the open order limit', async () => {
+    db.order.count.mockResolvedValue(RISK_MAX_OPEN_ORDERS);
+    const result = await risk.checkOrder(makeRequest());
+    expect(result).toMatchObject({ success: false, code: 'MAX_OPEN_ORDERS' });
+  });
+
+  it('should reject when the balance cannot cover the reservation', async () => {
+    db.balance.updateMany.mockResolvedValue({ count: 0 });
+    const result = await risk.checkOrder(makeRequest());
+    expect(result).toMatchObject({ success: false, code: 'INSUFFICIENT_BALANCE' });
+  });
+});
@@ -0,0 +1,160 @@
+// tests/unit/sniperOrder.test.ts
+
+jest.mock('../../src/db/prisma', () => ({ __esModule: true, default: {} }));
+
+jest.mock('../../src/queue/orderQueue', () => ({
+  addOrderToQueue: jest.fn(),
+  buildJobData: jest.fn((order) => ({ orderId: order.id })),
+}));
+
+jest.mock('../../src/services/orderEventService', () => ({
+  orderEventService: { publish: jest.fn() },
+}));
+
+jest.mock('../../src/services/orderService', () => ({
+  orderService: {
+    getOrderById: jest.fn(),
+    getOrdersByStatus: jest.fn(),
+    updateOrderStatus: jest.fn(),
+  },
+}));
+
+import { SniperOrderService } from '../../src/services/sniperOrderService';
+import { MockDexRouter } from '../../src/dex/MockDexRouter';
+import { poolRegistry } from '../../src/dex/PoolRegistry';
+import { orderService } from '../../src/services/orderService';
+import { addOrderToQueue } from '../../src/queue/orderQueue';
+import { DexRouterResult, ExecutionResult, Order } from '../../src/types';
+
+const service = orderService as unknown as Record<keyof typeof orderService, jest.Mock>;
+
+// Each test snipes its own token so pools added by one do not match another's orders
+const sniper = (tokenIn: string, overrides: Partial<Order> = {}) =>
+  ({
+    id: `order-${tokenIn}`,
+    accountId: 'account-1',
+    type: 'SNIPER',
+    side: 'BUY',
+    tokenIn,
+    tokenOut: 'SOL',
+    amountIn: 100,
+    remainingAmount: 100,
+    filledAmount: 0,
+    slippage: 0.02,
+    status: 'pending',
+    ...overrides,
+  }) as Order;
+
+const flush = () => new Promise((resolve) => setImmediate(resolve));
+
+describe('SniperOrderService', () => {
+  const router = new MockDexRouter();
+  let sniperService: SniperOrderService;
+  let routeOrder: jest.SpyInstance;
+  let executeRoute: jest.SpyInstance;
+
+  beforeEach(async () => {
+    jest.clearAllMocks();
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'error').mockImplementation(() => undefined);
+    service.getOrdersByStatus.mockResolvedValue([]);
+    service.getOrderById.mockImplementation(async (id: string) => ({ id, status: 'routing' }));
+
+    sniperService = new SniperOrderService(router);
+    await sniperService.start();
+    routeOrder = jest.spyOn(router, 'routeOrder');
+    executeRoute = jest
+      .spyOn(sniperService as unknown as { executeRoute: () => Promise<ExecutionResult> }, 'executeRoute')
+      .mockResolvedValue({ success: true });
+  });
+
+  afterEach(() => {
+    poolRegistry.removeAllListeners('pool');
+    jest.restoreAllMocks();
+    jest.useRealTimers();
+  });
+
+  const quote = (effectivePrice: number) =>
+    ({ selectedDex: 'RAYDIUM', price: effectivePrice, effectivePrice, path: [], hops: [] }) as unknown as DexRouterResult;
+
+  it('should arm an order until a pool for its pair exists', async () => {
+    const result = await sniperService.processSniperOrder(sniper('ARMA'));
+
+    expect(result).toEqual({ success: true, status: 'armed' });
+    expect(service.updateOrderStatus).toHaveBeenCalledWith('order-ARMA', 'armed', expect.anything());
+    expect(sniperService.getArmedCount()).toBe(1);
+    expect(routeOrder).not.toHaveBeenCalled();
+  });
+
+  it('should trigger armed orders when their pool is created', async () => {
+    await sniperService.processSniperOrder(sniper('TRIG'));
+
+    poolRegistry.addPool('POOL_CREATED', 'RAYDIUM', 'TRIG', 'SOL');
+    await flush();
+
+    expect(service.updateOrderStatus).toHaveBeenCalledWith('order-TRIG', 'triggered', expect.anything());
+    expect(addOrderToQueue).toHaveBeenCalledWith('order-TRIG', { orderId: 'order-TRIG' }, 'order-TRIG-trigger');
+    expect(sniperService.getArmedCount()).toBe(0);
+  });
+
+  it('should expire an armed order when no pool appears in time', async () => {
+    jest.useFakeTimers({ doNotFake: ['setImmediate'] });
+    await sniperService.processSniperOrder(sniper('LATE', { expiresAt: new Date(Date.now() + 1000) }));
+
+    jest.advanceTimersByTime(1000);
+    await flush();
+
+    expect(sniperService.getArmedCount()).toBe(0);
+    expect(service.updateOrderStatus).toHaveBeenCalledWith(
+      'order-LATE',
+      'failed',
+      expect.objectContaining({ errorCode: 'ORDER_EXPIRED' })
+    );
+  });
+
+  it('should not trigger an order cancelled while armed', async () => {
+    await sniperService.processSniperOrder(sniper('GONE'));
+
+    expect(sniperService.disarm('order-GONE')).toBe(true);
+    poolRegistry.addPool('POOL_CREATED', 'RAYDIUM', 'GONE', 'SOL');
+    await flush();
+
+    expect(service.updateOrderStatus).not.toHaveBeenCalledWith('order-GONE', 'triggered', expect.anything());
+    expect(addOrderToQueue).not.toHaveBeenCalled();
+  });
+
+  describe('max price', () => {
+    beforeEach(() => {
+      poolRegistry.addPool('POOL_CREATED', 'RAYDIUM', 'MAXP', 'SOL');
+    });
+
+    it('should reject a buy whose net price is above maxPrice', async () => {
+      const order = sniper('MAXP', { maxPrice: 1 });
+      service.getOrderById.mockResolvedValue({ ...order, status: 'routing' });
+      routeOrder.mockResolvedValue(quote(1.01));
+
+      const result = await sniperService.processSniperOrder(order);
+
+      expect(result.success).toBe(false);
+      expect(executeRoute).not.toHaveBeenCalled();
+      expect(service.updateOrderStatus).toHaveBeenCalledWith(
+        'order-MAXP',
+        'failed',
+        expect.objectContaining({ errorCode: 'MAX_PRICE_EXCEEDED' })
+      );
+    });
+
+    it('should treat maxPrice as a floor for sells', async () => {
+      const order = sniper('MAXP', { side: 'SELL', maxPrice: 1 });
+      service.getOrderById.mockResolvedValue({ ...order, status: 'routing' });
+
+      routeOrder.mockResolvedValue(quote(0.99));
+      expect((await sniperService.processSniperOrder(order)).success).toBe(false);
+      expect(executeRoute).not.toHaveBeenCalled();
+
+      routeOrder.mockResolvedValue(quote(1.01));
+      await expect(sniperService.processSniperOrder(order)).resolves.toEqual({ success: true });
+      expect(executeRoute).toHaveBeenCalledTimes(1);
+    });
+  });
+});
@@ -0,0 +1,78 @@
+// tests/unit/venueHealth.test.ts
+
+import { VenueHealthTracker } from '../../src/dex/VenueHealthTracker';
+
+describe('VenueHealthTracker', () => {
+  let health: VenueHealthTracker;
+
+  beforeEach(() => {
+    jest.spyOn(console, 'log').mockImplementation(() => undefined);
+    jest.spyOn(console, 'warn').mockImplementation(() => undefined);
+    health = new VenueHealthTracker(4, 3, 1000);
+  });
+
+  afterEach(() => {
+    jest.useRealTimers();
+    jest.restoreAllMocks();
+  });
+
+  const fail = (times: number) => {
+    for (let i = 0; i < times; i++) {
+      health.recordFailure('RAYDIUM', 50, new Error('quote timed out'));
+    }
+  };
+
+  it('should keep error and latency statistics over the rolling window', () => {
+    [100, 200, 300].forEach((latency) => health.recordSuccess('RAYDIUM', latency));
+    fail(2);
+
+    expect(health.getStats('RAYDIUM')).toMatchObject({
+      requests: 4,
+      errors: 2,
+      errorRate: 0.5,
+      avgLatencyMs: 250,
+      p95LatencyMs: 300,
+      status: 'degraded',
+      circuit: 'closed',
+      lastError: 'quote timed out',
+    });
+  });
+
+  it('should open the circuit after consecutive failures', () => {
+    fail(2);
+    health.recordSuccess('RAYDIUM', 100);
+    fail(2);
+    expect(health.isAvailable('RAYDIUM')).toBe(true);
+
+    fail(1);
+    expect(health.getStats('RAYDIUM')).toMatchObject({ circuit: 'open', status: 'down' });
+    expect(health.acquire('RAYDIUM')).toBe(false);
+  });
+
+  it('should let a single probe through after the cooldown and close on its success', () => {
+    jest.useFakeTimers();
+    fail(3);
+    jest.advanceTimersByTime(1000);
+
+    expect(health.acquire('RAYDIUM')).toBe(true);
+    expect(health.getStats('RAYDIUM').circuit).toBe('half_open');
+    expect(health.acquire('RAYDIUM')).toBe(false);
+
+    health.recordSuccess('RAYDIUM', 100);
+    expect(health.getStats('RAYDIUM')).toMatchObject({ circuit: 'closed', status: 'healthy' });
+  });
+
+  it('should reopen for another cooldown when the probe fails', () => {
+    jest.useFakeTimers();
+    fail(3);
+    jest.advanceTimersByTime(1000);
+    health.acquire('RAYDIUM');
+
+    fail(1);
+
+    expect(health.getStats('RAYDIUM').circuit).toBe('open');
+    expect(health.isAvailable('RAYDIUM')).toBe(false);
+    jest.advanceTimersByTime(1000);
+    expect(health.isAvailable('RAYDIUM')).toBe(true);
+  });
+});
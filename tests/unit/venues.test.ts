@@ -0,0 +1,20 @@
+// tests/unit/venues.test.ts
+
+import { DEFAULT_VENUES, loadVenueConfig } from '../../src/dex/venues';
+
+describe('loadVenueConfig', () => {
+  it('should enable Raydium and Meteora by default', () => {
+    const venues = loadVenueConfig(DEFAULT_VENUES, {});
+    expect(venues.filter((v) => v.enabled).map((v) => v.name)).toEqual(['RAYDIUM', 'METEORA']);
+  });
+
+  it('should select enabled venues from DEX_ENABLED', () => {
+    const venues = loadVenueConfig(DEFAULT_VENUES, { DEX_ENABLED: 'meteora, ORCA' });
+    expect(venues.filter((v) => v.enabled).map((v) => v.name)).toEqual(['METEORA', 'ORCA']);
+  });
+
+  it('should apply per-venue timeouts', () => {
+    const venues = loadVenueConfig(DEFAULT_VENUES, { DEX_ORCA_TIMEOUT_MS: '750' });
+    expect(venues.find((v) => v.name === 'ORCA')!.timeoutMs).toBe(750);
+  });
+});
@@ -0,0 +1,144 @@
+// tests/unit/websocket.test.ts
+
+import { WebSocket } from 'ws';
+import { parseClientMessage, PROTOCOL_VERSION } from '../../src/websocket/protocol';
+import { WebSocketManager } from '../../src/websocket/wsManager';
+import { MarketDataMessage, OrderRef, OrderStatus } from '../../src/types';
+
+function makeSocket() {
+  return { readyState: WebSocket.OPEN, send: jest.fn() } as unknown as WebSocket & { send: jest.Mock };
+}
+
+const received = (socket: { send: jest.Mock }) => socket.send.mock.calls.map(([payload]) => JSON.parse(payload));
+
+const order: OrderRef = { id: 'order-1', accountId: 'account-1', tokenIn: 'SOL', tokenOut: 'USDC' };
+
+const update = (status: OrderStatus) => ({ orderId: order.id, status, timestamp: new Date() });
+
+describe('parseClientMessage', () => {
+  it('should accept version 1 order subscriptions', () => {
+    const result = parseClientMessage(JSON.stringify({ action: 'subscribe', orderId: 'order-1' }));
+    expect(result).toEqual({
+      success: true,
+      message: { action: 'subscribe', channel: 'order', orderId: 'order-1' },
+    });
+  });
+
+  it('should validate channel filters', () => {
+    const pair = parseClientMessage(
+      JSON.stringify({ v: PROTOCOL_VERSION, action: 'subscribe', channel: 'pair', pair: 'sol/usdc' })
+    );
+    expect(pair).toMatchObject({ success: true, message: { pair: 'SOL/USDC' } });
+
+    const statuses = parseClientMessage(
+      JSON.stringify({ action: 'subscribe', channel: 'status', statuses: ['confirmed', 'exploded'] })
+    );
+    expect(statuses).toMatchObject({ success: false, error: 'Invalid message' });
+  });
+
+  it('should reject unknown fields, actions and versions', () => {
+    expect(parseClientMessage('{')).toMatchObject({ success: false, error: 'Invalid JSON' });
+    expect(parseClientMessage(JSON.stringify({ action: 'publish' }))).toMatchObject({ success: false });
+    expect(
+      parseClientMessage(JSON.stringify({ action: 'subscribe', channel: 'account', extra: true }))
+    ).toMatchObject({ success: false });
+    expect(
+      parseClientMessage(JSON.stringify({ v: 99, action: 'subscribe', channel: 'account' }))
+    ).toMatchObject({ success: false, error: expect.stringContaining('Unsupported protocol version') });
+  });
+
+  it('should require exactly one unsubscribe target', () => {
+    expect(parseClientMessage(JSON.stringify({ action: 'unsubscribe' }))).toMatchObject({ success: false });
+    expect(
+      parseClientMessage(JSON.stringify({ action: 'unsubscribe', subscriptionId: 'sub-1' }))
+    ).toMatchObject({ success: true });
+  });
+});
+
+describe('WebSocketManager', () => {
+  let manager: WebSocketManager;
+
+  beforeEach(() => {
+    manager = new WebSocketManager();
+  });
+
+  it('should deliver order updates to matching channels once per socket', () => {
+    const socket = makeSocket();
+    const account = manager.subscribe(socket, { channel: 'account', accountId: 'account-1' });
+    const pair = manager.subscribe(socket, { channel: 'pair', pair: 'USDC/SOL' });
+
+    manager.emit(order, update('routing'));
+
+    expect(received(socket)).toEqual([
+      expect.objectContaining({
+        type: 'order',
+        subscriptionIds: [account, pair],
+        orderId: 'order-1',
+        status: 'routing',
+        accountId: 'account-1',
+      }),
+    ]);
+  });
+
+  it('should filter by status and account scope', () => {
+    const own = makeSocket();
+    const other = makeSocket();
+    manager.subscribe(own, { channel: 'status', statuses: ['confirmed'], accountId: 'account-1' });
+    manager.subscribe(other, { channel: 'status', statuses: ['confirmed'], accountId: 'account-2' });
+
+    manager.emit(order, update('routing'));
+    manager.emit(order, update('confirmed'));
+
+    expect(received(own).map((message) => message.status)).toEqual(['confirmed']);
+    expect(other.send).not.toHaveBeenCalled();
+  });
+
+  it('should stream market data to the pair only', () => {
+    const socket = makeSocket();
+    manager.subscribe(socket, { channel: 'market', pair: 'SOL/USDC' });
+    manager.subscribe(socket, { channel: 'account', accountId: 'account-1' });
+
+    const quote = { pair: 'SOL/USDC', tokenIn: 'SOL', tokenOut: 'USDC', effectivePrice: 185 };
+    manager.publishMarketData(quote as MarketDataMessage);
+    manager.publishMarketData({ ...quote, pair: 'BONK/SOL', tokenIn: 'BONK', tokenOut: 'SOL' } as MarketDataMessage);
+
+    expect(received(socket)).toEqual([expect.objectContaining({ type: 'market', pair: 'SOL/USDC' })]);
+  });
+
+  it('should hold live updates during a replay and never repeat a seq', () => {
+    const socket = makeSocket();
+    const id = manager.subscribe(socket, { channel: 'order', orderId: 'order-1' }, true);
+
+    // Seq 3 goes out live while the replay of seq 2-3 is being loaded
+    manager.emit(order, { ...update('submitted'), seq: 3 });
+    expect(socket.send).not.toHaveBeenCalled();
+
+    manager.completeReplay(socket, id, order, [
+      { ...update('routing'), seq: 2 },
+      { ...update('submitted'), seq: 3 },
+    ]);
+    manager.emit(order, { ...update('confirmed'), seq: 4 });
+
+    expect(received(socket).map(({ type, seq, replay }) => [type, seq, replay])).toEqual([
+      ['order', 2, true],
+      ['order', 3, true],
+      ['replayed', undefined, undefined],
+      ['order', 4, undefined],
+    ]);
+    expect(received(socket)[2]).toMatchObject({ subscriptionId: id, count: 2, lastSeq: 3 });
+  });
+
+  it('should stop delivering after unsubscribe and disconnect', () => {
+    const socket = makeSocket();
+    const id = manager.subscribe(socket, { channel: 'order', orderId: 'order-1' });
+    expect(manager.getConnectionCount('order-1')).toBe(1);
+
+    expect(manager.unsubscribe(socket, id)).toBe(true);
+    manager.subscribe(socket, { channel: 'account', accountId: 'account-1' });
+    manager.disconnect(socket);
+    manager.emit(order, update('routing'));
+
+    expect(socket.send).not.toHaveBeenCalled();
+    expect(manager.getStats()).toEqual({ connections: 0, channels: {} });
+  });
+});